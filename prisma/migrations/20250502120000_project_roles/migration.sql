@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "ProjectRole" AS ENUM ('viewer', 'commenter', 'editor', 'admin');
+
+-- AlterTable
+ALTER TABLE "ProjectPermission" ADD COLUMN     "role" "ProjectRole" NOT NULL DEFAULT 'viewer';
+
+-- Migrate existing permissions: 'read' -> viewer, 'write' -> editor
+UPDATE "ProjectPermission" SET "role" = 'editor' WHERE "permission" = 'write';
+
+-- AlterTable
+ALTER TABLE "ProjectPermission" DROP COLUMN "permission";
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "ProjectInvitation" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "role" "ProjectRole" NOT NULL DEFAULT 'viewer',
+    "invitedById" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "acceptedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProjectInvitation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProjectInvitation_projectId_idx" ON "ProjectInvitation"("projectId");
+
+-- CreateIndex
+CREATE INDEX "ProjectInvitation_email_idx" ON "ProjectInvitation"("email");
+
+-- AddForeignKey
+ALTER TABLE "ProjectInvitation" ADD CONSTRAINT "ProjectInvitation_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProjectInvitation" ADD CONSTRAINT "ProjectInvitation_invitedById_fkey" FOREIGN KEY ("invitedById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
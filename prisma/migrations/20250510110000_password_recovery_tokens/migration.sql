@@ -0,0 +1,12 @@
+-- Los tokens anteriores se guardaban en claro: se descartan
+DELETE FROM "PasswordRecoveryToken";
+
+-- AlterTable
+ALTER TABLE "PasswordRecoveryToken" RENAME COLUMN "token" TO "tokenHash";
+
+-- RenameIndex
+ALTER INDEX "PasswordRecoveryToken_token_key" RENAME TO "PasswordRecoveryToken_tokenHash_key";
+
+-- AlterTable
+ALTER TABLE "User" DROP COLUMN "passwordResetExpires",
+DROP COLUMN "passwordResetToken";
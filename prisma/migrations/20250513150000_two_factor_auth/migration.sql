@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "totpSecret" TEXT,
+ADD COLUMN     "twoFactorEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "totpLastUsedStep" INTEGER,
+ADD COLUMN     "recoveryCodeHashes" TEXT[];
+
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN     "twoFactor" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "requireTwoFactor" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,14 @@
+-- DropForeignKey
+ALTER TABLE "ProjectPermission" DROP CONSTRAINT "ProjectPermission_userId_fkey";
+
+-- DropForeignKey
+ALTER TABLE "ProjectVersion" DROP CONSTRAINT "ProjectVersion_createdById_fkey";
+
+-- AlterTable
+ALTER TABLE "ProjectVersion" ALTER COLUMN "createdById" DROP NOT NULL;
+
+-- AddForeignKey
+ALTER TABLE "ProjectPermission" ADD CONSTRAINT "ProjectPermission_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProjectVersion" ADD CONSTRAINT "ProjectVersion_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "ProjectTransfer" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "fromUserId" TEXT NOT NULL,
+    "toUserId" TEXT NOT NULL,
+    "keepAsEditor" BOOLEAN NOT NULL DEFAULT false,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "acceptedAt" TIMESTAMP(3),
+    "declinedAt" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProjectTransfer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProjectTransfer_projectId_idx" ON "ProjectTransfer"("projectId");
+
+-- CreateIndex
+CREATE INDEX "ProjectTransfer_toUserId_idx" ON "ProjectTransfer"("toUserId");
+
+-- AddForeignKey
+ALTER TABLE "ProjectTransfer" ADD CONSTRAINT "ProjectTransfer_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProjectTransfer" ADD CONSTRAINT "ProjectTransfer_fromUserId_fkey" FOREIGN KEY ("fromUserId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProjectTransfer" ADD CONSTRAINT "ProjectTransfer_toUserId_fkey" FOREIGN KEY ("toUserId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
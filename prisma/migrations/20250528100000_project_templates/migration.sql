@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "TemplateVisibility" AS ENUM ('private', 'workspace', 'public');
+
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "isTemplate" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "templateVisibility" "TemplateVisibility" NOT NULL DEFAULT 'private';
+
+-- CreateIndex
+CREATE INDEX "Project_isTemplate_templateVisibility_idx" ON "Project"("isTemplate", "templateVisibility");
@@ -0,0 +1,17 @@
+-- DropForeignKey
+ALTER TABLE "ProjectPermission" DROP CONSTRAINT "ProjectPermission_projectId_fkey";
+
+-- DropForeignKey
+ALTER TABLE "ProjectVersion" DROP CONSTRAINT "ProjectVersion_projectId_fkey";
+
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Project_deletedAt_idx" ON "Project"("deletedAt");
+
+-- AddForeignKey
+ALTER TABLE "ProjectPermission" ADD CONSTRAINT "ProjectPermission_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProjectVersion" ADD CONSTRAINT "ProjectVersion_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
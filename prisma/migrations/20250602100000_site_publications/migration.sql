@@ -0,0 +1,65 @@
+-- CreateTable
+CREATE TABLE "Publication" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "currentReleaseId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Publication_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SiteRelease" (
+    "id" TEXT NOT NULL,
+    "publicationId" TEXT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "comment" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SiteRelease_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SiteReleaseFile" (
+    "id" TEXT NOT NULL,
+    "releaseId" TEXT NOT NULL,
+    "path" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "content" BYTEA NOT NULL,
+    "etag" TEXT NOT NULL,
+
+    CONSTRAINT "SiteReleaseFile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Publication_projectId_key" ON "Publication"("projectId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Publication_slug_key" ON "Publication"("slug");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Publication_currentReleaseId_key" ON "Publication"("currentReleaseId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SiteRelease_publicationId_number_key" ON "SiteRelease"("publicationId", "number");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SiteReleaseFile_releaseId_path_key" ON "SiteReleaseFile"("releaseId", "path");
+
+-- AddForeignKey
+ALTER TABLE "Publication" ADD CONSTRAINT "Publication_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Publication" ADD CONSTRAINT "Publication_currentReleaseId_fkey" FOREIGN KEY ("currentReleaseId") REFERENCES "SiteRelease"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SiteRelease" ADD CONSTRAINT "SiteRelease_publicationId_fkey" FOREIGN KEY ("publicationId") REFERENCES "Publication"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SiteRelease" ADD CONSTRAINT "SiteRelease_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SiteReleaseFile" ADD CONSTRAINT "SiteReleaseFile_releaseId_fkey" FOREIGN KEY ("releaseId") REFERENCES "SiteRelease"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,48 @@
+-- AlterTable
+ALTER TABLE "Page" ADD COLUMN     "parentId" TEXT,
+ADD COLUMN     "position" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "slug" TEXT;
+
+-- Backfill: posición según el orden de creación
+UPDATE "Page" AS p
+SET "position" = s."position"
+FROM (
+  SELECT "id", ROW_NUMBER() OVER (PARTITION BY "projectId" ORDER BY "createdAt", "id") - 1 AS "position"
+  FROM "Page"
+) AS s
+WHERE p."id" = s."id";
+
+-- Backfill: slug a partir del nombre como slugify() (sin acentos, máximo 90 caracteres) y, como uniquePageSlug(),
+-- con sufijo -2, -3... hasta no chocar con ningún slug ya asignado en el proyecto
+DO $$
+DECLARE
+  page RECORD;
+  base TEXT;
+  candidate TEXT;
+  n INTEGER;
+BEGIN
+  FOR page IN SELECT "id", "projectId", "name" FROM "Page" ORDER BY "projectId", "createdAt", "id" LOOP
+    base := COALESCE(NULLIF(LEFT(TRIM(BOTH '-' FROM REGEXP_REPLACE(
+      LOWER(REGEXP_REPLACE(NORMALIZE(page."name", NFD), '[\u0300-\u036f]', '', 'g')),
+      '[^a-z0-9]+', '-', 'g'
+    )), 90), ''), 'page');
+    candidate := base;
+    n := 2;
+    WHILE EXISTS (SELECT 1 FROM "Page" WHERE "projectId" = page."projectId" AND "slug" = candidate) LOOP
+      candidate := base || '-' || n;
+      n := n + 1;
+    END LOOP;
+    UPDATE "Page" SET "slug" = candidate WHERE "id" = page."id";
+  END LOOP;
+END $$;
+
+ALTER TABLE "Page" ALTER COLUMN "slug" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Page_parentId_idx" ON "Page"("parentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Page_projectId_slug_key" ON "Page"("projectId", "slug");
+
+-- AddForeignKey
+ALTER TABLE "Page" ADD CONSTRAINT "Page_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Page"("id") ON DELETE SET NULL ON UPDATE CASCADE;
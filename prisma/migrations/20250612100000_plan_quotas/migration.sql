@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "Plan" AS ENUM ('free', 'pro', 'business');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "plan" "Plan" NOT NULL DEFAULT 'free';
+
+-- AlterTable
+ALTER TABLE "Workspace" ADD COLUMN     "plan" "Plan" NOT NULL DEFAULT 'free';
@@ -0,0 +1,11 @@
+-- DropIndex
+DROP INDEX "Domain_hostname_key";
+
+-- CreateIndex
+CREATE INDEX "Domain_hostname_idx" ON "Domain"("hostname");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Domain_publicationId_hostname_key" ON "Domain"("publicationId", "hostname");
+
+-- CreateIndex (sólo un dominio verificado por hostname; varias publicaciones pueden reclamarlo sin verificar)
+CREATE UNIQUE INDEX "Domain_verified_hostname_key" ON "Domain"("hostname") WHERE "verifiedAt" IS NOT NULL;
@@ -5,8 +5,15 @@ import { json } from 'express';
 import { authRouter } from './modules/auth/auth.router';
 import { userRouter } from './modules/users/user.router';
 import { passwordRecoveryRouter } from './modules/auth/password-recovery.router';
+import { twoFactorRouter } from './modules/auth/two-factor.router';
 import { projectRouter } from './modules/projects/project.router';
 import { pagesController } from './modules/pages';
+import { invitationRouter } from './modules/invitations/invitation.router';
+import { workspaceRouter } from './modules/workspaces/workspace.router';
+import { templateRouter } from './modules/templates/template.router';
+import { siteRouter } from './modules/sites/site.router';
+import { startTrashPurgeJob } from './modules/projects/trash.service';
+import { customDomainMiddleware } from './middlewares/custom-domain';
 import { setupSwagger } from './swagger';
 import { setupCollabSocket } from "./socket/collab-socket";
 import http from "http";
@@ -16,16 +23,23 @@ dotenv.config();
 const app = express();
 const server = http.createServer(app);
 
-app.use(cors());
+app.use(cors({ exposedHeaders: ['X-Next-Cursor', 'Retry-After'] }));
+// Dominios propios verificados sirven su sitio publicado; el resto de hosts sigue a la API
+app.use(customDomainMiddleware);
 app.use(json());
 app.use(express.json({ limit: '50mb' })); 
 app.use(express.urlencoded({ extended: true, limit: '50mb' }));
 
 app.use('/auth', authRouter);
 app.use('/auth', passwordRecoveryRouter);
+app.use('/auth', twoFactorRouter);
 app.use('/users', userRouter);
 app.use('/projects', projectRouter);
 app.use('/pages', pagesController);
+app.use('/invitations', invitationRouter);
+app.use('/workspaces', workspaceRouter);
+app.use('/templates', templateRouter);
+app.use('/sites', siteRouter);
 
 app.get('/', (_, res) => {
   res.json({ status: 'API OK' });
@@ -41,6 +55,7 @@ const port = process.env.PORT || 4000;
 if (process.env.NODE_ENV !== 'test') {
   // --- Levanta API + Socket.io en el mismo proceso ---
   setupCollabSocket(server, app);
+  startTrashPurgeJob();
   server.listen(port, () => {
     console.log(`API + Collab WebSocket server running on port ${port}`);
   });
@@ -0,0 +1,48 @@
+import request from 'supertest';
+import express from 'express';
+import { customDomainMiddleware } from '../custom-domain';
+import { findPublicationForHost } from '../../modules/sites/domain.service';
+import { findPublishedFile } from '../../modules/projects/publication.service';
+
+jest.mock('../../modules/sites/domain.service', () => ({ findPublicationForHost: jest.fn() }));
+jest.mock('../../modules/projects/publication.service', () => ({ findPublishedFile: jest.fn() }));
+
+const app = express();
+app.use(customDomainMiddleware);
+app.get('/health', (_req, res) => res.json({ status: 'UP' }));
+
+afterEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('customDomainMiddleware', () => {
+  it('deja pasar los hosts de la API sin consultar dominios', async () => {
+    const res = await request(app).get('/health').set('Host', 'localhost:4000');
+    expect(res.body).toEqual({ status: 'UP' });
+    expect(findPublicationForHost).not.toHaveBeenCalled();
+  });
+
+  it('deja pasar los hosts desconocidos o sin verificar', async () => {
+    (findPublicationForHost as jest.Mock).mockResolvedValue(null);
+    const res = await request(app).get('/health').set('Host', 'unknown.example.com');
+    expect(res.body).toEqual({ status: 'UP' });
+    expect(findPublicationForHost).toHaveBeenCalledWith('unknown.example.com');
+  });
+
+  it('sirve el sitio publicado en un dominio verificado', async () => {
+    (findPublicationForHost as jest.Mock).mockResolvedValue('pub-id');
+    (findPublishedFile as jest.Mock).mockResolvedValue({
+      path: 'contacto.html',
+      contentType: 'text/html; charset=utf-8',
+      content: Buffer.from('<h1>Contacto</h1>'),
+      etag: 'e1',
+    });
+    const res = await request(app).get('/contacto').set('Host', 'WWW.Example.com');
+    expect(res.status).toBe(200);
+    expect(res.text).toBe('<h1>Contacto</h1>');
+    expect(findPublishedFile).toHaveBeenCalledWith({ id: 'pub-id' }, '/contacto');
+
+    const post = await request(app).post('/contacto').set('Host', 'www.example.com');
+    expect(post.status).toBe(405);
+  });
+});
@@ -0,0 +1,37 @@
+import net from 'net';
+import { Request, Response, NextFunction } from 'express';
+import { findPublicationForHost } from '../modules/sites/domain.service';
+import { sendPublishedFile } from '../modules/sites/site.router';
+
+// Hosts propios de la API (API_HOSTS, separados por comas); nunca se buscan como dominios de clientes
+function apiHosts(): Set<string> {
+  const extra = (process.env.API_HOSTS || '').split(',').map(host => host.trim().toLowerCase()).filter(Boolean);
+  return new Set(['localhost', ...extra]);
+}
+
+/**
+ * Enruta por el header Host: las peticiones a un dominio propio verificado se sirven desde el release en línea
+ * de su publicación. Los hosts de la API, las IPs y los dominios desconocidos o sin verificar siguen a la API.
+ */
+export async function customDomainMiddleware(req: Request, res: Response, next: NextFunction) {
+  const hostname = req.hostname?.toLowerCase();
+  if (!hostname || net.isIP(hostname) || apiHosts().has(hostname)) return next();
+  let publicationId: string | null;
+  try {
+    publicationId = await findPublicationForHost(hostname);
+  } catch (error) {
+    console.error(`[Custom Domain] Error resolving host ${hostname}:`, error);
+    return next();
+  }
+  if (!publicationId) return next();
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    return res.status(405).set('Allow', 'GET, HEAD').type('text/plain').send('Method not allowed');
+  }
+  let filePath: string;
+  try {
+    filePath = decodeURIComponent(req.path);
+  } catch {
+    return res.status(400).type('text/plain').send('Bad request');
+  }
+  await sendPublishedFile(req, res, { id: publicationId }, filePath);
+}
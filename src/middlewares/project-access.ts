@@ -0,0 +1,27 @@
+import { Request, Response, NextFunction } from 'express';
+import { getProjectAccess, hasCapability, ProjectCapability } from '../utils/permission';
+
+/**
+ * Middleware que exige una capacidad sobre el proyecto indicado en la ruta.
+ * Debe montarse después de authMiddleware. El token de enlace se lee de `?token=`.
+ * @param capability Capacidad requerida según el rol del usuario (ver ROLE_CAPABILITIES)
+ * @param param Nombre del parámetro de ruta con el ID del proyecto
+ */
+export function projectAccessMiddleware(capability: ProjectCapability, param = 'id') {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const projectId = req.params[param];
+    const linkToken = typeof req.query.token === 'string' ? req.query.token : undefined;
+    try {
+      const access = await getProjectAccess(req.user?.id, projectId, { linkToken, twoFactor: req.user?.twoFactor });
+      if (!access) return res.status(404).json({ error: 'Not found' });
+      if (access.twoFactorRequired) {
+        return res.status(403).json({ error: 'Two-factor authentication required for this project', code: 'TWO_FACTOR_REQUIRED' });
+      }
+      if (!hasCapability(access.role, capability)) return res.status(403).json({ error: 'Forbidden' });
+      next();
+    } catch (error) {
+      console.error(`[Project Access] Error checking access to project ${projectId}:`, error);
+      return res.status(500).json({ error: 'Error checking project access' });
+    }
+  };
+}
@@ -0,0 +1,25 @@
+import { Request, Response, NextFunction } from 'express';
+import { hasScope, TokenScope } from '../modules/auth/access-token.service';
+
+/**
+ * Exige que un token personal tenga el scope indicado. Las sesiones interactivas (JWT) no se restringen.
+ * Debe montarse después de authMiddleware.
+ */
+export function requireScope(scope: TokenScope) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!hasScope(req.user?.scopes, scope)) {
+      return res.status(403).json({ error: `Token scope '${scope}' required` });
+    }
+    next();
+  };
+}
+
+/**
+ * Rechaza los tokens personales en endpoints de gestión de la cuenta (tokens, sesiones, 2FA).
+ */
+export function requireSession(req: Request, res: Response, next: NextFunction) {
+  if (req.user?.accessTokenId) {
+    return res.status(403).json({ error: 'Personal access tokens cannot be used for this endpoint' });
+  }
+  next();
+}
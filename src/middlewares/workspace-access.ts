@@ -0,0 +1,25 @@
+import { Request, Response, NextFunction } from 'express';
+import type { WorkspaceRole } from '@prisma/client';
+import { getWorkspaceAccess, hasWorkspaceRole } from '../utils/permission';
+
+/**
+ * Middleware que exige un rol mínimo en el workspace indicado en la ruta.
+ * Debe montarse después de authMiddleware.
+ * @param minRole Rol mínimo requerido (member < admin < owner)
+ * @param param Nombre del parámetro de ruta con el ID del workspace
+ */
+export function workspaceAccessMiddleware(minRole: WorkspaceRole, param = 'id') {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) return res.status(401).json({ error: 'Unauthorized' });
+    const workspaceId = req.params[param];
+    try {
+      const access = await getWorkspaceAccess(req.user.id, workspaceId);
+      if (!access) return res.status(404).json({ error: 'Not found' });
+      if (!hasWorkspaceRole(access.role, minRole)) return res.status(403).json({ error: 'Forbidden' });
+      next();
+    } catch (error) {
+      console.error(`[Workspace Access] Error checking access to workspace ${workspaceId}:`, error);
+      return res.status(500).json({ error: 'Error checking workspace access' });
+    }
+  };
+}
@@ -0,0 +1,124 @@
+import { PrismaClient } from '@prisma/client';
+import { setAssetStorage } from '../../../utils/asset-storage';
+import { assetSignature, assetUrl, checkAssetUpload, deleteAsset, readLibraryAsset, storeAsset, verifyAssetSignature } from '../asset.service';
+
+// Mock de Prisma Client: $transaction ejecuta el callback con el mismo cliente
+const prisma = new PrismaClient();
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient: any = {
+    asset: { findUnique: jest.fn(), findFirst: jest.fn(), create: jest.fn(), delete: jest.fn() },
+  };
+  mockPrismaClient.$executeRaw = jest.fn();
+  mockPrismaClient.$transaction = jest.fn((fn: (tx: any) => Promise<unknown>) => fn(mockPrismaClient));
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+const storage = { put: jest.fn(), get: jest.fn(), delete: jest.fn() };
+setAssetStorage(storage);
+
+// Cabecera PNG mínima de 3x2 píxeles
+const png = Buffer.alloc(24);
+png.writeUInt32BE(0x89504e47, 0);
+png.write('IHDR', 12, 'ascii');
+png.writeUInt32BE(3, 16);
+png.writeUInt32BE(2, 20);
+
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret';
+
+const PROJECT_ID = '11111111-1111-1111-1111-111111111111';
+const ASSET_ID = '22222222-2222-2222-2222-222222222222';
+
+afterEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('checkAssetUpload', () => {
+  it('lee las dimensiones y rechaza tipos no permitidos o contenido que no corresponde', () => {
+    expect(checkAssetUpload({ filename: 'a.png', contentType: 'image/png', data: png })).toEqual({ status: 'ok', width: 3, height: 2 });
+    expect(checkAssetUpload({ filename: 'a.pdf', contentType: 'application/pdf', data: Buffer.from('%PDF') })).toEqual({
+      status: 'ok',
+      width: null,
+      height: null,
+    });
+    expect(checkAssetUpload({ filename: 'a.html', contentType: 'text/html', data: Buffer.from('<p>') }).status).toBe('type_not_allowed');
+    expect(checkAssetUpload({ filename: 'a.png', contentType: 'image/png', data: Buffer.from('GIF89a') }).status).toBe('invalid_content');
+  });
+});
+
+describe('storeAsset', () => {
+  it('devuelve el asset existente si el proyecto ya tiene el mismo contenido', async () => {
+    (prisma.asset.findUnique as jest.Mock).mockResolvedValue({ id: 'existing' });
+
+    await expect(storeAsset(PROJECT_ID, 'user-id', { filename: 'a.png', contentType: 'image/png', data: png })).resolves.toEqual({
+      asset: { id: 'existing' },
+      created: false,
+    });
+    expect(storage.put).not.toHaveBeenCalled();
+  });
+
+  it('reutiliza el contenido almacenado por otro proyecto', async () => {
+    (prisma.asset.findUnique as jest.Mock).mockResolvedValue(null);
+    (prisma.asset.findFirst as jest.Mock).mockResolvedValue({ id: 'other-project-asset' });
+    (prisma.asset.create as jest.Mock).mockImplementation(({ data }) => Promise.resolve({ id: 'new', ...data }));
+
+    const { asset, created } = await storeAsset(PROJECT_ID, 'user-id', { filename: 'a.png', contentType: 'image/png', data: png }, { width: 3, height: 2 });
+
+    expect(created).toBe(true);
+    expect(asset).toMatchObject({ name: 'a.png', size: 24, width: 3, height: 2, storageKey: `${asset.hash.slice(0, 2)}/${asset.hash}` });
+    expect(storage.put).not.toHaveBeenCalled();
+  });
+});
+
+describe('deleteAsset', () => {
+  it('borra el contenido sólo cuando ningún otro asset lo usa', async () => {
+    (prisma.asset.findFirst as jest.Mock).mockResolvedValueOnce({ id: 'still-used' }).mockResolvedValueOnce(null);
+
+    await deleteAsset({ id: 'a1', hash: 'abcdef' });
+    expect(storage.delete).not.toHaveBeenCalled();
+
+    await deleteAsset({ id: 'a2', hash: 'abcdef' });
+    expect(storage.delete).toHaveBeenCalledWith('ab/abcdef');
+  });
+
+  it('comprueba y borra el contenido con el hash bloqueado', async () => {
+    (prisma.asset.findFirst as jest.Mock).mockResolvedValue(null);
+
+    await deleteAsset({ id: 'a1', hash: 'abcdef' });
+
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+    expect(prisma.$executeRaw).toHaveBeenCalledWith(expect.arrayContaining([expect.stringContaining('pg_advisory_xact_lock')]), 'abcdef');
+    expect((prisma.$executeRaw as jest.Mock).mock.invocationCallOrder[0])
+      .toBeLessThan((prisma.asset.findFirst as jest.Mock).mock.invocationCallOrder[0]);
+  });
+});
+
+describe('readLibraryAsset', () => {
+  it('sólo resuelve URLs de la biblioteca del mismo proyecto', async () => {
+    (prisma.asset.findFirst as jest.Mock).mockResolvedValue({ id: ASSET_ID, storageKey: 'ab/abc', mimeType: 'image/png' });
+    storage.get.mockResolvedValue(png);
+
+    const url = `https://api.example.com/projects/${PROJECT_ID}/assets/${ASSET_ID}/content`;
+    await expect(readLibraryAsset(PROJECT_ID, url)).resolves.toEqual({ data: png, contentType: 'image/png' });
+    await expect(readLibraryAsset('33333333-3333-3333-3333-333333333333', url)).resolves.toBeNull();
+    await expect(readLibraryAsset(PROJECT_ID, assetUrl({ id: ASSET_ID, projectId: PROJECT_ID }))).resolves.toEqual({ data: png, contentType: 'image/png' });
+  });
+
+  it('no sirve assets de proyectos en la papelera', async () => {
+    (prisma.asset.findFirst as jest.Mock).mockResolvedValue(null);
+
+    await expect(readLibraryAsset(PROJECT_ID, assetUrl({ id: ASSET_ID, projectId: PROJECT_ID }))).resolves.toBeNull();
+    expect(prisma.asset.findFirst).toHaveBeenCalledWith({ where: { id: ASSET_ID, projectId: PROJECT_ID, project: { deletedAt: null } } });
+  });
+});
+
+describe('assetUrl', () => {
+  it('firma la URL de contenido para el proyecto y el asset', () => {
+    const asset = { id: ASSET_ID, projectId: PROJECT_ID };
+    const signature = assetSignature(asset);
+
+    expect(assetUrl(asset)).toBe(`http://localhost:4000/projects/${PROJECT_ID}/assets/${ASSET_ID}/content/${signature}`);
+    expect(verifyAssetSignature(asset, signature)).toBe(true);
+    expect(verifyAssetSignature({ id: ASSET_ID, projectId: '33333333-3333-3333-3333-333333333333' }, signature)).toBe(false);
+    expect(verifyAssetSignature(asset, 'abc')).toBe(false);
+  });
+});
@@ -0,0 +1,125 @@
+import { PrismaClient } from '@prisma/client';
+import { setAssetStorage } from '../../../utils/asset-storage';
+import { assetSignature } from '../asset.service';
+import { discardInlineAssets, extractInlineAssets } from '../inline-assets';
+
+// Mock de Prisma Client: $transaction ejecuta el callback con el mismo cliente
+const prisma = new PrismaClient();
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient: any = {
+    asset: { findUnique: jest.fn(), findFirst: jest.fn(), create: jest.fn(), delete: jest.fn(), aggregate: jest.fn() },
+    project: { findUnique: jest.fn() },
+    user: { findUnique: jest.fn() },
+  };
+  mockPrismaClient.$executeRaw = jest.fn();
+  mockPrismaClient.$transaction = jest.fn((fn: (tx: any) => Promise<unknown>) => fn(mockPrismaClient));
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+const storage = { put: jest.fn(), get: jest.fn(), delete: jest.fn() };
+setAssetStorage(storage);
+
+// Cabecera PNG mínima de 3x2 píxeles
+const png = Buffer.alloc(24);
+png.writeUInt32BE(0x89504e47, 0);
+png.write('IHDR', 12, 'ascii');
+png.writeUInt32BE(3, 16);
+png.writeUInt32BE(2, 20);
+const PNG_URI = `data:image/png;base64,${png.toString('base64')}`;
+
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret';
+
+const PROJECT_ID = '11111111-1111-1111-1111-111111111111';
+const ASSET_ID = '22222222-2222-2222-2222-222222222222';
+const SIGNATURE = assetSignature({ id: ASSET_ID, projectId: PROJECT_ID });
+const ASSET_URL = `http://localhost:4000/projects/${PROJECT_ID}/assets/${ASSET_ID}/content/${SIGNATURE}`;
+
+beforeEach(() => {
+  (prisma.asset.findUnique as jest.Mock).mockResolvedValue(null);
+  (prisma.asset.findFirst as jest.Mock).mockResolvedValue(null);
+  (prisma.asset.create as jest.Mock).mockImplementation(({ data }) => Promise.resolve({ id: ASSET_ID, ...data }));
+  (prisma.asset.aggregate as jest.Mock).mockResolvedValue({ _sum: { size: 1000 } });
+  (prisma.project.findUnique as jest.Mock).mockResolvedValue({ ownerId: 'owner-id', workspaceId: null });
+  (prisma.user.findUnique as jest.Mock).mockResolvedValue({ plan: 'free' });
+});
+
+afterEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('extractInlineAssets', () => {
+  it('guarda una vez cada data URI y reescribe HTML, CSS y JSON anidado', async () => {
+    const { fields, extracted } = await extractInlineAssets(PROJECT_ID, 'user-id', {
+      html: `<img src="${PNG_URI}"><img src="${PNG_URI}">`,
+      css: `.hero{background:url(${PNG_URI})}`,
+      components: [{ type: 'image', attributes: { src: PNG_URI }, width: 3 }],
+    });
+
+    expect(extracted).toBe(1);
+    expect(prisma.asset.create).toHaveBeenCalledTimes(1);
+    expect(prisma.asset.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ projectId: PROJECT_ID, mimeType: 'image/png', width: 3, height: 2, uploadedById: 'user-id' }),
+    });
+    expect(storage.put).toHaveBeenCalledTimes(1);
+    expect(fields).toEqual({
+      html: `<img src="${ASSET_URL}"><img src="${ASSET_URL}">`,
+      css: `.hero{background:url(${ASSET_URL})}`,
+      components: [{ type: 'image', attributes: { src: ASSET_URL }, width: 3 }],
+    });
+  });
+
+  it('deja en línea los tipos no admitidos y el contenido inválido', async () => {
+    const html = `<a href="data:text/html;base64,PHA+"></a><img src="data:image/png;base64,R0lGODlh">`;
+
+    const { fields, extracted } = await extractInlineAssets(PROJECT_ID, null, { html });
+
+    expect(extracted).toBe(0);
+    expect(fields.html).toBe(html);
+    expect(prisma.asset.create).not.toHaveBeenCalled();
+  });
+
+  it('deja en línea el contenido si no cabe en el almacenamiento del plan', async () => {
+    (prisma.asset.aggregate as jest.Mock).mockResolvedValue({ _sum: { size: 500 * 1024 * 1024 } });
+    const html = `<img src="${PNG_URI}">`;
+
+    await expect(extractInlineAssets(PROJECT_ID, null, { html })).resolves.toEqual({ fields: { html }, extracted: 0, signed: 0, created: [] });
+    expect(storage.put).not.toHaveBeenCalled();
+  });
+
+  it('no pierde el contenido si falla el almacenamiento', async () => {
+    storage.put.mockRejectedValueOnce(new Error('disk full'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const html = `<img src="${PNG_URI}">`;
+
+    await expect(extractInlineAssets(PROJECT_ID, null, { html })).resolves.toEqual({ fields: { html }, extracted: 0, signed: 0, created: [] });
+  });
+
+  it('firma las URLs de la biblioteca del proyecto guardadas sin firma', async () => {
+    const unsigned = `http://localhost:4000/projects/${PROJECT_ID}/assets/${ASSET_ID}/content`;
+    const other = `/projects/33333333-3333-3333-3333-333333333333/assets/${ASSET_ID}/content`;
+
+    const { fields, signed } = await extractInlineAssets(PROJECT_ID, null, {
+      html: `<img src="${unsigned}"><img src="${ASSET_URL}"><img src="${other}">`,
+      components: [{ attributes: { src: unsigned } }],
+    });
+
+    expect(signed).toBe(2);
+    expect(fields).toEqual({
+      html: `<img src="${ASSET_URL}"><img src="${ASSET_URL}"><img src="${other}">`,
+      components: [{ attributes: { src: ASSET_URL } }],
+    });
+  });
+});
+
+describe('discardInlineAssets', () => {
+  it('borra los assets creados y su contenido si ningún otro asset lo usa', async () => {
+    const html = `<img src="${PNG_URI}">`;
+    const { created } = await extractInlineAssets(PROJECT_ID, 'user-id', { html });
+    expect(created).toHaveLength(1);
+
+    await discardInlineAssets(created);
+
+    expect(prisma.asset.delete).toHaveBeenCalledWith({ where: { id: ASSET_ID } });
+    expect(storage.delete).toHaveBeenCalledWith(created[0].storageKey);
+  });
+});
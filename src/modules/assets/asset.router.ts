@@ -0,0 +1,348 @@
+/// <reference path="../../types/express/index.d.ts" />
+import express, { Router, Request, Response, NextFunction } from 'express';
+import { PrismaClient } from '@prisma/client';
+import type { Asset } from '@prisma/client';
+import { z } from 'zod';
+import { authMiddleware } from '../auth/auth.middleware';
+import { projectAccessMiddleware } from '../../middlewares/project-access';
+import { requireScope } from '../../middlewares/token-scope';
+import { multipartBoundary, parseMultipart } from '../../utils/multipart';
+import {
+  assetMaxBytes,
+  assetNameSchema,
+  assetView,
+  checkAssetUpload,
+  deleteAsset,
+  MAX_FILES_PER_UPLOAD,
+  readProjectAsset,
+  storeAsset,
+  verifyAssetSignature,
+} from './asset.service';
+import { checkStorageQuota, quotaError } from '../quotas/quota.service';
+
+const prisma = new PrismaClient();
+const router = Router({ mergeParams: true });
+
+const assetUpdateSchema = z.object({ name: assetNameSchema });
+
+// El contenido de un asset nunca cambia (renombrar sólo toca los metadatos): caché indefinida y privada
+const IMMUTABLE_CACHE = 'private, max-age=31536000, immutable';
+
+// Helper: assert user is present (type guard)
+function requireUser(req: Request): asserts req is Request & { user: { id: string } } {
+  if (!req.user) throw new Error('User not found in request. Auth middleware missing?');
+}
+
+// Lee el cuerpo multipart en memoria con el límite de la subida (se calcula por petición para respetar ASSET_MAX_BYTES)
+function rawUploadBody(req: Request, res: Response, next: NextFunction) {
+  express.raw({ type: 'multipart/form-data', limit: assetMaxBytes() * MAX_FILES_PER_UPLOAD })(req, res, error => {
+    if (!error) return next();
+    if (error.type === 'entity.too.large') return res.status(413).json({ error: 'Upload is too large', code: 'ASSET_TOO_LARGE' });
+    return res.status(400).json({ error: 'Invalid upload body' });
+  });
+}
+
+// Responde con el contenido del asset y sus cabeceras de caché y seguridad
+function sendAssetContent(res: Response, { asset, data }: { asset: Asset; data: Buffer }) {
+  res.set({
+    'Content-Type': asset.mimeType,
+    'Cache-Control': IMMUTABLE_CACHE,
+    ETag: `"${asset.hash}"`,
+    'X-Content-Type-Options': 'nosniff',
+    'Content-Disposition': `inline; filename*=UTF-8''${encodeURIComponent(asset.name)}`,
+    // Un SVG abierto directamente no puede ejecutar scripts en el origen de la API
+    ...(asset.mimeType === 'image/svg+xml' ? { 'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'; sandbox" } : {}),
+  });
+  // res.send responde 304 si el ETag coincide con If-None-Match
+  res.send(data);
+}
+
+/**
+ * @openapi
+ * /projects/{id}/assets:
+ *   get:
+ *     summary: Lista la biblioteca de assets del proyecto
+ *     tags:
+ *       - Assets
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Assets ({ id, name, mimeType, size, width, height, hash, url }), los más recientes primero
+ */
+router.get('/', authMiddleware, requireScope('projects:read'), projectAccessMiddleware('read'), async (req: Request, res: Response) => {
+  const assets = await prisma.asset.findMany({ where: { projectId: req.params.id }, orderBy: { createdAt: 'desc' } });
+  res.json(assets.map(assetView));
+});
+
+/**
+ * @openapi
+ * /projects/{id}/assets:
+ *   post:
+ *     summary: Sube uno o varios archivos a la biblioteca (multipart/form-data); el contenido repetido se deduplica
+ *     tags:
+ *       - Assets
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               files:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *     responses:
+ *       201:
+ *         description: Assets subidos (los que ya existían en el proyecto se devuelven tal cual)
+ *       400:
+ *         description: Cuerpo inválido, sin archivos o contenido que no corresponde al tipo (ASSET_INVALID_CONTENT)
+ *       402:
+ *         description: Se superaría el almacenamiento del plan (QUOTA_STORAGE_EXCEEDED)
+ *       413:
+ *         description: Archivo demasiado grande (ASSET_TOO_LARGE)
+ *       415:
+ *         description: Tipo de archivo no permitido (ASSET_TYPE_NOT_ALLOWED)
+ */
+router.post('/', authMiddleware, requireScope('projects:write'), projectAccessMiddleware('write'), rawUploadBody, async (req: Request, res: Response) => {
+  requireUser(req);
+  const boundary = multipartBoundary(req.headers['content-type']);
+  if (!boundary || !Buffer.isBuffer(req.body)) return res.status(400).json({ error: 'Expected multipart/form-data body' });
+  const body = parseMultipart(req.body, boundary);
+  if (!body) return res.status(400).json({ error: 'Malformed multipart body' });
+  const files = body.files.filter(file => file.data.length > 0);
+  if (files.length === 0) return res.status(400).json({ error: 'No files uploaded' });
+  if (files.length > MAX_FILES_PER_UPLOAD) return res.status(400).json({ error: `At most ${MAX_FILES_PER_UPLOAD} files per upload` });
+
+  // Se valida todo antes de guardar nada
+  const checks = files.map(file => ({ file, check: checkAssetUpload(file) }));
+  for (const { file, check } of checks) {
+    if (check.status === 'too_large') {
+      return res.status(413).json({ error: `File '${file.filename}' exceeds ${assetMaxBytes()} bytes`, code: 'ASSET_TOO_LARGE' });
+    }
+    if (check.status === 'type_not_allowed') {
+      return res.status(415).json({ error: `File type '${file.contentType}' is not allowed`, code: 'ASSET_TYPE_NOT_ALLOWED' });
+    }
+    if (check.status === 'invalid_content') {
+      return res.status(400).json({ error: `File '${file.filename}' is not a valid ${file.contentType}`, code: 'ASSET_INVALID_CONTENT' });
+    }
+  }
+
+  const quota = await checkStorageQuota(req.params.id, files.reduce((total, file) => total + file.data.length, 0));
+  if (quota.status === 'exceeded') {
+    const { status, body } = quotaError(quota);
+    return res.status(status).json(body);
+  }
+
+  const assets = [];
+  for (const { file, check } of checks) {
+    if (check.status !== 'ok') continue;
+    const { asset } = await storeAsset(req.params.id, req.user.id, file, check);
+    assets.push(assetView(asset));
+  }
+  res.status(201).json(assets);
+});
+
+/**
+ * @openapi
+ * /projects/{id}/assets/{assetId}:
+ *   get:
+ *     summary: Metadatos de un asset
+ *     tags:
+ *       - Assets
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: assetId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Asset
+ *       404:
+ *         description: Asset no encontrado
+ */
+router.get('/:assetId', authMiddleware, requireScope('projects:read'), projectAccessMiddleware('read'), async (req: Request, res: Response) => {
+  const asset = await prisma.asset.findFirst({ where: { id: req.params.assetId, projectId: req.params.id } });
+  if (!asset) return res.status(404).json({ error: 'Asset not found' });
+  res.json(assetView(asset));
+});
+
+/**
+ * @openapi
+ * /projects/{id}/assets/{assetId}/content:
+ *   get:
+ *     summary: Contenido del asset (caché inmutable y ETag)
+ *     tags:
+ *       - Assets
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: assetId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Contenido binario
+ *       304:
+ *         description: No modificado (If-None-Match)
+ *       404:
+ *         description: Asset no encontrado
+ */
+router.get('/:assetId/content', authMiddleware, requireScope('projects:read'), projectAccessMiddleware('read'), async (req: Request, res: Response) => {
+  const found = await readProjectAsset(req.params.id, req.params.assetId);
+  if (!found) return res.status(404).json({ error: 'Asset not found' });
+  sendAssetContent(res, found);
+});
+
+/**
+ * @openapi
+ * /projects/{id}/assets/{assetId}/content/{signature}:
+ *   get:
+ *     summary: Contenido del asset por URL firmada, sin autenticación (la `url` de los assets; se usa en <img src> y CSS)
+ *     tags:
+ *       - Assets
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: assetId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: signature
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Contenido binario
+ *       304:
+ *         description: No modificado (If-None-Match)
+ *       404:
+ *         description: Asset no encontrado, firma inválida o proyecto en la papelera
+ */
+router.get('/:assetId/content/:signature', async (req: Request, res: Response) => {
+  const { id: projectId, assetId, signature } = req.params;
+  // Firma inválida y asset inexistente responden igual
+  if (!verifyAssetSignature({ id: assetId, projectId }, signature)) return res.status(404).json({ error: 'Asset not found' });
+  const found = await readProjectAsset(projectId, assetId);
+  if (!found) return res.status(404).json({ error: 'Asset not found' });
+  sendAssetContent(res, found);
+});
+
+/**
+ * @openapi
+ * /projects/{id}/assets/{assetId}:
+ *   patch:
+ *     summary: Renombra un asset (el contenido y la URL no cambian)
+ *     tags:
+ *       - Assets
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: assetId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Asset renombrado
+ *       404:
+ *         description: Asset no encontrado
+ */
+router.patch('/:assetId', authMiddleware, requireScope('projects:write'), projectAccessMiddleware('write'), async (req: Request, res: Response) => {
+  const parse = assetUpdateSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.errors });
+  const { count } = await prisma.asset.updateMany({
+    where: { id: req.params.assetId, projectId: req.params.id },
+    data: { name: parse.data.name },
+  });
+  if (count === 0) return res.status(404).json({ error: 'Asset not found' });
+  const asset = await prisma.asset.findUniqueOrThrow({ where: { id: req.params.assetId } });
+  res.json(assetView(asset));
+});
+
+/**
+ * @openapi
+ * /projects/{id}/assets/{assetId}:
+ *   delete:
+ *     summary: Elimina un asset de la biblioteca (las páginas que lo usen dejarán de mostrarlo)
+ *     tags:
+ *       - Assets
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: assetId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Asset eliminado
+ *       404:
+ *         description: Asset no encontrado
+ */
+router.delete('/:assetId', authMiddleware, requireScope('projects:write'), projectAccessMiddleware('write'), async (req: Request, res: Response) => {
+  const asset = await prisma.asset.findFirst({ where: { id: req.params.assetId, projectId: req.params.id } });
+  if (!asset) return res.status(404).json({ error: 'Asset not found' });
+  await deleteAsset(asset);
+  res.status(204).send();
+});
+
+export const projectAssetsRouter = router;
@@ -0,0 +1,238 @@
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import type { Asset, Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { getAssetStorage } from '../../utils/asset-storage';
+import { imageSize } from '../../utils/image-size';
+
+const prisma = new PrismaClient();
+
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+export const MAX_FILES_PER_UPLOAD = 10;
+
+// Tipos aceptados en la biblioteca: imágenes, fuentes, vídeo y PDF
+export const ASSET_MIME_TYPES = new Set([
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'image/avif',
+  'image/svg+xml',
+  'image/x-icon',
+  'image/vnd.microsoft.icon',
+  'font/woff',
+  'font/woff2',
+  'font/ttf',
+  'font/otf',
+  'video/mp4',
+  'video/webm',
+  'application/pdf',
+]);
+
+// Formatos cuyas dimensiones se leen de la cabecera; si no se pueden leer, el contenido no corresponde al tipo declarado
+const MEASURED_TYPES = new Set(['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/svg+xml']);
+
+export const assetNameSchema = z.string().trim().min(1).max(255);
+
+// Tamaño máximo por archivo (ASSET_MAX_BYTES, por defecto 10 MB)
+export function assetMaxBytes(): number {
+  return Number(process.env.ASSET_MAX_BYTES) || DEFAULT_MAX_BYTES;
+}
+
+// Secreto de las URLs firmadas (ASSET_URL_SECRET; por defecto JWT_SECRET)
+const assetUrlSecret = () => process.env.ASSET_URL_SECRET || process.env.JWT_SECRET!;
+
+/**
+ * Firma de la URL de contenido de un asset. <img src> y url() en el canvas del editor o en una vista por enlace no
+ * pueden enviar el token Bearer: la URL firmada sirve el contenido sin autenticación a quien la conoce.
+ */
+export function assetSignature(asset: Pick<Asset, 'id' | 'projectId'>): string {
+  return crypto.createHmac('sha256', assetUrlSecret()).update(`${asset.projectId}/${asset.id}`).digest('hex').slice(0, 32);
+}
+
+export function verifyAssetSignature(asset: Pick<Asset, 'id' | 'projectId'>, signature: string): boolean {
+  const expected = Buffer.from(assetSignature(asset));
+  const received = Buffer.from(signature);
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+}
+
+// URL absoluta y firmada del contenido (API_URL es la URL pública de la API)
+export function assetUrl(asset: Pick<Asset, 'id' | 'projectId'>): string {
+  return `${process.env.API_URL || 'http://localhost:4000'}/projects/${asset.projectId}/assets/${asset.id}/content/${assetSignature(asset)}`;
+}
+
+// URLs de contenido de la biblioteca dentro de HTML/CSS/JSON (absolutas o relativas a la API, con o sin firma)
+export const ASSET_URL_PATTERN =
+  /(?:https?:\/\/[^\s"'()<>]*?)?\/projects\/([0-9a-f-]{36})\/assets\/([0-9a-f-]{36})\/content(?:\/([0-9a-f]{32}))?/gi;
+
+/**
+ * Reescribe en un texto o JSON las URLs de la biblioteca de `sourceProjectId` a las de sus copias (ID del asset de
+ * origen → asset copiado en otro proyecto). El resto de URLs no cambian.
+ */
+export function rewriteAssetUrls<T>(value: T, sourceProjectId: string, copies: Map<string, Pick<Asset, 'id' | 'projectId'>>): T {
+  if (typeof value === 'string') {
+    return value.replace(ASSET_URL_PATTERN, (url, projectId: string, assetId: string) => {
+      const copy = projectId === sourceProjectId ? copies.get(assetId) : undefined;
+      return copy ? assetUrl(copy) : url;
+    }) as T;
+  }
+  if (Array.isArray(value)) return value.map(item => rewriteAssetUrls(item, sourceProjectId, copies)) as T;
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, rewriteAssetUrls(item, sourceProjectId, copies)])) as T;
+  }
+  return value;
+}
+
+export function assetView(asset: Asset) {
+  return {
+    id: asset.id,
+    name: asset.name,
+    mimeType: asset.mimeType,
+    size: asset.size,
+    width: asset.width,
+    height: asset.height,
+    hash: asset.hash,
+    url: assetUrl(asset),
+    createdAt: asset.createdAt,
+    updatedAt: asset.updatedAt,
+  };
+}
+
+export interface AssetUpload {
+  filename: string;
+  contentType: string;
+  data: Buffer;
+}
+
+export type AssetCheck =
+  | { status: 'ok'; width: number | null; height: number | null }
+  | { status: 'too_large' }
+  | { status: 'type_not_allowed' }
+  | { status: 'invalid_content' };
+
+/**
+ * Valida un archivo antes de guardarlo: tamaño, tipo permitido y, en imágenes, que la cabecera corresponda al tipo
+ */
+export function checkAssetUpload(file: AssetUpload): AssetCheck {
+  if (file.data.length > assetMaxBytes()) return { status: 'too_large' };
+  if (!ASSET_MIME_TYPES.has(file.contentType)) return { status: 'type_not_allowed' };
+  if (!MEASURED_TYPES.has(file.contentType)) return { status: 'ok', width: null, height: null };
+  const size = imageSize(file.data, file.contentType);
+  return size ? { status: 'ok', ...size } : { status: 'invalid_content' };
+}
+
+const storageKeyFor = (hash: string) => `${hash.slice(0, 2)}/${hash}`;
+
+export const hashAssetContent = (data: Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+
+// Las transacciones que escriben contenido en el almacenamiento esperan a que termine la subida
+export const CONTENT_TRANSACTION_TIMEOUT_MS = 60_000;
+
+/**
+ * Bloquea hasta el final de la transacción los contenidos con esos hashes (advisory lock de Postgres). Guardar un
+ * contenido y crear el asset que lo usa no se intercalan así con la comprobación y el borrado de releaseAssetContent.
+ */
+export async function lockAssetContent(tx: Prisma.TransactionClient, hashes: string[]): Promise<void> {
+  // Siempre en el mismo orden para no provocar deadlocks entre transacciones con varios hashes
+  for (const hash of [...new Set(hashes)].sort()) {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${hash}))`;
+  }
+}
+
+/**
+ * Guarda un contenido en el almacenamiento si ningún asset lo usa todavía (se comparte por hash entre proyectos).
+ * Debe llamarse en la transacción que crea el asset, con el contenido bloqueado por lockAssetContent.
+ */
+export async function putAssetContent(
+  tx: Prisma.TransactionClient,
+  data: Buffer,
+  contentType: string
+): Promise<{ hash: string; storageKey: string }> {
+  const hash = hashAssetContent(data);
+  const storageKey = storageKeyFor(hash);
+  const stored = await tx.asset.findFirst({ where: { hash }, select: { id: true } });
+  if (!stored) await getAssetStorage().put(storageKey, data, contentType);
+  return { hash, storageKey };
+}
+
+const isUniqueViolation = (error: unknown) => (error as { code?: string })?.code === 'P2002';
+
+/**
+ * Guarda un archivo ya validado en la biblioteca del proyecto. Si el proyecto ya tiene un asset con el mismo
+ * contenido se devuelve ese (created: false). El contenido se almacena una sola vez aunque lo usen varios proyectos.
+ */
+export async function storeAsset(
+  projectId: string,
+  userId: string | null,
+  file: AssetUpload,
+  dimensions: { width: number | null; height: number | null } = { width: null, height: null }
+): Promise<{ asset: Asset; created: boolean }> {
+  const hash = hashAssetContent(file.data);
+  const existing = await prisma.asset.findUnique({ where: { projectId_hash: { projectId, hash } } });
+  if (existing) return { asset: existing, created: false };
+
+  try {
+    const asset = await prisma.$transaction(async tx => {
+      await lockAssetContent(tx, [hash]);
+      const { storageKey } = await putAssetContent(tx, file.data, file.contentType);
+      return tx.asset.create({
+        data: {
+          projectId,
+          name: assetNameSchema.catch('asset').parse(file.filename),
+          mimeType: file.contentType,
+          size: file.data.length,
+          width: dimensions.width,
+          height: dimensions.height,
+          hash,
+          storageKey,
+          uploadedById: userId,
+        },
+      });
+    }, { timeout: CONTENT_TRANSACTION_TIMEOUT_MS });
+    return { asset, created: true };
+  } catch (error) {
+    // Subida simultánea del mismo contenido: gana la primera
+    if (!isUniqueViolation(error)) throw error;
+    const winner = await prisma.asset.findUnique({ where: { projectId_hash: { projectId, hash } } });
+    if (!winner) throw error;
+    return { asset: winner, created: false };
+  }
+}
+
+/**
+ * Borra del almacenamiento el contenido de los hashes que ya no usa ningún asset (con el contenido bloqueado)
+ */
+export async function releaseAssetContent(hashes: string[]): Promise<void> {
+  for (const hash of new Set(hashes)) {
+    await prisma.$transaction(async tx => {
+      await lockAssetContent(tx, [hash]);
+      const inUse = await tx.asset.findFirst({ where: { hash }, select: { id: true } });
+      if (!inUse) await getAssetStorage().delete(storageKeyFor(hash));
+    });
+  }
+}
+
+export async function deleteAsset(asset: Pick<Asset, 'id' | 'hash'>): Promise<void> {
+  await prisma.asset.delete({ where: { id: asset.id } });
+  await releaseAssetContent([asset.hash]);
+}
+
+/**
+ * Asset del proyecto con su contenido; null si no existe, el proyecto está en la papelera o el contenido falta en el almacenamiento
+ */
+export async function readProjectAsset(projectId: string, assetId: string): Promise<{ asset: Asset; data: Buffer } | null> {
+  const asset = await prisma.asset.findFirst({ where: { id: assetId, projectId, project: { deletedAt: null } } });
+  if (!asset) return null;
+  const data = await getAssetStorage().get(asset.storageKey);
+  return data ? { asset, data } : null;
+}
+
+/**
+ * Resuelve una URL de la biblioteca a su contenido, sólo si pertenece al proyecto indicado (exportación y publicación)
+ */
+export async function readLibraryAsset(projectId: string, url: string): Promise<{ data: Buffer; contentType: string } | null> {
+  const match = new RegExp(ASSET_URL_PATTERN.source, 'i').exec(url);
+  if (!match || match[1] !== projectId) return null;
+  const found = await readProjectAsset(projectId, match[2]);
+  return found ? { data: found.data, contentType: found.asset.mimeType } : null;
+}
@@ -0,0 +1,117 @@
+import crypto from 'crypto';
+import type { Asset } from '@prisma/client';
+import { ASSET_URL_PATTERN, assetSignature, assetUrl, checkAssetUpload, deleteAsset, storeAsset } from './asset.service';
+import { checkStorageQuota } from '../quotas/quota.service';
+
+// data:<mime>[;parámetros];base64,<datos>
+const DATA_URI = /data:([a-z0-9.+-]+\/[a-z0-9.+-]+)((?:;[a-z0-9=.+-]+)*);base64,([a-z0-9+/=]+)/gi;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/svg+xml': 'svg',
+  'image/x-icon': 'ico',
+  'image/vnd.microsoft.icon': 'ico',
+  'font/woff': 'woff',
+  'font/woff2': 'woff2',
+  'font/ttf': 'ttf',
+  'font/otf': 'otf',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'application/pdf': 'pdf',
+};
+
+/**
+ * Sustituye los data URIs en base64 de `fields` (strings, o JSON recorrido en profundidad) por URLs de la biblioteca
+ * de assets del proyecto. El contenido se deduplica por hash. Los data URIs de tipos no admitidos, demasiado grandes,
+ * sin espacio en la cuota del plan o que no se pueden guardar se dejan como están: nunca se pierde contenido por un fallo del almacenamiento.
+ * Las URLs de la biblioteca del proyecto sin firma (anteriores a las URLs firmadas) se firman (`signed`).
+ * `created` son los assets nuevos: si el guardado se rechaza después, hay que descartarlos con discardInlineAssets.
+ */
+export async function extractInlineAssets<T extends Record<string, unknown>>(
+  projectId: string,
+  userId: string | null,
+  fields: T
+): Promise<{ fields: T; extracted: number; signed: number; created: Asset[] }> {
+  // Un mismo data URI puede repetirse en varios campos: se guarda una vez (null = se deja en línea)
+  const urls = new Map<string, string | null>();
+  const created: Asset[] = [];
+  let extracted = 0;
+  let signed = 0;
+
+  const resolve = async (uri: string, mime: string, base64: string): Promise<string | null> => {
+    if (urls.has(uri)) return urls.get(uri)!;
+    const contentType = mime.toLowerCase();
+    const data = Buffer.from(base64, 'base64');
+    const hash = crypto.createHash('sha256').update(data).digest('hex');
+    const file = { filename: `inline-${hash.slice(0, 12)}.${EXTENSIONS[contentType] ?? 'bin'}`, contentType, data };
+    const check = checkAssetUpload(file);
+    let url: string | null = null;
+    // Sin espacio en el plan el contenido se queda en línea
+    if (check.status === 'ok' && (await checkStorageQuota(projectId, data.length)).status === 'ok') {
+      try {
+        const stored = await storeAsset(projectId, userId, file, check);
+        if (stored.created) created.push(stored.asset);
+        url = assetUrl(stored.asset);
+        extracted += 1;
+      } catch (error) {
+        console.error(`[Assets] Error extracting inline ${contentType} in project ${projectId}:`, error);
+      }
+    }
+    urls.set(uri, url);
+    return url;
+  };
+
+  const sign = (value: string) =>
+    value.replace(ASSET_URL_PATTERN, (url, urlProjectId: string, assetId: string, signature?: string) => {
+      if (signature || urlProjectId !== projectId) return url;
+      signed += 1;
+      return `${url}/${assetSignature({ id: assetId, projectId })}`;
+    });
+
+  const text = async (value: string): Promise<string> => {
+    if (value.includes('/assets/')) value = sign(value);
+    if (!value.includes(';base64,')) return value;
+    let result = value;
+    for (const [uri, mime, , base64] of value.matchAll(DATA_URI)) {
+      const url = await resolve(uri, mime, base64);
+      if (url) result = result.split(uri).join(url);
+    }
+    return result;
+  };
+
+  const walk = async (value: unknown): Promise<unknown> => {
+    if (typeof value === 'string') return text(value);
+    if (Array.isArray(value)) {
+      const items = [];
+      for (const item of value) items.push(await walk(item));
+      return items;
+    }
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      const entries: [string, unknown][] = [];
+      for (const [key, item] of Object.entries(value)) entries.push([key, await walk(item)]);
+      return Object.fromEntries(entries);
+    }
+    return value;
+  };
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(fields)) result[key] = await walk(value);
+  return { fields: result as T, extracted, signed, created };
+}
+
+/**
+ * Borra los assets que creó extractInlineAssets para un guardado que finalmente se rechazó (no cuentan para la cuota)
+ */
+export async function discardInlineAssets(assets: Asset[]): Promise<void> {
+  for (const asset of assets) {
+    try {
+      await deleteAsset(asset);
+    } catch (error) {
+      console.error(`[Assets] Error discarding inline asset ${asset.id} in project ${asset.projectId}:`, error);
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import { PrismaClient } from '@prisma/client';
+import { hashToken } from '../session.service';
+import {
+  createPersonalAccessToken,
+  hasScope,
+  isPersonalAccessToken,
+  verifyPersonalAccessToken,
+} from '../access-token.service';
+
+// Mock de Prisma Client
+const prisma = new PrismaClient();
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    personalAccessToken: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+  };
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+const user = { id: 'user-id', email: 'user@example.com', name: 'User' };
+
+beforeEach(() => {
+  (prisma.personalAccessToken.create as jest.Mock).mockImplementation(({ data }) => Promise.resolve({ id: 'token-id', ...data }));
+  (prisma.personalAccessToken.update as jest.Mock).mockResolvedValue({});
+});
+
+afterEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('hasScope', () => {
+  it('no restringe las sesiones interactivas', () => {
+    expect(hasScope(undefined, 'projects:write')).toBe(true);
+  });
+
+  it('exige el scope y deja que :write incluya :read', () => {
+    expect(hasScope(['pages:write'], 'pages:write')).toBe(true);
+    expect(hasScope(['pages:write'], 'pages:read')).toBe(true);
+    expect(hasScope(['pages:read'], 'pages:write')).toBe(false);
+    expect(hasScope(['pages:write'], 'projects:read')).toBe(false);
+  });
+});
+
+describe('createPersonalAccessToken', () => {
+  it('guarda sólo el hash y devuelve el token en claro una vez', async () => {
+    const { token, accessToken } = await createPersonalAccessToken('user-id', { name: 'CI', scopes: ['versions:write'] });
+    expect(isPersonalAccessToken(token)).toBe(true);
+    const { data } = (prisma.personalAccessToken.create as jest.Mock).mock.calls[0][0];
+    expect(data.tokenHash).toBe(hashToken(token));
+    expect(JSON.stringify(data)).not.toContain(token);
+    expect(accessToken.prefix).toBe(token.slice(0, accessToken.prefix.length));
+  });
+});
+
+describe('verifyPersonalAccessToken', () => {
+  const stored = { id: 'token-id', user, scopes: ['projects:read'], revokedAt: null, expiresAt: null };
+
+  it('acepta un token vigente y registra su uso', async () => {
+    (prisma.personalAccessToken.findUnique as jest.Mock).mockResolvedValue(stored);
+    await expect(verifyPersonalAccessToken('pat_abc')).resolves.toBe(stored);
+    expect(prisma.personalAccessToken.findUnique).toHaveBeenCalledWith({
+      where: { tokenHash: hashToken('pat_abc') },
+      include: { user: true },
+    });
+    expect(prisma.personalAccessToken.update).toHaveBeenCalledWith({
+      where: { id: 'token-id' },
+      data: { lastUsedAt: expect.any(Date) },
+    });
+  });
+
+  it('rechaza tokens revocados o expirados', async () => {
+    (prisma.personalAccessToken.findUnique as jest.Mock).mockResolvedValueOnce({ ...stored, revokedAt: new Date() });
+    await expect(verifyPersonalAccessToken('pat_abc')).resolves.toBeNull();
+    (prisma.personalAccessToken.findUnique as jest.Mock).mockResolvedValueOnce({ ...stored, expiresAt: new Date(0) });
+    await expect(verifyPersonalAccessToken('pat_abc')).resolves.toBeNull();
+  });
+});
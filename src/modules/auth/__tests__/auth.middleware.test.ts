@@ -0,0 +1,89 @@
+import jwt from 'jsonwebtoken';
+import { PrismaClient } from '@prisma/client';
+import { authMiddleware } from '../auth.middleware';
+import { createLoginChallenge } from '../two-factor.service';
+import { signInvitationToken } from '../../invitations/invitation.service';
+import { signEmailChangeToken } from '../../users/account.service';
+import { authenticateCollabSocket } from '../../../socket/collab-socket';
+
+// Mock de Prisma Client
+const prisma = new PrismaClient();
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    session: { findUnique: jest.fn() },
+    project: { findUnique: jest.fn() },
+  };
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret';
+
+const user = { id: 'user-id', email: 'user@example.com', name: 'User' };
+
+// Tokens firmados con el mismo secreto que no son access tokens
+const purposeTokens = () => [
+  ['reto 2FA', createLoginChallenge(user.id)],
+  ['invitación', signInvitationToken({ id: 'invitation-id', expiresAt: new Date(Date.now() + 3600 * 1000) })],
+  ['cambio de email', signEmailChangeToken({ userId: user.id, currentEmail: user.email, newEmail: 'new@example.com' })],
+];
+
+const runMiddleware = async (token: string) => {
+  const req: any = { headers: { authorization: `Bearer ${token}` } };
+  const res: any = { status: jest.fn(() => res), json: jest.fn(() => res) };
+  const next = jest.fn();
+  await authMiddleware(req, res, next);
+  return { req, res, next };
+};
+
+const runHandshake = async (token: string) => {
+  const socket: any = { handshake: { auth: { token }, query: { projectId: 'project-id' } } };
+  const next = jest.fn();
+  await authenticateCollabSocket(socket, next);
+  return { socket, next };
+};
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  (prisma.session.findUnique as jest.Mock).mockResolvedValue({ revokedAt: null });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  jest.clearAllMocks();
+});
+
+describe('authMiddleware', () => {
+  it('acepta access tokens de una sesión vigente', async () => {
+    const { req, next } = await runMiddleware(jwt.sign({ ...user, sid: 'session-1' }, process.env.JWT_SECRET!));
+
+    expect(next).toHaveBeenCalled();
+    expect(req.user).toMatchObject({ id: 'user-id', sessionId: 'session-1' });
+  });
+
+  it.each(purposeTokens())('responde 401 al token de %s', async (_, token) => {
+    const { res, next } = await runMiddleware(token);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+
+  it('responde 401 a tokens sin sesión o sin ID de usuario', async () => {
+    for (const payload of [user, { email: user.email, sid: 'session-1' }, { ...user, sid: 'session-1', purpose: 'otro' }]) {
+      const { res, next } = await runMiddleware(jwt.sign(payload, process.env.JWT_SECRET!));
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(401);
+    }
+  });
+});
+
+describe('authenticateCollabSocket', () => {
+  it.each(purposeTokens())('rechaza el handshake con el token de %s', async (_, token) => {
+    const { socket, next } = await runHandshake(token);
+
+    expect(next).toHaveBeenCalledWith(expect.any(Error));
+    expect(next.mock.calls[0][0].message).toBe('Token inválido o sesión revocada');
+    expect(socket.user).toBeUndefined();
+    expect(prisma.project.findUnique).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,60 @@
+import request from 'supertest';
+import express from 'express';
+import bcrypt from 'bcryptjs';
+import { PrismaClient } from '@prisma/client';
+import { authRouter } from '../auth.router';
+import { MemoryAttemptStore, setAttemptStore } from '../../../utils/attempt-limiter';
+
+// Mock de Prisma Client
+const prisma = new PrismaClient();
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    user: { findUnique: jest.fn() },
+    session: { create: jest.fn() },
+    auditLog: { create: jest.fn() },
+  };
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret';
+
+const app = express();
+app.use(express.json());
+app.use('/auth', authRouter);
+
+const user = { id: 'user-id', email: 'user@example.com', name: 'User', passwordHash: bcrypt.hashSync('secret-password', 4) };
+let store: MemoryAttemptStore;
+
+beforeEach(() => {
+  store = new MemoryAttemptStore();
+  setAttemptStore(store);
+  (prisma.session.create as jest.Mock).mockImplementation(({ data }) => Promise.resolve({ id: 'session-id', ...data }));
+});
+
+afterEach(() => {
+  jest.clearAllMocks();
+});
+
+const accountFailures = async () => (await store.get('login:account:user@example.com'))?.failures ?? 0;
+
+describe('POST /auth/login', () => {
+  it('con 2FA la contraseña correcta no reinicia los fallos de la cuenta', async () => {
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue({ ...user, twoFactorEnabled: true });
+    await request(app).post('/auth/login').send({ email: user.email, password: 'wrong-password' });
+
+    const response = await request(app).post('/auth/login').send({ email: user.email, password: 'secret-password' });
+
+    expect(response.body).toMatchObject({ twoFactorRequired: true, challengeToken: expect.any(String) });
+    expect(await accountFailures()).toBe(1);
+  });
+
+  it('sin 2FA el login completo reinicia los fallos de la cuenta', async () => {
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue({ ...user, twoFactorEnabled: false });
+    await request(app).post('/auth/login').send({ email: user.email, password: 'wrong-password' });
+
+    const response = await request(app).post('/auth/login').send({ email: user.email, password: 'secret-password' });
+
+    expect(response.body).toMatchObject({ id: 'user-id', token: expect.any(String) });
+    expect(await accountFailures()).toBe(0);
+  });
+});
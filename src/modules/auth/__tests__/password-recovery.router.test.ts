@@ -0,0 +1,87 @@
+import request from 'supertest';
+import express from 'express';
+import { PrismaClient } from '@prisma/client';
+import { passwordRecoveryRouter } from '../password-recovery.router';
+import { hashToken } from '../session.service';
+import { MailMessage, setMailTransport } from '../../../utils/mailer';
+
+// Mock de Prisma Client: $transaction ejecuta el callback con el mismo cliente
+const prisma = new PrismaClient();
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient: any = {
+    user: { findUnique: jest.fn(), update: jest.fn() },
+    passwordRecoveryToken: { findUnique: jest.fn(), create: jest.fn(), updateMany: jest.fn() },
+    session: { updateMany: jest.fn() },
+  };
+  mockPrismaClient.$transaction = jest.fn((fn: (tx: any) => Promise<unknown>) => fn(mockPrismaClient));
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+// Transporte de correo en memoria
+const sent: MailMessage[] = [];
+setMailTransport({ send: async message => { sent.push(message); } });
+
+const app = express();
+app.use(express.json());
+app.use('/auth', passwordRecoveryRouter);
+
+afterEach(() => {
+  jest.clearAllMocks();
+  sent.length = 0;
+});
+
+describe('POST /auth/recover', () => {
+  it('responde igual exista o no el email', async () => {
+    (prisma.user.findUnique as jest.Mock).mockResolvedValueOnce(null);
+    const missing = await request(app).post('/auth/recover').send({ email: 'nobody@example.com' });
+
+    (prisma.user.findUnique as jest.Mock).mockResolvedValueOnce({ id: 'user-id', email: 'user@example.com', name: 'User' });
+    const existing = await request(app).post('/auth/recover').send({ email: 'user@example.com' });
+
+    expect(missing.status).toBe(200);
+    expect(existing.status).toBe(200);
+    expect(existing.body).toEqual(missing.body);
+    expect(existing.body.token).toBeUndefined();
+  });
+
+  it('guarda sólo el hash del token y envía el enlace por email', async () => {
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue({ id: 'user-id', email: 'user@example.com', name: 'User' });
+    await request(app).post('/auth/recover').send({ email: 'user@example.com' });
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(sent).toHaveLength(1);
+    const token = sent[0].text.match(/token=([a-f0-9]+)/)![1];
+    const { data } = (prisma.passwordRecoveryToken.create as jest.Mock).mock.calls[0][0];
+    expect(data.tokenHash).toBe(hashToken(token));
+  });
+});
+
+describe('POST /auth/reset', () => {
+  const validToken = { id: 'token-id', userId: 'user-id', used: false, expiresAt: new Date(Date.now() + 60000) };
+
+  it('restablece la contraseña, marca el token como usado y revoca las sesiones', async () => {
+    (prisma.passwordRecoveryToken.findUnique as jest.Mock).mockResolvedValue(validToken);
+    (prisma.passwordRecoveryToken.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+    const res = await request(app).post('/auth/reset').send({ token: 'plain-token', password: 'nueva-clave' });
+
+    expect(res.status).toBe(200);
+    expect(prisma.passwordRecoveryToken.findUnique).toHaveBeenCalledWith({ where: { tokenHash: hashToken('plain-token') } });
+    expect(prisma.user.update).toHaveBeenCalledWith({ where: { id: 'user-id' }, data: { passwordHash: expect.any(String) } });
+    expect(prisma.session.updateMany).toHaveBeenCalledWith({
+      where: { userId: 'user-id', revokedAt: null },
+      data: { revokedAt: expect.any(Date) },
+    });
+  });
+
+  it('rechaza tokens usados o expirados', async () => {
+    (prisma.passwordRecoveryToken.findUnique as jest.Mock).mockResolvedValue({ ...validToken, used: true });
+    const used = await request(app).post('/auth/reset').send({ token: 'plain-token', password: 'nueva-clave' });
+    expect(used.status).toBe(400);
+
+    (prisma.passwordRecoveryToken.findUnique as jest.Mock).mockResolvedValue({ ...validToken, expiresAt: new Date(0) });
+    const expired = await request(app).post('/auth/reset').send({ token: 'plain-token', password: 'nueva-clave' });
+    expect(expired.status).toBe(400);
+    expect(prisma.user.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,118 @@
+import jwt from 'jsonwebtoken';
+import { PrismaClient } from '@prisma/client';
+import { createSession, dropSessionsTwoFactor, rotateRefreshToken, verifyAccessToken, hashToken } from '../session.service';
+
+// Mock de Prisma Client
+const prisma = new PrismaClient();
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    session: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret';
+
+const user = { id: 'user-id', email: 'user@example.com', name: 'User' };
+const future = new Date(Date.now() + 3600 * 1000);
+
+beforeEach(() => {
+  (prisma.session.create as jest.Mock).mockImplementation(({ data }) => Promise.resolve({ id: 'session-new', ...data }));
+});
+
+afterEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('createSession', () => {
+  it('emite un access token con sid y guarda sólo el hash del refresh token', async () => {
+    const tokens = await createSession(user, { userAgent: 'jest' });
+    const payload = jwt.verify(tokens.token, process.env.JWT_SECRET!) as any;
+    expect(payload.sid).toBe('session-new');
+    const { data } = (prisma.session.create as jest.Mock).mock.calls[0][0];
+    expect(data.refreshTokenHash).toBe(hashToken(tokens.refreshToken));
+    expect(data.refreshTokenHash).not.toBe(tokens.refreshToken);
+  });
+});
+
+describe('rotateRefreshToken', () => {
+  it('rota el token dentro de la misma familia', async () => {
+    (prisma.session.findUnique as jest.Mock).mockResolvedValue({
+      id: 'session-old', familyId: 'family-1', expiresAt: future, rotatedAt: null, revokedAt: null, user,
+    });
+    (prisma.session.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+    const result = await rotateRefreshToken('refresh-token');
+    expect(result.status).toBe('ok');
+    expect((prisma.session.create as jest.Mock).mock.calls[0][0].data.familyId).toBe('family-1');
+  });
+
+  it('revoca toda la familia si se reutiliza un token ya rotado', async () => {
+    (prisma.session.findUnique as jest.Mock).mockResolvedValue({
+      id: 'session-old', familyId: 'family-1', expiresAt: future, rotatedAt: new Date(), revokedAt: null, user,
+    });
+
+    const result = await rotateRefreshToken('refresh-token');
+    expect(result.status).toBe('reused');
+    expect(prisma.session.updateMany).toHaveBeenCalledWith({
+      where: { familyId: 'family-1', revokedAt: null },
+      data: { revokedAt: expect.any(Date) },
+    });
+    expect(prisma.session.create).not.toHaveBeenCalled();
+  });
+
+  it('rechaza tokens desconocidos o revocados', async () => {
+    (prisma.session.findUnique as jest.Mock).mockResolvedValue(null);
+    await expect(rotateRefreshToken('unknown')).resolves.toEqual({ status: 'invalid' });
+    (prisma.session.findUnique as jest.Mock).mockResolvedValue({
+      id: 'session-old', familyId: 'family-1', expiresAt: future, rotatedAt: null, revokedAt: new Date(), user,
+    });
+    await expect(rotateRefreshToken('revoked')).resolves.toEqual({ status: 'invalid' });
+  });
+});
+
+describe('verifyAccessToken', () => {
+  it('rechaza access tokens de sesiones revocadas', async () => {
+    const token = jwt.sign({ ...user, sid: 'session-1' }, process.env.JWT_SECRET!);
+    (prisma.session.findUnique as jest.Mock).mockResolvedValue({ revokedAt: new Date() });
+    await expect(verifyAccessToken(token)).resolves.toBeNull();
+    (prisma.session.findUnique as jest.Mock).mockResolvedValue({ revokedAt: null });
+    await expect(verifyAccessToken(token)).resolves.toMatchObject({ id: 'user-id', sid: 'session-1' });
+  });
+
+  it('rechaza tokens sin sesión, sin ID de usuario o con propósito', async () => {
+    await expect(verifyAccessToken(jwt.sign(user, process.env.JWT_SECRET!))).resolves.toBeNull();
+    await expect(verifyAccessToken(jwt.sign({ userId: 'user-id', purpose: 'login-2fa' }, process.env.JWT_SECRET!))).resolves.toBeNull();
+    await expect(verifyAccessToken(jwt.sign({ ...user, sid: 'session-1', purpose: 'x' }, process.env.JWT_SECRET!))).resolves.toBeNull();
+    expect(prisma.session.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('sólo mantiene mfa mientras la sesión conserva el segundo factor', async () => {
+    const token = jwt.sign({ ...user, sid: 'session-1', mfa: true }, process.env.JWT_SECRET!);
+    (prisma.session.findUnique as jest.Mock).mockResolvedValue({ revokedAt: null, twoFactor: true });
+    await expect(verifyAccessToken(token)).resolves.toMatchObject({ mfa: true });
+    (prisma.session.findUnique as jest.Mock).mockResolvedValue({ revokedAt: null, twoFactor: false });
+    await expect(verifyAccessToken(token)).resolves.toMatchObject({ mfa: false });
+  });
+
+  it('rechaza tokens con firma inválida', async () => {
+    const token = jwt.sign(user, 'otro-secreto');
+    await expect(verifyAccessToken(token)).resolves.toBeNull();
+  });
+});
+
+describe('dropSessionsTwoFactor', () => {
+  it('revoca las demás sesiones y quita el segundo factor a las del usuario', async () => {
+    await dropSessionsTwoFactor('user-id', 'family-1');
+
+    expect(prisma.session.updateMany).toHaveBeenCalledWith({
+      where: { userId: 'user-id', revokedAt: null, NOT: { familyId: 'family-1' } },
+      data: { revokedAt: expect.any(Date) },
+    });
+    expect(prisma.session.updateMany).toHaveBeenCalledWith({ where: { userId: 'user-id', twoFactor: true }, data: { twoFactor: false } });
+  });
+});
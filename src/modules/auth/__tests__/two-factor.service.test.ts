@@ -0,0 +1,67 @@
+import { PrismaClient } from '@prisma/client';
+import { currentTotpStep, generateTotpCode, generateTotpSecret } from '../../../utils/totp';
+import { hashToken } from '../session.service';
+import { createLoginChallenge, generateRecoveryCodes, verifyLoginChallenge, verifySecondFactor } from '../two-factor.service';
+
+// Mock de Prisma Client
+const prisma = new PrismaClient();
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    user: {
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret';
+
+const secret = generateTotpSecret();
+const { codes, hashes } = generateRecoveryCodes();
+const user: any = {
+  id: 'user-id',
+  twoFactorEnabled: true,
+  totpSecret: secret,
+  totpLastUsedStep: null,
+  recoveryCodeHashes: hashes,
+};
+
+afterEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('login challenge', () => {
+  it('devuelve el usuario del challenge y rechaza tokens ajenos', () => {
+    expect(verifyLoginChallenge(createLoginChallenge('user-id'))).toBe('user-id');
+    expect(verifyLoginChallenge('no-es-un-jwt')).toBeNull();
+  });
+});
+
+describe('verifySecondFactor', () => {
+  it('acepta un código TOTP válido y registra su paso', async () => {
+    (prisma.user.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    const step = currentTotpStep();
+    await expect(verifySecondFactor(user, { code: generateTotpCode(secret, step) })).resolves.toBe(true);
+    expect((prisma.user.updateMany as jest.Mock).mock.calls[0][0].data).toEqual({ totpLastUsedStep: step });
+  });
+
+  it('rechaza reutilizar un paso TOTP ya consumido', async () => {
+    const step = currentTotpStep();
+    const used = { ...user, totpLastUsedStep: step };
+    await expect(verifySecondFactor(used, { code: generateTotpCode(secret, step) })).resolves.toBe(false);
+    expect(prisma.user.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('consume el código de recuperación usado', async () => {
+    await expect(verifySecondFactor(user, { recoveryCode: codes[0] })).resolves.toBe(true);
+    const { data } = (prisma.user.update as jest.Mock).mock.calls[0][0];
+    expect(data.recoveryCodeHashes).toHaveLength(hashes.length - 1);
+    expect(data.recoveryCodeHashes).not.toContain(hashToken(codes[0]));
+  });
+
+  it('rechaza cualquier código si la cuenta no tiene 2FA', async () => {
+    const disabled = { ...user, twoFactorEnabled: false };
+    await expect(verifySecondFactor(disabled, { recoveryCode: codes[0] })).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,96 @@
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import type { PersonalAccessToken, User } from '@prisma/client';
+import { hashToken } from './session.service';
+
+const prisma = new PrismaClient();
+
+// Prefijo que distingue los tokens personales de los JWT en el header Authorization
+const TOKEN_PREFIX = 'pat_';
+
+export const TOKEN_SCOPES = [
+  'projects:read',
+  'projects:write',
+  'pages:read',
+  'pages:write',
+  'versions:read',
+  'versions:write',
+  'workspaces:read',
+  'workspaces:write',
+] as const;
+
+export type TokenScope = typeof TOKEN_SCOPES[number];
+
+export function isPersonalAccessToken(token: string): boolean {
+  return token.startsWith(TOKEN_PREFIX);
+}
+
+/**
+ * Comprueba si un conjunto de scopes permite la operación.
+ * `scopes` undefined = sesión interactiva (sin restricciones). El scope :write incluye el :read del mismo recurso.
+ */
+export function hasScope(scopes: string[] | undefined, scope: TokenScope): boolean {
+  if (!scopes) return true;
+  if (scopes.includes(scope)) return true;
+  const [resource, action] = scope.split(':');
+  return action === 'read' && scopes.includes(`${resource}:write`);
+}
+
+/**
+ * Crea un token personal. Devuelve el token en claro (sólo esta vez) y la fila guardada.
+ */
+export async function createPersonalAccessToken(
+  userId: string,
+  input: { name: string; scopes: TokenScope[]; expiresAt?: Date | null; twoFactor?: boolean }
+): Promise<{ token: string; accessToken: PersonalAccessToken }> {
+  const token = `${TOKEN_PREFIX}${crypto.randomBytes(32).toString('hex')}`;
+  const accessToken = await prisma.personalAccessToken.create({
+    data: {
+      userId,
+      name: input.name,
+      tokenHash: hashToken(token),
+      prefix: token.slice(0, TOKEN_PREFIX.length + 8),
+      scopes: [...new Set(input.scopes)],
+      twoFactor: !!input.twoFactor,
+      expiresAt: input.expiresAt ?? null,
+    },
+  });
+  return { token, accessToken };
+}
+
+export async function listPersonalAccessTokens(userId: string): Promise<PersonalAccessToken[]> {
+  return prisma.personalAccessToken.findMany({
+    where: { userId, revokedAt: null },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Revoca un token del usuario. Devuelve false si no existe o no le pertenece.
+ */
+export async function revokePersonalAccessToken(userId: string, tokenId: string): Promise<boolean> {
+  const { count } = await prisma.personalAccessToken.updateMany({
+    where: { id: tokenId, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return count > 0;
+}
+
+/**
+ * Valida un token personal (no revocado ni expirado) y registra su último uso.
+ */
+export async function verifyPersonalAccessToken(
+  token: string
+): Promise<(PersonalAccessToken & { user: User }) | null> {
+  const accessToken = await prisma.personalAccessToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { user: true },
+  });
+  if (!accessToken || accessToken.revokedAt) return null;
+  if (accessToken.expiresAt && accessToken.expiresAt <= new Date()) return null;
+  // El registro de uso no debe bloquear ni hacer fallar la petición
+  prisma.personalAccessToken
+    .update({ where: { id: accessToken.id }, data: { lastUsedAt: new Date() } })
+    .catch(error => console.error('[Auth] Error updating token lastUsedAt:', error));
+  return accessToken;
+}
@@ -0,0 +1,38 @@
+import { AttemptPolicy, getRetryAfter, registerFailure, resetAttempts } from '../../utils/attempt-limiter';
+
+// Límites por cuenta (email) y por IP para login (incluye el segundo factor) y recuperación de contraseña
+const POLICIES: Record<AuthAttemptKind, { account: AttemptPolicy; ip: AttemptPolicy }> = {
+  login: {
+    account: { freeAttempts: 3, maxAttempts: 10, baseDelayMs: 1000, maxDelayMs: 60_000, lockoutMs: 15 * 60_000, windowMs: 15 * 60_000 },
+    ip: { freeAttempts: 10, maxAttempts: 50, baseDelayMs: 1000, maxDelayMs: 60_000, lockoutMs: 15 * 60_000, windowMs: 15 * 60_000 },
+  },
+  recover: {
+    account: { freeAttempts: 3, maxAttempts: 6, baseDelayMs: 60_000, maxDelayMs: 15 * 60_000, lockoutMs: 60 * 60_000, windowMs: 60 * 60_000 },
+    ip: { freeAttempts: 10, maxAttempts: 30, baseDelayMs: 1000, maxDelayMs: 60_000, lockoutMs: 60 * 60_000, windowMs: 60 * 60_000 },
+  },
+};
+
+export type AuthAttemptKind = 'login' | 'recover';
+
+const accountKey = (kind: AuthAttemptKind, email: string) => `${kind}:account:${email.trim().toLowerCase()}`;
+const ipKey = (kind: AuthAttemptKind, ip: string | undefined) => `${kind}:ip:${ip ?? 'unknown'}`;
+
+/**
+ * Segundos de espera que aún aplican a esta IP o cuenta (0 si puede intentarlo)
+ */
+export async function checkAuthAttempts(kind: AuthAttemptKind, ip: string | undefined, email: string): Promise<number> {
+  const [byAccount, byIp] = await Promise.all([getRetryAfter(accountKey(kind, email)), getRetryAfter(ipKey(kind, ip))]);
+  return Math.max(byAccount, byIp);
+}
+
+export async function registerAuthFailure(kind: AuthAttemptKind, ip: string | undefined, email: string, userId?: string) {
+  await registerFailure(accountKey(kind, email), POLICIES[kind].account, { ip, userId });
+  await registerFailure(ipKey(kind, ip), POLICIES[kind].ip, { ip });
+}
+
+/**
+ * Tras un login correcto se olvidan los fallos de la cuenta (los de la IP siguen contando)
+ */
+export async function clearAuthFailures(kind: AuthAttemptKind, email: string) {
+  await resetAttempts(accountKey(kind, email));
+}
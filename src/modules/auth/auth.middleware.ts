@@ -1,11 +1,17 @@
 import type { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
-import { PrismaClient } from '@prisma/client';
-
-const prisma = new PrismaClient();
+import { verifyAccessToken } from './session.service';
+import { isPersonalAccessToken, verifyPersonalAccessToken } from './access-token.service';
 
 export interface AuthRequest extends Request {
-  user?: { id: string; email: string; name: string };
+  user?: {
+    id: string;
+    email: string;
+    name: string;
+    sessionId?: string;
+    twoFactor?: boolean;
+    scopes?: string[];
+    accessTokenId?: string;
+  };
 }
 
 export const authMiddleware = async (
@@ -19,14 +25,33 @@ export const authMiddleware = async (
   }
   const token = authHeader.split(' ')[1];
   try {
-    const payload = jwt.verify(token, process.env.JWT_SECRET!) as { id: string; email: string; name: string };
+    // Token personal (scripts/CI): limitado a sus scopes
+    if (isPersonalAccessToken(token)) {
+      const accessToken = await verifyPersonalAccessToken(token);
+      if (!accessToken) return res.status(401).json({ error: 'Invalid token' });
+      req.user = {
+        id: accessToken.user.id,
+        email: accessToken.user.email,
+        name: accessToken.user.name,
+        twoFactor: accessToken.twoFactor,
+        scopes: accessToken.scopes,
+        accessTokenId: accessToken.id,
+      };
+      return next();
+    }
+    // Verifica firma, expiración y que la sesión no haya sido revocada
+    const payload = await verifyAccessToken(token);
+    if (!payload) return res.status(401).json({ error: 'Invalid token' });
     req.user = {
       id: payload.id,
       email: payload.email,
       name: payload.name,
+      sessionId: payload.sid,
+      twoFactor: !!payload.mfa,
     };
     next();
   } catch (err) {
     return res.status(401).json({ error: 'Invalid token' });
   }
 };
+
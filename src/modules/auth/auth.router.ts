@@ -1,9 +1,14 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import { PrismaClient } from '@prisma/client';
 import { validateBody } from '../../utils/validateBody';
+import { claimPendingInvitations } from '../invitations/invitation.service';
+import { authMiddleware } from './auth.middleware';
+import { createSession, getSessionFamilyId, revokeSessionFamily, rotateRefreshToken } from './session.service';
+import { createLoginChallenge } from './two-factor.service';
+import { checkAuthAttempts, clearAuthFailures, registerAuthFailure } from './auth-attempts';
+import { sendTooManyAttempts } from '../../utils/attempt-limiter';
 
 const prisma = new PrismaClient();
 const router = Router();
@@ -19,6 +24,10 @@ const loginSchema = z.object({
   password: z.string().min(6)
 });
 
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1)
+});
+
 /**
  * @openapi
  * /auth/register:
@@ -44,7 +53,7 @@ const loginSchema = z.object({
  *                 minLength: 2
  *     responses:
  *       201:
- *         description: Usuario registrado
+ *         description: Usuario registrado (las invitaciones pendientes a su email se aceptan automáticamente)
  *       409:
  *         description: Email ya en uso
  */
@@ -54,6 +63,12 @@ router.post('/register', validateBody(registerSchema), async (req, res) => {
   if (existing) return res.status(409).json({ error: 'Email already in use' });
   const hash = await bcrypt.hash(password, 10);
   const user = await prisma.user.create({ data: { email, passwordHash: hash, name } });
+  // Convierte las invitaciones pendientes enviadas a este email en permisos
+  try {
+    await claimPendingInvitations(user.id, user.email);
+  } catch (error) {
+    console.error(`[Auth] Error claiming invitations for ${user.email}:`, error);
+  }
   res.status(201).json({ id: user.id, email: user.email, name: user.name });
 });
 
@@ -61,7 +76,7 @@ router.post('/register', validateBody(registerSchema), async (req, res) => {
  * @openapi
  * /auth/login:
  *   post:
- *     summary: Inicia sesión y retorna un JWT
+ *     summary: Inicia sesión y retorna un access token (JWT) y un refresh token
  *     tags:
  *       - Auth
  *     requestBody:
@@ -79,19 +94,91 @@ router.post('/register', validateBody(registerSchema), async (req, res) => {
  *                 minLength: 6
  *     responses:
  *       200:
- *         description: JWT recibido
+ *         description: Tokens recibidos ({ id, name, token, refreshToken, expiresIn }) o, si la cuenta tiene 2FA, { twoFactorRequired, challengeToken } para /auth/login/2fa
  *       401:
  *         description: Credenciales inválidas
+ *       429:
+ *         description: Demasiados intentos fallidos (ver header Retry-After)
  */
 router.post('/login', validateBody(loginSchema), async (req, res) => {
   const { email, password } = req.body;
+  // Backoff exponencial y bloqueo temporal por IP y por cuenta
+  const retryAfter = await checkAuthAttempts('login', req.ip, email);
+  if (retryAfter > 0) return sendTooManyAttempts(res, retryAfter);
   const user = await prisma.user.findUnique({ where: { email } });
-  if (!user) return res.status(401).json({ error: 'Invalid credentials' });
-  const valid = await bcrypt.compare(password, user.passwordHash);
-  if (!valid) return res.status(401).json({ error: 'Invalid credentials' });
-  // JWT payload debe incluir id, email y name para el middleware
-  const token = jwt.sign({ id: user.id, email: user.email, name: user.name }, process.env.JWT_SECRET!, { expiresIn: '7d' });
-  res.json({ id: user.id, name: user.name, token });
+  const valid = user ? await bcrypt.compare(password, user.passwordHash) : false;
+  if (!user || !valid) {
+    await registerAuthFailure('login', req.ip, email, user?.id);
+    return res.status(401).json({ error: 'Invalid credentials' });
+  }
+  // Con 2FA activado la sesión se crea en /auth/login/2fa tras verificar el código; los fallos de la cuenta
+  // se limpian sólo con el login completo, para que conocer la contraseña no reinicie el límite de códigos
+  if (user.twoFactorEnabled) {
+    return res.json({ twoFactorRequired: true, challengeToken: createLoginChallenge(user.id) });
+  }
+  await clearAuthFailures('login', email);
+  // Crea una sesión: access token de corta duración + refresh token rotativo
+  const { token, refreshToken, expiresIn } = await createSession(user, { userAgent: req.get('user-agent'), ip: req.ip });
+  res.json({ id: user.id, name: user.name, token, refreshToken, expiresIn });
+});
+
+/**
+ * @openapi
+ * /auth/refresh:
+ *   post:
+ *     summary: Canjea un refresh token por un nuevo par de tokens (rotación)
+ *     description: Reutilizar un refresh token ya canjeado revoca toda la sesión.
+ *     tags:
+ *       - Auth
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Nuevos tokens ({ token, refreshToken, expiresIn })
+ *       401:
+ *         description: Refresh token inválido, expirado, revocado o reutilizado
+ */
+router.post('/refresh', validateBody(refreshSchema), async (req, res) => {
+  const { refreshToken } = req.body;
+  const result = await rotateRefreshToken(refreshToken, { userAgent: req.get('user-agent'), ip: req.ip });
+  if (result.status === 'reused') {
+    console.warn('[Auth] Refresh token reuse detected, session family revoked');
+    return res.status(401).json({ error: 'Refresh token reuse detected' });
+  }
+  if (result.status === 'invalid') return res.status(401).json({ error: 'Invalid refresh token' });
+  const { token, refreshToken: nextRefreshToken, expiresIn } = result.tokens;
+  res.json({ token, refreshToken: nextRefreshToken, expiresIn });
+});
+
+/**
+ * @openapi
+ * /auth/logout:
+ *   post:
+ *     summary: Cierra la sesión actual (revoca access y refresh tokens)
+ *     tags:
+ *       - Auth
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       204:
+ *         description: Sesión cerrada
+ *       401:
+ *         description: No autenticado
+ */
+router.post('/logout', authMiddleware, async (req, res) => {
+  const sessionId = req.user?.sessionId;
+  if (sessionId) {
+    const familyId = await getSessionFamilyId(sessionId);
+    if (familyId) await revokeSessionFamily(familyId);
+  }
+  res.status(204).send();
 });
 
 export const authRouter = router;
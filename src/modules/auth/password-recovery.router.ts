@@ -1,11 +1,21 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import { PrismaClient } from '@prisma/client';
+import bcrypt from 'bcryptjs';
 import crypto from 'crypto';
+import { sendMail } from '../../utils/mailer';
+import { hashToken } from './session.service';
+import { checkAuthAttempts, registerAuthFailure } from './auth-attempts';
+import { sendTooManyAttempts } from '../../utils/attempt-limiter';
 
 const prisma = new PrismaClient();
 const router = Router();
 
+const RECOVERY_TOKEN_TTL_MS = 3600 * 1000;
+
+// Respuesta idéntica exista o no el email, para no permitir enumerar cuentas
+const RECOVERY_RESPONSE = { message: 'If the email is registered, a recovery link has been sent' };
+
 const recoverySchema = z.object({ email: z.string().email() });
 const resetSchema = z.object({ token: z.string(), password: z.string().min(6) });
 
@@ -13,7 +23,7 @@ const resetSchema = z.object({ token: z.string(), password: z.string().min(6) })
  * @openapi
  * /auth/recover:
  *   post:
- *     summary: Solicita recuperación de contraseña (token)
+ *     summary: Solicita recuperación de contraseña (envía un enlace por email)
  *     tags:
  *       - Auth
  *     requestBody:
@@ -28,23 +38,41 @@ const resetSchema = z.object({ token: z.string(), password: z.string().min(6) })
  *                 format: email
  *     responses:
  *       200:
- *         description: Token de recuperación generado
+ *         description: Solicitud aceptada (misma respuesta exista o no el email)
  *       400:
  *         description: Error de validación
- *       404:
- *         description: Usuario no encontrado
+ *       429:
+ *         description: Demasiadas solicitudes (ver header Retry-After)
  */
-// POST /auth/recover - send recovery token (mock: logs token)
+// POST /auth/recover - genera un token de un solo uso y lo envía por email
 router.post('/recover', async (req, res) => {
   const parse = recoverySchema.safeParse(req.body);
   if (!parse.success) return res.status(400).json({ error: parse.error.errors });
   const { email } = parse.data;
+  // Cada solicitud cuenta como intento, exista o no la cuenta
+  const retryAfter = await checkAuthAttempts('recover', req.ip, email);
+  if (retryAfter > 0) return sendTooManyAttempts(res, retryAfter);
   const user = await prisma.user.findUnique({ where: { email } });
-  if (!user) return res.status(404).json({ error: 'User not found' });
+  await registerAuthFailure('recover', req.ip, email, user?.id);
+  if (!user) return res.json(RECOVERY_RESPONSE);
+
   const token = crypto.randomBytes(32).toString('hex');
-  await prisma.user.update({ where: { email }, data: { passwordResetToken: token, passwordResetExpires: new Date(Date.now() + 3600 * 1000) } });
-  // In a real app, send this token by email. For now, return it for testing.
-  res.json({ message: 'Recovery token generated', token });
+  // Sólo el último token solicitado queda vigente
+  await prisma.passwordRecoveryToken.updateMany({ where: { userId: user.id, used: false }, data: { used: true } });
+  await prisma.passwordRecoveryToken.create({
+    data: { userId: user.id, tokenHash: hashToken(token), expiresAt: new Date(Date.now() + RECOVERY_TOKEN_TTL_MS) },
+  });
+
+  const link = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/reset-password?token=${token}`;
+  // El envío no se espera para que el tiempo de respuesta no revele si la cuenta existe
+  sendMail({
+    to: user.email,
+    subject: 'Recuperación de contraseña',
+    text: `Hola ${user.name},\n\nPara restablecer tu contraseña abre este enlace (válido 1 hora):\n${link}\n\n` +
+      'Si no solicitaste el cambio, ignora este mensaje.',
+  }).catch(error => console.error('[Password Recovery] Error sending recovery email:', error));
+
+  res.json(RECOVERY_RESPONSE);
 });
 
 /**
@@ -68,7 +96,7 @@ router.post('/recover', async (req, res) => {
  *                 minLength: 6
  *     responses:
  *       200:
- *         description: Contraseña restablecida
+ *         description: Contraseña restablecida (se cierran todas las sesiones del usuario)
  *       400:
  *         description: Token inválido o expirado
  */
@@ -77,10 +105,27 @@ router.post('/reset', async (req, res) => {
   const parse = resetSchema.safeParse(req.body);
   if (!parse.success) return res.status(400).json({ error: parse.error.errors });
   const { token, password } = parse.data;
-  const user = await prisma.user.findFirst({ where: { passwordResetToken: token, passwordResetExpires: { gt: new Date() } } });
-  if (!user) return res.status(400).json({ error: 'Invalid or expired token' });
-  const hash = await import('bcryptjs').then(b => b.hash(password, 10));
-  await prisma.user.update({ where: { id: user.id }, data: { passwordHash: hash, passwordResetToken: null, passwordResetExpires: null } });
+  const recoveryToken = await prisma.passwordRecoveryToken.findUnique({ where: { tokenHash: hashToken(token) } });
+  if (!recoveryToken || recoveryToken.used || recoveryToken.expiresAt <= new Date()) {
+    return res.status(400).json({ error: 'Invalid or expired token' });
+  }
+  const hash = await bcrypt.hash(password, 10);
+  const applied = await prisma.$transaction(async tx => {
+    // Marca el token como usado sólo si sigue libre (evita dos resets con el mismo token)
+    const { count } = await tx.passwordRecoveryToken.updateMany({
+      where: { id: recoveryToken.id, used: false },
+      data: { used: true },
+    });
+    if (count === 0) return false;
+    await tx.user.update({ where: { id: recoveryToken.userId }, data: { passwordHash: hash } });
+    // Cierra todas las sesiones abiertas con la contraseña anterior
+    await tx.session.updateMany({
+      where: { userId: recoveryToken.userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return true;
+  });
+  if (!applied) return res.status(400).json({ error: 'Invalid or expired token' });
   res.json({ message: 'Password reset successful' });
 });
 
@@ -0,0 +1,175 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { PrismaClient } from '@prisma/client';
+import type { Session } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Duración del access token (JWT) y del refresh token (se leen en cada uso, después de dotenv)
+const accessTokenTtl = () => process.env.ACCESS_TOKEN_TTL || '15m';
+const refreshTokenTtlDays = () => Number(process.env.REFRESH_TOKEN_TTL_DAYS || 30);
+
+export interface AccessTokenPayload {
+  id: string;
+  email: string;
+  name: string;
+  sid?: string; // ID de la sesión (fila de Session) que emitió el token
+  mfa?: boolean; // la sesión se abrió verificando el segundo factor
+}
+
+export interface SessionMeta {
+  userAgent?: string;
+  ip?: string;
+  twoFactor?: boolean;
+}
+
+export interface IssuedTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: string;
+  sessionId: string;
+}
+
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function signAccessToken(user: { id: string; email: string; name: string }, sessionId: string, twoFactor: boolean): string {
+  const payload: AccessTokenPayload = { id: user.id, email: user.email, name: user.name, sid: sessionId, mfa: twoFactor };
+  return jwt.sign(payload, process.env.JWT_SECRET!, { expiresIn: accessTokenTtl() } as jwt.SignOptions);
+}
+
+async function issueTokens(
+  user: { id: string; email: string; name: string },
+  familyId: string,
+  meta: SessionMeta
+): Promise<IssuedTokens> {
+  const refreshToken = crypto.randomBytes(48).toString('hex');
+  const session = await prisma.session.create({
+    data: {
+      userId: user.id,
+      familyId,
+      refreshTokenHash: hashToken(refreshToken),
+      userAgent: meta.userAgent,
+      ip: meta.ip,
+      twoFactor: !!meta.twoFactor,
+      expiresAt: new Date(Date.now() + refreshTokenTtlDays() * 24 * 3600 * 1000),
+    },
+  });
+  return { token: signAccessToken(user, session.id, session.twoFactor), refreshToken, expiresIn: accessTokenTtl(), sessionId: session.id };
+}
+
+/**
+ * Crea una nueva familia de sesión (login) y emite access + refresh token
+ */
+export async function createSession(user: { id: string; email: string; name: string }, meta: SessionMeta = {}) {
+  return issueTokens(user, crypto.randomUUID(), meta);
+}
+
+export type RefreshResult =
+  | { status: 'ok'; tokens: IssuedTokens }
+  | { status: 'invalid' }
+  | { status: 'reused' };
+
+/**
+ * Canjea un refresh token por un par nuevo (rotación).
+ * Si el token ya había sido rotado se considera robado y se revoca toda la familia.
+ */
+export async function rotateRefreshToken(refreshToken: string, meta: SessionMeta = {}): Promise<RefreshResult> {
+  const session = await prisma.session.findUnique({
+    where: { refreshTokenHash: hashToken(refreshToken) },
+    include: { user: true },
+  });
+  if (!session || session.revokedAt || session.expiresAt <= new Date()) return { status: 'invalid' };
+  if (session.rotatedAt) {
+    await revokeSessionFamily(session.familyId);
+    return { status: 'reused' };
+  }
+  // Marca el token como canjeado sólo si nadie lo hizo antes (evita carreras entre dos refresh simultáneos)
+  const { count } = await prisma.session.updateMany({
+    where: { id: session.id, rotatedAt: null },
+    data: { rotatedAt: new Date(), lastUsedAt: new Date() },
+  });
+  if (count === 0) {
+    await revokeSessionFamily(session.familyId);
+    return { status: 'reused' };
+  }
+  const tokens = await issueTokens(session.user, session.familyId, {
+    userAgent: meta.userAgent ?? session.userAgent ?? undefined,
+    ip: meta.ip ?? session.ip ?? undefined,
+    twoFactor: session.twoFactor,
+  });
+  return { status: 'ok', tokens };
+}
+
+export async function revokeSessionFamily(familyId: string) {
+  await prisma.session.updateMany({ where: { familyId, revokedAt: null }, data: { revokedAt: new Date() } });
+}
+
+export async function revokeAllUserSessions(userId: string) {
+  await prisma.session.updateMany({ where: { userId, revokedAt: null }, data: { revokedAt: new Date() } });
+}
+
+/**
+ * Revoca todas las sesiones del usuario salvo la familia indicada (p. ej. la sesión que cambió la contraseña)
+ */
+export async function revokeOtherUserSessions(userId: string, keepFamilyId: string | null) {
+  await prisma.session.updateMany({
+    where: { userId, revokedAt: null, ...(keepFamilyId ? { NOT: { familyId: keepFamilyId } } : {}) },
+    data: { revokedAt: new Date() },
+  });
+}
+
+/**
+ * Al desactivar 2FA: revoca las demás sesiones del usuario y la que se conserva deja de contar como verificada con
+ * segundo factor, tanto su access token actual como los que se emitan al refrescarla
+ */
+export async function dropSessionsTwoFactor(userId: string, keepFamilyId: string | null) {
+  await revokeOtherUserSessions(userId, keepFamilyId);
+  await prisma.session.updateMany({ where: { userId, twoFactor: true }, data: { twoFactor: false } });
+}
+
+/**
+ * Revoca la familia de la sesión indicada. Devuelve false si no pertenece al usuario.
+ */
+export async function revokeUserSession(userId: string, sessionId: string): Promise<boolean> {
+  const session = await prisma.session.findUnique({ where: { id: sessionId } });
+  if (!session || session.userId !== userId) return false;
+  await revokeSessionFamily(session.familyId);
+  return true;
+}
+
+/**
+ * Sesiones activas de un usuario: una por familia (la fila vigente, aún no rotada)
+ */
+export async function listActiveSessions(userId: string): Promise<Session[]> {
+  return prisma.session.findMany({
+    where: { userId, revokedAt: null, rotatedAt: null, expiresAt: { gt: new Date() } },
+    orderBy: { lastUsedAt: 'desc' },
+  });
+}
+
+export async function getSessionFamilyId(sessionId: string): Promise<string | null> {
+  const session = await prisma.session.findUnique({ where: { id: sessionId }, select: { familyId: true } });
+  return session?.familyId ?? null;
+}
+
+/**
+ * Verifica un access token y que su sesión no haya sido revocada; `mfa` refleja el estado actual de la sesión.
+ * Con el mismo secreto se firman otros tokens (invitación, reto 2FA, cambio de email): llevan `purpose` y no tienen
+ * `sid` ni `id`, y no valen como access token.
+ */
+export async function verifyAccessToken(token: string): Promise<AccessTokenPayload | null> {
+  let payload: string | jwt.JwtPayload;
+  try {
+    payload = jwt.verify(token, process.env.JWT_SECRET!);
+  } catch {
+    return null;
+  }
+  if (typeof payload !== 'object' || 'purpose' in payload) return null;
+  if (typeof payload.sid !== 'string' || typeof payload.id !== 'string') return null;
+  const session = await prisma.session.findUnique({ where: { id: payload.sid }, select: { revokedAt: true, twoFactor: true } });
+  if (!session || session.revokedAt) return null;
+  // El claim mfa deja de valer si la sesión perdió el segundo factor (2FA desactivado) después de firmar el token
+  return { ...payload, mfa: !!payload.mfa && session.twoFactor } as AccessTokenPayload;
+}
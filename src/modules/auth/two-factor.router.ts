@@ -0,0 +1,238 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import bcrypt from 'bcryptjs';
+import { PrismaClient } from '@prisma/client';
+import { validateBody } from '../../utils/validateBody';
+import { buildOtpauthUri, generateTotpSecret, verifyTotpCode } from '../../utils/totp';
+import { authMiddleware } from './auth.middleware';
+import { requireSession } from '../../middlewares/token-scope';
+import { createSession, dropSessionsTwoFactor, getSessionFamilyId } from './session.service';
+import { generateRecoveryCodes, verifyLoginChallenge, verifySecondFactor } from './two-factor.service';
+import { checkAuthAttempts, clearAuthFailures, registerAuthFailure } from './auth-attempts';
+import { sendTooManyAttempts } from '../../utils/attempt-limiter';
+
+const prisma = new PrismaClient();
+const router = Router();
+
+const totpIssuer = () => process.env.TOTP_ISSUER || 'Backend EXA';
+
+const codeSchema = z.object({
+  code: z.string().min(6)
+});
+
+const secondFactorSchema = z.object({
+  code: z.string().min(6).optional(),
+  recoveryCode: z.string().min(1).optional()
+}).refine(data => data.code || data.recoveryCode, { message: 'code or recoveryCode is required' });
+
+const loginTwoFactorSchema = secondFactorSchema.and(z.object({
+  challengeToken: z.string().min(1)
+}));
+
+const disableSchema = secondFactorSchema.and(z.object({
+  password: z.string().min(6)
+}));
+
+/**
+ * @openapi
+ * /auth/2fa/setup:
+ *   post:
+ *     summary: Genera un secreto TOTP pendiente de activación
+ *     tags:
+ *       - Auth
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Secreto y URI otpauth:// para la app autenticadora ({ secret, otpauthUri })
+ *       409:
+ *         description: 2FA ya activado
+ */
+router.post('/2fa/setup', authMiddleware, requireSession, async (req, res) => {
+  const user = await prisma.user.findUnique({ where: { id: req.user!.id } });
+  if (!user) return res.status(404).json({ error: 'User not found' });
+  if (user.twoFactorEnabled) return res.status(409).json({ error: 'Two-factor authentication is already enabled' });
+  const secret = generateTotpSecret();
+  await prisma.user.update({ where: { id: user.id }, data: { totpSecret: secret, totpLastUsedStep: null } });
+  res.json({ secret, otpauthUri: buildOtpauthUri(secret, user.email, totpIssuer()) });
+});
+
+/**
+ * @openapi
+ * /auth/2fa/activate:
+ *   post:
+ *     summary: Activa 2FA confirmando un código de la app autenticadora
+ *     description: Devuelve los códigos de recuperación; sólo se muestran esta vez.
+ *     tags:
+ *       - Auth
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: 2FA activado ({ enabled, recoveryCodes })
+ *       400:
+ *         description: Código inválido o falta ejecutar /auth/2fa/setup
+ *       409:
+ *         description: 2FA ya activado
+ */
+router.post('/2fa/activate', authMiddleware, requireSession, validateBody(codeSchema), async (req, res) => {
+  const user = await prisma.user.findUnique({ where: { id: req.user!.id } });
+  if (!user) return res.status(404).json({ error: 'User not found' });
+  if (user.twoFactorEnabled) return res.status(409).json({ error: 'Two-factor authentication is already enabled' });
+  if (!user.totpSecret) return res.status(400).json({ error: 'Two-factor setup not started' });
+  const step = verifyTotpCode(user.totpSecret, req.body.code);
+  if (step === null) return res.status(400).json({ error: 'Invalid two-factor code' });
+  const { codes, hashes } = generateRecoveryCodes();
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { twoFactorEnabled: true, totpLastUsedStep: step, recoveryCodeHashes: hashes },
+  });
+  res.json({ enabled: true, recoveryCodes: codes });
+});
+
+/**
+ * @openapi
+ * /auth/2fa/recovery-codes:
+ *   post:
+ *     summary: Regenera los códigos de recuperación (invalida los anteriores)
+ *     tags:
+ *       - Auth
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Nuevos códigos ({ recoveryCodes })
+ *       400:
+ *         description: Código inválido o 2FA no activado
+ */
+router.post('/2fa/recovery-codes', authMiddleware, requireSession, validateBody(codeSchema), async (req, res) => {
+  const user = await prisma.user.findUnique({ where: { id: req.user!.id } });
+  if (!user || !user.twoFactorEnabled) return res.status(400).json({ error: 'Two-factor authentication is not enabled' });
+  if (!(await verifySecondFactor(user, { code: req.body.code }))) {
+    return res.status(400).json({ error: 'Invalid two-factor code' });
+  }
+  const { codes, hashes } = generateRecoveryCodes();
+  await prisma.user.update({ where: { id: user.id }, data: { recoveryCodeHashes: hashes } });
+  res.json({ recoveryCodes: codes });
+});
+
+/**
+ * @openapi
+ * /auth/2fa/disable:
+ *   post:
+ *     summary: Desactiva 2FA (requiere contraseña y un código TOTP o de recuperación)
+ *     description: Revoca las demás sesiones; la actual deja de contar como verificada con segundo factor.
+ *     tags:
+ *       - Auth
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               password:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *               recoveryCode:
+ *                 type: string
+ *     responses:
+ *       204:
+ *         description: 2FA desactivado
+ *       400:
+ *         description: 2FA no activado
+ *       401:
+ *         description: Contraseña o código inválidos
+ */
+router.post('/2fa/disable', authMiddleware, requireSession, validateBody(disableSchema), async (req, res) => {
+  const { password, code, recoveryCode } = req.body;
+  const user = await prisma.user.findUnique({ where: { id: req.user!.id } });
+  if (!user || !user.twoFactorEnabled) return res.status(400).json({ error: 'Two-factor authentication is not enabled' });
+  const validPassword = await bcrypt.compare(password, user.passwordHash);
+  if (!validPassword || !(await verifySecondFactor(user, { code, recoveryCode }))) {
+    return res.status(401).json({ error: 'Invalid credentials' });
+  }
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { twoFactorEnabled: false, totpSecret: null, totpLastUsedStep: null, recoveryCodeHashes: [] },
+  });
+  // Sin 2FA ninguna sesión puede seguir cumpliendo la exigencia de 2FA de los proyectos: se revocan las demás
+  // y la actual sigue abierta sin segundo factor
+  const currentFamilyId = req.user!.sessionId ? await getSessionFamilyId(req.user!.sessionId) : null;
+  await dropSessionsTwoFactor(user.id, currentFamilyId);
+  res.status(204).send();
+});
+
+/**
+ * @openapi
+ * /auth/login/2fa:
+ *   post:
+ *     summary: Completa el inicio de sesión con el segundo factor
+ *     description: Canjea el challengeToken devuelto por /auth/login junto con un código TOTP o de recuperación.
+ *     tags:
+ *       - Auth
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *               recoveryCode:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Tokens recibidos ({ id, name, token, refreshToken, expiresIn })
+ *       401:
+ *         description: Challenge expirado o código inválido
+ *       429:
+ *         description: Demasiados intentos fallidos (ver header Retry-After)
+ */
+router.post('/login/2fa', validateBody(loginTwoFactorSchema), async (req, res) => {
+  const { challengeToken, code, recoveryCode } = req.body;
+  const userId = verifyLoginChallenge(challengeToken);
+  if (!userId) return res.status(401).json({ error: 'Invalid or expired challenge' });
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) return res.status(401).json({ error: 'Invalid two-factor code' });
+  // Los códigos fallidos cuentan como intentos de login de la cuenta
+  const retryAfter = await checkAuthAttempts('login', req.ip, user.email);
+  if (retryAfter > 0) return sendTooManyAttempts(res, retryAfter);
+  if (!(await verifySecondFactor(user, { code, recoveryCode }))) {
+    await registerAuthFailure('login', req.ip, user.email, user.id);
+    return res.status(401).json({ error: 'Invalid two-factor code' });
+  }
+  await clearAuthFailures('login', user.email);
+  const { token, refreshToken, expiresIn } = await createSession(user, {
+    userAgent: req.get('user-agent'),
+    ip: req.ip,
+    twoFactor: true,
+  });
+  res.json({ id: user.id, name: user.name, token, refreshToken, expiresIn });
+});
+
+export const twoFactorRouter = router;
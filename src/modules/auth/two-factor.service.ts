@@ -0,0 +1,74 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { PrismaClient } from '@prisma/client';
+import type { User } from '@prisma/client';
+import { verifyTotpCode } from '../../utils/totp';
+import { hashToken } from './session.service';
+
+const prisma = new PrismaClient();
+
+const CHALLENGE_PURPOSE = 'login-2fa';
+const CHALLENGE_TTL = '5m';
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Token de corta duración que emite /auth/login cuando la cuenta tiene 2FA;
+ * se canjea en /auth/login/2fa junto con un código válido.
+ */
+export function createLoginChallenge(userId: string): string {
+  return jwt.sign({ userId, purpose: CHALLENGE_PURPOSE }, process.env.JWT_SECRET!, { expiresIn: CHALLENGE_TTL });
+}
+
+export function verifyLoginChallenge(token: string): string | null {
+  try {
+    const payload = jwt.verify(token, process.env.JWT_SECRET!) as { userId?: string; purpose?: string };
+    if (payload.purpose !== CHALLENGE_PURPOSE || !payload.userId) return null;
+    return payload.userId;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Genera códigos de recuperación de un solo uso. Devuelve los códigos en claro (se muestran una vez) y sus hashes.
+ */
+export function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(code => hashToken(code)) };
+}
+
+/**
+ * Verifica el segundo factor (código TOTP o código de recuperación) y lo consume:
+ * el paso TOTP usado no se acepta de nuevo y el código de recuperación se elimina.
+ */
+export async function verifySecondFactor(
+  user: User,
+  input: { code?: string; recoveryCode?: string }
+): Promise<boolean> {
+  if (!user.twoFactorEnabled || !user.totpSecret) return false;
+
+  if (input.code) {
+    const step = verifyTotpCode(user.totpSecret, input.code);
+    if (step === null || (user.totpLastUsedStep !== null && step <= user.totpLastUsedStep)) return false;
+    const { count } = await prisma.user.updateMany({
+      where: { id: user.id, OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }] },
+      data: { totpLastUsedStep: step },
+    });
+    return count > 0;
+  }
+
+  if (input.recoveryCode) {
+    const hash = hashToken(input.recoveryCode.trim().toLowerCase());
+    if (!user.recoveryCodeHashes.includes(hash)) return false;
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { recoveryCodeHashes: user.recoveryCodeHashes.filter(h => h !== hash) },
+    });
+    return true;
+  }
+
+  return false;
+}
@@ -0,0 +1,111 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { PrismaClient } from '@prisma/client';
+import { OutboxTransport, setMailTransport } from '../../../utils/mailer';
+import {
+  signInvitationToken,
+  verifyInvitationToken,
+  claimPendingInvitations,
+  sendInvitationEmail,
+} from '../invitation.service';
+
+// Mock de Prisma Client: $transaction ejecuta el callback con el mismo cliente
+const prisma = new PrismaClient();
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient: any = {
+    project: { findUnique: jest.fn() },
+    projectPermission: { findUnique: jest.fn(), upsert: jest.fn() },
+    projectInvitation: { findMany: jest.fn(), updateMany: jest.fn() },
+  };
+  mockPrismaClient.$transaction = jest.fn((fn: (tx: any) => Promise<unknown>) => fn(mockPrismaClient));
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret';
+
+const invitation = {
+  id: 'invitation-id',
+  projectId: 'project-id',
+  email: 'guest@example.com',
+  role: 'editor' as const,
+  invitedById: 'owner-id',
+  expiresAt: new Date(Date.now() + 3600 * 1000),
+  acceptedAt: null,
+  revokedAt: null,
+  createdAt: new Date(),
+};
+
+beforeEach(() => {
+  (prisma.projectInvitation.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+});
+
+afterEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('invitation tokens', () => {
+  it('firma y verifica el ID de la invitación', () => {
+    const token = signInvitationToken(invitation);
+    expect(verifyInvitationToken(token)).toBe('invitation-id');
+  });
+
+  it('rechaza tokens alterados o de otro propósito', () => {
+    const token = signInvitationToken(invitation);
+    expect(verifyInvitationToken(token + 'x')).toBeNull();
+    const jwt = require('jsonwebtoken');
+    expect(verifyInvitationToken(jwt.sign({ invitationId: 'invitation-id' }, process.env.JWT_SECRET))).toBeNull();
+  });
+});
+
+describe('claimPendingInvitations', () => {
+  it('convierte las invitaciones pendientes en ProjectPermission', async () => {
+    (prisma.projectInvitation.findMany as jest.Mock).mockResolvedValue([invitation]);
+    (prisma.project.findUnique as jest.Mock).mockResolvedValue({ ownerId: 'owner-id' });
+    (prisma.projectPermission.findUnique as jest.Mock).mockResolvedValue(null);
+
+    await expect(claimPendingInvitations('new-user-id', 'Guest@Example.com')).resolves.toBe(1);
+    expect(prisma.projectPermission.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      create: { projectId: 'project-id', userId: 'new-user-id', role: 'editor' },
+    }));
+    expect(prisma.projectInvitation.updateMany).toHaveBeenCalledWith({
+      where: { id: 'invitation-id', acceptedAt: null, revokedAt: null, expiresAt: { gt: expect.any(Date) } },
+      data: { acceptedAt: expect.any(Date) },
+    });
+  });
+
+  it('no concede permisos si la invitación dejó de estar pendiente', async () => {
+    (prisma.projectInvitation.findMany as jest.Mock).mockResolvedValue([invitation]);
+    (prisma.projectInvitation.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+    await expect(claimPendingInvitations('new-user-id', 'guest@example.com')).resolves.toBe(0);
+    expect(prisma.projectPermission.upsert).not.toHaveBeenCalled();
+  });
+
+  it('no reduce el rol de un miembro existente', async () => {
+    (prisma.projectInvitation.findMany as jest.Mock).mockResolvedValue([{ ...invitation, role: 'viewer' }]);
+    (prisma.project.findUnique as jest.Mock).mockResolvedValue({ ownerId: 'owner-id' });
+    (prisma.projectPermission.findUnique as jest.Mock).mockResolvedValue({ role: 'admin' });
+
+    await claimPendingInvitations('member-id', 'guest@example.com');
+    expect(prisma.projectPermission.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      update: { role: 'admin' },
+    }));
+  });
+});
+
+describe('sendInvitationEmail', () => {
+  it('escribe el mensaje en el outbox local con el enlace de aceptación', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'outbox-'));
+    setMailTransport(new OutboxTransport(dir));
+
+    await sendInvitationEmail(invitation, 'Landing', 'Owner');
+
+    const files = await fs.readdir(dir);
+    expect(files).toHaveLength(1);
+    const message = JSON.parse(await fs.readFile(path.join(dir, files[0]), 'utf8'));
+    expect(message.to).toBe('guest@example.com');
+    expect(message.text).toContain('/invitations/');
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+});
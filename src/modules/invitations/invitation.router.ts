@@ -0,0 +1,258 @@
+/// <reference path="../../types/express/index.d.ts" />
+import { Router, Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { authMiddleware } from '../auth/auth.middleware';
+import { projectAccessMiddleware } from '../../middlewares/project-access';
+import { requireScope } from '../../middlewares/token-scope';
+import { PROJECT_ROLES } from '../../utils/permission';
+import {
+  INVITATION_TTL_DAYS,
+  acceptInvitation,
+  isInvitationPending,
+  sendInvitationEmail,
+  verifyInvitationToken,
+} from './invitation.service';
+
+const prisma = new PrismaClient();
+const projectRouter = Router({ mergeParams: true });
+const router = Router();
+
+const invitationCreateSchema = z.object({
+  email: z.string().email(),
+  role: z.enum(PROJECT_ROLES),
+});
+
+// Helper: assert user is present (type guard)
+function requireUser(req: Request): asserts req is Request & { user: { id: string; name: string } } {
+  if (!req.user) throw new Error('User not found in request. Auth middleware missing?');
+}
+
+/**
+ * @openapi
+ * /projects/{id}/invitations:
+ *   post:
+ *     summary: Invita por email a un colaborador, tenga o no cuenta (owner o admin)
+ *     tags:
+ *       - Project Invitations
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               role:
+ *                 type: string
+ *                 enum: [viewer, commenter, editor, admin]
+ *     responses:
+ *       201:
+ *         description: Invitación creada y enviada
+ *       400:
+ *         description: Error de validación
+ *       409:
+ *         description: El usuario ya es miembro del proyecto
+ */
+projectRouter.post('/', authMiddleware, requireScope('projects:write'), projectAccessMiddleware('manageMembers'), async (req: Request, res: Response) => {
+  requireUser(req);
+  const { id: projectId } = req.params;
+  const parse = invitationCreateSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.errors });
+  const email = parse.data.email.trim().toLowerCase();
+  const { role } = parse.data;
+
+  try {
+    const project = await prisma.project.findUnique({ where: { id: projectId } });
+    if (!project) return res.status(404).json({ error: 'Not found' });
+
+    // Si el email ya corresponde a un miembro, no tiene sentido invitarlo
+    const existingUser = await prisma.user.findFirst({ where: { email: { equals: email, mode: 'insensitive' } } });
+    if (existingUser) {
+      const isMember = project.ownerId === existingUser.id ||
+        !!(await prisma.projectPermission.findUnique({ where: { projectId_userId: { projectId, userId: existingUser.id } } }));
+      if (isMember) return res.status(409).json({ error: 'User is already a member of this project' });
+    }
+
+    // Una sola invitación pendiente por email: las anteriores quedan revocadas
+    await prisma.projectInvitation.updateMany({
+      where: { projectId, email, acceptedAt: null, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    const invitation = await prisma.projectInvitation.create({
+      data: {
+        projectId,
+        email,
+        role,
+        invitedById: req.user.id,
+        expiresAt: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 3600 * 1000),
+      },
+    });
+    await sendInvitationEmail(invitation, project.name, req.user.name);
+    res.status(201).json(invitation);
+  } catch (error) {
+    console.error(`[Invitations] Error creating invitation for project ${projectId}:`, error);
+    return res.status(500).json({ error: 'Error creating invitation' });
+  }
+});
+
+/**
+ * @openapi
+ * /projects/{id}/invitations:
+ *   get:
+ *     summary: Lista las invitaciones pendientes del proyecto (owner o admin)
+ *     tags:
+ *       - Project Invitations
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Lista de invitaciones pendientes
+ *       403:
+ *         description: Prohibido
+ */
+projectRouter.get('/', authMiddleware, requireScope('projects:read'), projectAccessMiddleware('manageMembers'), async (req: Request, res: Response) => {
+  const { id: projectId } = req.params;
+  const invitations = await prisma.projectInvitation.findMany({
+    where: { projectId, acceptedAt: null, revokedAt: null, expiresAt: { gt: new Date() } },
+    orderBy: { createdAt: 'desc' },
+  });
+  res.json(invitations);
+});
+
+/**
+ * @openapi
+ * /projects/{id}/invitations/{invitationId}:
+ *   delete:
+ *     summary: Revoca una invitación pendiente (owner o admin)
+ *     tags:
+ *       - Project Invitations
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: invitationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Invitación revocada
+ *       404:
+ *         description: No encontrada
+ */
+projectRouter.delete('/:invitationId', authMiddleware, requireScope('projects:write'), projectAccessMiddleware('manageMembers'), async (req: Request, res: Response) => {
+  const { id: projectId, invitationId } = req.params;
+  const invitation = await prisma.projectInvitation.findUnique({ where: { id: invitationId } });
+  if (!invitation || invitation.projectId !== projectId || !isInvitationPending(invitation)) {
+    return res.status(404).json({ error: 'Invitation not found' });
+  }
+  await prisma.projectInvitation.update({ where: { id: invitationId }, data: { revokedAt: new Date() } });
+  res.status(204).send();
+});
+
+/**
+ * @openapi
+ * /invitations/{token}:
+ *   get:
+ *     summary: Obtiene los datos públicos de una invitación a partir de su token
+ *     tags:
+ *       - Project Invitations
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invitación pendiente
+ *       404:
+ *         description: Token inválido, expirado o invitación revocada
+ */
+router.get('/:token', async (req, res) => {
+  const invitationId = verifyInvitationToken(req.params.token);
+  if (!invitationId) return res.status(404).json({ error: 'Invitation not found' });
+  const invitation = await prisma.projectInvitation.findUnique({
+    where: { id: invitationId },
+    include: { project: { select: { id: true, name: true } }, invitedBy: { select: { name: true } } },
+  });
+  if (!invitation || !isInvitationPending(invitation)) return res.status(404).json({ error: 'Invitation not found' });
+  res.json({
+    email: invitation.email,
+    role: invitation.role,
+    expiresAt: invitation.expiresAt,
+    project: invitation.project,
+    invitedBy: invitation.invitedBy.name,
+  });
+});
+
+/**
+ * @openapi
+ * /invitations/{token}/accept:
+ *   post:
+ *     summary: Acepta una invitación con el usuario autenticado (el email debe coincidir)
+ *     tags:
+ *       - Project Invitations
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invitación aceptada
+ *       403:
+ *         description: La invitación fue enviada a otro email
+ *       404:
+ *         description: Token inválido, expirado o invitación revocada
+ */
+router.post('/:token/accept', authMiddleware, async (req, res) => {
+  requireUser(req);
+  const invitationId = verifyInvitationToken(req.params.token);
+  if (!invitationId) return res.status(404).json({ error: 'Invitation not found' });
+  const invitation = await prisma.projectInvitation.findUnique({ where: { id: invitationId } });
+  if (!invitation || !isInvitationPending(invitation)) return res.status(404).json({ error: 'Invitation not found' });
+
+  const user = await prisma.user.findUnique({ where: { id: req.user.id } });
+  if (!user) return res.status(404).json({ error: 'User not found' });
+  if (user.email.toLowerCase() !== invitation.email.toLowerCase()) {
+    return res.status(403).json({ error: 'Invitation was sent to a different email' });
+  }
+
+  try {
+    const accepted = await acceptInvitation(invitation, user.id);
+    if (!accepted) return res.status(404).json({ error: 'Invitation not found' });
+    res.json({ projectId: invitation.projectId, role: invitation.role });
+  } catch (error) {
+    console.error(`[Invitations] Error accepting invitation ${invitation.id}:`, error);
+    return res.status(500).json({ error: 'Error accepting invitation' });
+  }
+});
+
+export const projectInvitationsRouter = projectRouter;
+export const invitationRouter = router;
@@ -0,0 +1,96 @@
+import jwt from 'jsonwebtoken';
+import { PrismaClient } from '@prisma/client';
+import type { ProjectInvitation } from '@prisma/client';
+import { sendMail } from '../../utils/mailer';
+import { maxRole } from '../../utils/permission';
+
+const prisma = new PrismaClient();
+
+export const INVITATION_TTL_DAYS = 7;
+
+const INVITATION_PURPOSE = 'project-invitation';
+
+// Token firmado que viaja en el enlace de la invitación
+export function signInvitationToken(invitation: Pick<ProjectInvitation, 'id' | 'expiresAt'>): string {
+  const expiresIn = Math.max(1, Math.floor((invitation.expiresAt.getTime() - Date.now()) / 1000));
+  return jwt.sign({ invitationId: invitation.id, purpose: INVITATION_PURPOSE }, process.env.JWT_SECRET!, { expiresIn });
+}
+
+/**
+ * Verifica la firma y expiración del token. Devuelve el ID de la invitación o null.
+ */
+export function verifyInvitationToken(token: string): string | null {
+  try {
+    const payload = jwt.verify(token, process.env.JWT_SECRET!) as { invitationId?: string; purpose?: string };
+    if (payload.purpose !== INVITATION_PURPOSE || !payload.invitationId) return null;
+    return payload.invitationId;
+  } catch {
+    return null;
+  }
+}
+
+export function isInvitationPending(invitation: ProjectInvitation, now = new Date()): boolean {
+  return !invitation.acceptedAt && !invitation.revokedAt && invitation.expiresAt > now;
+}
+
+export async function sendInvitationEmail(invitation: ProjectInvitation, projectName: string, inviterName: string) {
+  const token = signInvitationToken(invitation);
+  const link = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/invitations/${token}`;
+  await sendMail({
+    to: invitation.email,
+    subject: `${inviterName} te invitó al proyecto "${projectName}"`,
+    text: `${inviterName} te invitó a colaborar en "${projectName}" como ${invitation.role}.\n\n` +
+      `Acepta la invitación aquí: ${link}\n\n` +
+      `Si aún no tienes cuenta, regístrate con este email (${invitation.email}) y tendrás acceso automáticamente.\n` +
+      `La invitación expira el ${invitation.expiresAt.toISOString()}.`,
+  });
+}
+
+/**
+ * Convierte una invitación en ProjectPermission para el usuario y la marca como aceptada.
+ * Nunca reduce el rol de alguien que ya es miembro, y no crea permisos para el owner.
+ * Devuelve false si la invitación dejó de estar pendiente (aceptada, revocada o expirada) entretanto.
+ */
+export async function acceptInvitation(invitation: ProjectInvitation, userId: string): Promise<boolean> {
+  return prisma.$transaction(async tx => {
+    // Marca la invitación sólo si sigue pendiente (evita aceptar dos veces o una recién revocada)
+    const { count } = await tx.projectInvitation.updateMany({
+      where: { id: invitation.id, acceptedAt: null, revokedAt: null, expiresAt: { gt: new Date() } },
+      data: { acceptedAt: new Date() },
+    });
+    if (count === 0) return false;
+    const project = await tx.project.findUnique({ where: { id: invitation.projectId }, select: { ownerId: true } });
+    if (project && project.ownerId !== userId) {
+      const existing = await tx.projectPermission.findUnique({
+        where: { projectId_userId: { projectId: invitation.projectId, userId } },
+      });
+      const role = maxRole(existing?.role ?? null, invitation.role) ?? invitation.role;
+      await tx.projectPermission.upsert({
+        where: { projectId_userId: { projectId: invitation.projectId, userId } },
+        update: { role },
+        create: { projectId: invitation.projectId, userId, role },
+      });
+    }
+    return true;
+  });
+}
+
+/**
+ * Acepta todas las invitaciones pendientes enviadas al email de un usuario recién registrado.
+ * Devuelve la cantidad de invitaciones convertidas.
+ */
+export async function claimPendingInvitations(userId: string, email: string): Promise<number> {
+  const invitations = await prisma.projectInvitation.findMany({
+    where: {
+      email: { equals: email, mode: 'insensitive' },
+      acceptedAt: null,
+      revokedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+  });
+  let accepted = 0;
+  for (const invitation of invitations) {
+    if (await acceptInvitation(invitation, userId)) accepted += 1;
+  }
+  return accepted;
+}
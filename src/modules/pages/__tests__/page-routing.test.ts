@@ -0,0 +1,95 @@
+import { PrismaClient } from '@prisma/client';
+import { assignPageSlugs, pagePaths, parentsFirst, reorderPages, sanitizeParents, uniquePageSlug } from '../page-routing';
+
+// Mock de Prisma Client: $transaction recibe el array de operaciones
+const prisma = new PrismaClient();
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient: any = {
+    page: { findMany: jest.fn(), update: jest.fn() },
+    $transaction: jest.fn((ops: Promise<unknown>[]) => Promise.all(ops)),
+  };
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+afterEach(() => {
+  jest.clearAllMocks();
+});
+
+const pages = [
+  { id: 'home', slug: 'inicio', parentId: null, isDefault: true },
+  { id: 'about', slug: 'nosotros', parentId: null, isDefault: false },
+  { id: 'team', slug: 'equipo', parentId: 'about', isDefault: false },
+  { id: 'news', slug: 'noticias', parentId: 'home', isDefault: false },
+];
+
+describe('pagePaths', () => {
+  it('sirve la principal en / y anida los slugs de los ancestros', () => {
+    const paths = pagePaths(pages);
+    expect(paths.get('home')).toBe('/');
+    expect(paths.get('team')).toBe('/nosotros/equipo');
+    // Las hijas de la página principal cuelgan directamente de /
+    expect(paths.get('news')).toBe('/noticias');
+  });
+});
+
+describe('parentsFirst y sanitizeParents', () => {
+  it('ordena los padres antes que sus hijas y descarta padres inexistentes o cíclicos', () => {
+    expect(parentsFirst([pages[2], pages[1]]).map(page => page.id)).toEqual(['about', 'team']);
+
+    const parents = sanitizeParents([
+      { id: 'a', parentId: 'b' },
+      { id: 'b', parentId: 'a' },
+      { id: 'c', parentId: 'missing' },
+    ]);
+    expect(parents).toEqual(new Map([['a', 'b'], ['b', null], ['c', null]]));
+  });
+});
+
+describe('slugs', () => {
+  it('genera slugs únicos a partir del nombre respetando los indicados', () => {
+    expect(assignPageSlugs([{ name: 'Contacto' }, { name: 'Otra', slug: 'contacto' }, { name: '¡¡' }])).toEqual([
+      'contacto-2',
+      'contacto',
+      'page',
+    ]);
+  });
+
+  it('añade un sufijo si el slug ya existe en el proyecto', async () => {
+    (prisma.page.findMany as jest.Mock).mockResolvedValue([{ slug: 'precios' }, { slug: 'precios-2' }]);
+
+    await expect(uniquePageSlug('project-id', 'Precios')).resolves.toBe('precios-3');
+  });
+});
+
+describe('reorderPages', () => {
+  beforeEach(() => {
+    (prisma.page.findMany as jest.Mock).mockResolvedValue([
+      { id: 'about', parentId: null },
+      { id: 'team', parentId: 'about' },
+    ]);
+  });
+
+  it('rechaza mover una página dentro de su descendiente', async () => {
+    await expect(reorderPages('project-id', [{ id: 'about', position: 0, parentId: 'team' }])).resolves.toEqual({
+      status: 'invalid',
+      code: 'PAGE_PARENT_CYCLE',
+    });
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('rechaza páginas de otro proyecto', async () => {
+    await expect(reorderPages('project-id', [{ id: 'other', position: 0 }])).resolves.toMatchObject({ code: 'PAGE_NOT_FOUND' });
+  });
+
+  it('aplica posiciones y padres en una transacción', async () => {
+    const result = await reorderPages('project-id', [
+      { id: 'team', position: 0, parentId: null },
+      { id: 'about', position: 1 },
+    ]);
+
+    expect(result.status).toBe('reordered');
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+    expect(prisma.page.update).toHaveBeenCalledWith({ where: { id: 'team' }, data: { position: 0, parentId: null } });
+    expect(prisma.page.update).toHaveBeenCalledWith({ where: { id: 'about' }, data: { position: 1 } });
+  });
+});
@@ -0,0 +1,43 @@
+import { pageSeoInput, pageSeoSchema, renderSeoHead } from '../page-seo';
+
+describe('pageSeoSchema', () => {
+  it('rechaza campos desconocidos, URLs no http y fragmentos que cierran el <head>', () => {
+    expect(pageSeoSchema.safeParse({ keywords: 'a' }).success).toBe(false);
+    expect(pageSeoSchema.safeParse({ canonicalUrl: 'javascript:alert(1)' }).success).toBe(false);
+    expect(pageSeoSchema.safeParse({ headHtml: '</head><body>' }).success).toBe(false);
+    expect(pageSeoSchema.safeParse({ twitter: { site: '@mi_sitio' }, robots: { nofollow: true } }).success).toBe(true);
+  });
+
+  it('null borra los metadatos', () => {
+    expect(pageSeoInput(null)).toEqual({ success: true, data: {} });
+  });
+});
+
+describe('renderSeoHead', () => {
+  it('sin metadatos sólo genera el título con el nombre de la página', () => {
+    expect(renderSeoHead(null, { title: 'Inicio' })).toEqual(['<title>Inicio</title>']);
+  });
+
+  it('completa Open Graph y Twitter con el título y la descripción y escapa los valores', () => {
+    const head = renderSeoHead(
+      { title: 'Precios & planes', description: 'Los "mejores" precios', openGraph: { image: 'https://cdn.example.com/og.png' }, headHtml: '<meta name="x" content="y">' },
+      { title: 'Precios', url: 'https://www.example.com/precios' }
+    );
+
+    expect(head).toEqual([
+      '<title>Precios &amp; planes</title>',
+      '<meta name="description" content="Los &quot;mejores&quot; precios">',
+      '<link rel="canonical" href="https://www.example.com/precios">',
+      '<meta property="og:type" content="website">',
+      '<meta property="og:title" content="Precios &amp; planes">',
+      '<meta property="og:description" content="Los &quot;mejores&quot; precios">',
+      '<meta property="og:image" content="https://cdn.example.com/og.png">',
+      '<meta property="og:url" content="https://www.example.com/precios">',
+      '<meta name="twitter:card" content="summary_large_image">',
+      '<meta name="twitter:title" content="Precios &amp; planes">',
+      '<meta name="twitter:description" content="Los &quot;mejores&quot; precios">',
+      '<meta name="twitter:image" content="https://cdn.example.com/og.png">',
+      '<meta name="x" content="y">',
+    ]);
+  });
+});
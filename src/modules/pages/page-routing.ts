@@ -0,0 +1,226 @@
+import { PrismaClient } from '@prisma/client';
+import type { Page, Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { slugify } from '../../utils/slug';
+
+const prisma = new PrismaClient();
+
+// Orden de las páginas en listados y sincronización: posición explícita y, a igual posición, antigüedad
+export const PAGE_ORDER: Prisma.PageOrderByWithRelationInput[] = [{ position: 'asc' }, { createdAt: 'asc' }];
+
+export const pageSlugSchema = z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Invalid slug').max(100);
+
+export const pageReorderSchema = z.object({
+  projectId: z.string(),
+  pages: z
+    .array(z.object({
+      id: z.string(),
+      position: z.number().int().min(0),
+      parentId: z.string().nullable().optional(), // undefined = no cambia el padre
+    }))
+    .min(1)
+    .refine(pages => new Set(pages.map(page => page.id)).size === pages.length, { message: 'Duplicate page id' }),
+});
+
+export type PageReorderItem = z.infer<typeof pageReorderSchema>['pages'][number];
+
+// Datos mínimos para calcular rutas y jerarquía
+export interface PageNode {
+  id: string;
+  slug: string;
+  parentId: string | null;
+  isDefault: boolean;
+}
+
+/**
+ * Ruta pública de cada página: la principal es '/', el resto encadena los slugs de sus ancestros
+ * (sin incluir la principal, cuyos hijos cuelgan directamente de '/').
+ */
+export function pagePaths(pages: PageNode[]): Map<string, string> {
+  const byId = new Map(pages.map(page => [page.id, page]));
+  const paths = new Map<string, string>();
+  for (const page of pages) {
+    if (page.isDefault) {
+      paths.set(page.id, '/');
+      continue;
+    }
+    const segments: string[] = [];
+    const seen = new Set<string>();
+    for (let node: PageNode | undefined = page; node && !node.isDefault && !seen.has(node.id); node = node.parentId ? byId.get(node.parentId) : undefined) {
+      seen.add(node.id);
+      segments.unshift(node.slug);
+    }
+    paths.set(page.id, `/${segments.join('/')}`);
+  }
+  return paths;
+}
+
+/**
+ * Datos de enrutado en el formato del editor: el clientId hace de id y el padre se referencia también por clientId
+ */
+export function pageRoutingView(pages: Pick<Page, 'id' | 'clientId' | 'slug' | 'position' | 'parentId' | 'isDefault'>[]) {
+  const paths = pagePaths(pages);
+  const clientIds = new Map(pages.map(page => [page.id, page.clientId]));
+  return pages.map(page => ({
+    id: page.clientId,
+    slug: page.slug,
+    path: paths.get(page.id)!,
+    position: page.position,
+    parentId: page.parentId ? clientIds.get(page.parentId) ?? null : null,
+    isDefault: page.isDefault,
+  }));
+}
+
+/**
+ * Indica si asignar `parentId` como padre de `pageId` formaría un ciclo (incluido ser su propio padre)
+ */
+export function createsCycle(pages: Pick<PageNode, 'id' | 'parentId'>[], pageId: string, parentId: string | null): boolean {
+  const parents = new Map(pages.map(page => [page.id, page.parentId]));
+  const seen = new Set<string>();
+  for (let current = parentId; current; current = parents.get(current) ?? null) {
+    if (current === pageId || seen.has(current)) return true;
+    seen.add(current);
+  }
+  return false;
+}
+
+/**
+ * Ordena las páginas para que cada padre se cree antes que sus hijos (necesario al copiar árboles con IDs nuevos)
+ */
+export function parentsFirst<T extends { id: string; parentId: string | null }>(pages: T[]): T[] {
+  const ids = new Set(pages.map(page => page.id));
+  const placed = new Set<string>();
+  const result: T[] = [];
+  let pending = pages;
+  while (pending.length) {
+    const next = pending.filter(page => page.parentId && ids.has(page.parentId) && !placed.has(page.parentId));
+    const ready = pending.filter(page => !next.includes(page));
+    // Un ciclo (datos corruptos) se rompe colocando el resto tal cual
+    if (!ready.length) return [...result, ...pending];
+    for (const page of ready) {
+      placed.add(page.id);
+      result.push(page);
+    }
+    pending = next;
+  }
+  return result;
+}
+
+/**
+ * Padres válidos para un árbol de páginas que llega de fuera (importación): se descartan los padres inexistentes
+ * y los que cerrarían un ciclo, dejando esas páginas en la raíz.
+ */
+export function sanitizeParents<T extends { id: string; parentId?: string | null }>(pages: T[]): Map<string, string | null> {
+  const requested = new Map(pages.map(page => [page.id, page.parentId ?? null]));
+  const accepted: { id: string; parentId: string | null }[] = pages.map(page => ({ id: page.id, parentId: null }));
+  for (const node of accepted) {
+    const parentId = requested.get(node.id) ?? null;
+    if (parentId && requested.has(parentId) && !createsCycle(accepted, node.id, parentId)) node.parentId = parentId;
+  }
+  return new Map(accepted.map(node => [node.id, node.parentId]));
+}
+
+/**
+ * Slugs únicos para un conjunto de páginas nuevas: se respetan los indicados (si son válidos y no se repiten)
+ * y el resto se genera a partir del nombre.
+ */
+export function assignPageSlugs(pages: { name: string; slug?: string | null }[]): string[] {
+  const used = new Set<string>();
+  const slugs = pages.map(page => {
+    if (!page.slug || !pageSlugSchema.safeParse(page.slug).success || used.has(page.slug)) return null;
+    used.add(page.slug);
+    return page.slug;
+  });
+  return slugs.map((slug, index) => {
+    if (slug) return slug;
+    const base = slugify(pages[index].name).slice(0, 90) || 'page';
+    let candidate = base;
+    for (let n = 2; used.has(candidate); n++) candidate = `${base}-${n}`;
+    used.add(candidate);
+    return candidate;
+  });
+}
+
+export async function isPageSlugTaken(projectId: string, slug: string, excludeId?: string): Promise<boolean> {
+  const page = await prisma.page.findFirst({
+    where: { projectId, slug, ...(excludeId ? { id: { not: excludeId } } : {}) },
+    select: { id: true },
+  });
+  return !!page;
+}
+
+/**
+ * Slug libre en el proyecto a partir de un texto (normalmente el nombre): 'contacto', 'contacto-2', ...
+ * Tiene en cuenta también las páginas eliminadas, que conservan su slug para poder restaurarlas.
+ */
+export async function uniquePageSlug(projectId: string, text: string, excludeId?: string): Promise<string> {
+  const base = slugify(text).slice(0, 90) || 'page';
+  const taken = await prisma.page.findMany({
+    where: { projectId, slug: { startsWith: base }, ...(excludeId ? { id: { not: excludeId } } : {}) },
+    select: { slug: true },
+  });
+  const used = new Set(taken.map(page => page.slug));
+  let slug = base;
+  for (let n = 2; used.has(slug); n++) slug = `${base}-${n}`;
+  return slug;
+}
+
+// Posición para una página nueva: al final de sus hermanas
+export async function nextPagePosition(projectId: string, parentId: string | null = null): Promise<number> {
+  const last = await prisma.page.findFirst({
+    where: { projectId, parentId, isDeleted: false },
+    orderBy: { position: 'desc' },
+    select: { position: true },
+  });
+  return last ? last.position + 1 : 0;
+}
+
+export type ReorderResult =
+  | { status: 'reordered'; pages: Awaited<ReturnType<typeof listOrderedPages>> }
+  | { status: 'invalid'; code: 'PAGE_NOT_FOUND' | 'PAGE_PARENT_CYCLE' };
+
+export async function listOrderedPages(projectId: string) {
+  return prisma.page.findMany({ where: { projectId, isDeleted: false }, orderBy: PAGE_ORDER });
+}
+
+/**
+ * Aplica posiciones y padres de varias páginas en una sola transacción.
+ * Todas deben ser páginas no eliminadas del proyecto y el árbol resultante no puede tener ciclos.
+ */
+export async function reorderPages(projectId: string, items: PageReorderItem[]): Promise<ReorderResult> {
+  const pages = await prisma.page.findMany({
+    where: { projectId, isDeleted: false },
+    select: { id: true, parentId: true },
+  });
+  const ids = new Set(pages.map(page => page.id));
+  for (const item of items) {
+    if (!ids.has(item.id) || (item.parentId && !ids.has(item.parentId))) {
+      return { status: 'invalid', code: 'PAGE_NOT_FOUND' };
+    }
+  }
+  // Se comprueban los ciclos sobre el árbol ya modificado
+  const changes = new Map(items.map(item => [item.id, item]));
+  const tree = pages.map(page => {
+    const change = changes.get(page.id);
+    return { id: page.id, parentId: change && change.parentId !== undefined ? change.parentId : page.parentId };
+  });
+  if (tree.some(page => createsCycle(tree, page.id, page.parentId))) {
+    return { status: 'invalid', code: 'PAGE_PARENT_CYCLE' };
+  }
+  await prisma.$transaction(
+    items.map(item =>
+      prisma.page.update({
+        where: { id: item.id },
+        data: { position: item.position, ...(item.parentId !== undefined ? { parentId: item.parentId } : {}) },
+      })
+    )
+  );
+  return { status: 'reordered', pages: await listOrderedPages(projectId) };
+}
+
+/**
+ * Al eliminar una página sus hijas suben un nivel (pasan al padre de la eliminada)
+ */
+export async function detachChildren(page: { id: string; parentId: string | null }) {
+  await prisma.page.updateMany({ where: { parentId: page.id }, data: { parentId: page.parentId } });
+}
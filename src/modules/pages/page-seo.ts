@@ -0,0 +1,144 @@
+import type { Prisma } from '@prisma/client';
+import { z } from 'zod';
+
+const httpUrl = z
+  .string()
+  .trim()
+  .max(2048)
+  .url()
+  .refine(url => /^https?:\/\//i.test(url), 'Must be an http(s) URL');
+
+const text = (max: number) => z.string().trim().min(1).max(max);
+
+// Metadatos SEO y sociales de una página; todos los campos son opcionales y se rellenan con valores por defecto al renderizar
+export const pageSeoSchema = z
+  .object({
+    title: text(200).optional(),
+    description: text(500).optional(),
+    canonicalUrl: httpUrl.optional(),
+    robots: z.object({ noindex: z.boolean().optional(), nofollow: z.boolean().optional() }).strict().optional(),
+    openGraph: z
+      .object({
+        title: text(200).optional(),
+        description: text(500).optional(),
+        image: httpUrl.optional(),
+        type: z.enum(['website', 'article', 'profile']).optional(),
+      })
+      .strict()
+      .optional(),
+    twitter: z
+      .object({
+        card: z.enum(['summary', 'summary_large_image']).optional(),
+        title: text(200).optional(),
+        description: text(500).optional(),
+        image: httpUrl.optional(),
+        site: z.string().regex(/^@\w{1,15}$/, 'Invalid Twitter handle').optional(),
+      })
+      .strict()
+      .optional(),
+    // Fragmento libre que se inserta al final del <head> (analytics, fuentes, verificación de buscadores...)
+    headHtml: z
+      .string()
+      .max(10_000)
+      .refine(html => !/<\/head|<body/i.test(html), 'Head snippet cannot close <head> or open <body>')
+      .optional(),
+  })
+  .strict();
+
+export type PageSeo = z.infer<typeof pageSeoSchema>;
+
+/**
+ * Lee los metadatos guardados; devuelve null si no hay o si no cumplen el esquema (datos antiguos o importados)
+ */
+export function parsePageSeo(value: Prisma.JsonValue | null | undefined): PageSeo | null {
+  if (value === null || value === undefined) return null;
+  const parse = pageSeoSchema.safeParse(value);
+  return parse.success ? parse.data : null;
+}
+
+export const isIndexable = (seo: PageSeo | null) => !seo?.robots?.noindex;
+
+/**
+ * Valor a guardar a partir de lo recibido en la API: null borra los metadatos (se guarda {} porque Json? no admite null directo)
+ */
+export function pageSeoInput(value: unknown): { success: true; data: PageSeo } | { success: false; error: z.ZodError } {
+  if (value === null) return { success: true, data: {} };
+  const parse = pageSeoSchema.safeParse(value);
+  return parse.success ? { success: true, data: parse.data } : { success: false, error: parse.error };
+}
+
+const escapeAttribute = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const meta = (attribute: 'name' | 'property', key: string, content: string | undefined) =>
+  content ? [`<meta ${attribute}="${key}" content="${escapeAttribute(content)}">`] : [];
+
+/**
+ * Etiquetas del <head> de una página: título, descripción, canonical, robots, Open Graph, Twitter y el fragmento propio.
+ * `defaults.url` es la URL pública de la página, si se conoce, y sirve de canonical y og:url por defecto.
+ */
+export function renderSeoHead(seo: PageSeo | null, defaults: { title: string; url?: string }): string[] {
+  const title = seo?.title ?? defaults.title;
+  const canonical = seo?.canonicalUrl ?? defaults.url;
+  const robots = [seo?.robots?.noindex && 'noindex', seo?.robots?.nofollow && 'nofollow'].filter(Boolean).join(', ');
+  const lines = [
+    `<title>${escapeAttribute(title)}</title>`,
+    ...meta('name', 'description', seo?.description),
+    ...(canonical ? [`<link rel="canonical" href="${escapeAttribute(canonical)}">`] : []),
+    ...meta('name', 'robots', robots),
+  ];
+  if (!seo || !Object.keys(seo).length) return lines;
+
+  const og = seo.openGraph ?? {};
+  const twitter = seo.twitter ?? {};
+  const image = og.image ?? twitter.image;
+  return [
+    ...lines,
+    ...meta('property', 'og:type', og.type ?? 'website'),
+    ...meta('property', 'og:title', og.title ?? title),
+    ...meta('property', 'og:description', og.description ?? seo.description),
+    ...meta('property', 'og:image', og.image),
+    ...meta('property', 'og:url', canonical),
+    ...meta('name', 'twitter:card', twitter.card ?? (image ? 'summary_large_image' : 'summary')),
+    ...meta('name', 'twitter:title', twitter.title ?? og.title ?? title),
+    ...meta('name', 'twitter:description', twitter.description ?? og.description ?? seo.description),
+    ...meta('name', 'twitter:image', twitter.image ?? og.image),
+    ...meta('name', 'twitter:site', twitter.site),
+    ...(seo.headHtml ? [seo.headHtml] : []),
+  ];
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+/**
+ * sitemap.xml con las URLs absolutas de las páginas indexables
+ */
+export function buildSitemap(entries: { url: string; lastModified?: Date }[]): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...entries.map(entry =>
+      [
+        '  <url>',
+        `    <loc>${escapeXml(entry.url)}</loc>`,
+        ...(entry.lastModified ? [`    <lastmod>${entry.lastModified.toISOString()}</lastmod>`] : []),
+        '  </url>',
+      ].join('\n')
+    ),
+    '</urlset>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * robots.txt: bloquea las rutas marcadas como noindex y enlaza el sitemap si se conoce su URL
+ */
+export function buildRobotsTxt(options: { disallow: string[]; sitemapUrl?: string }): string {
+  return [
+    'User-agent: *',
+    ...(options.disallow.length ? options.disallow.map(path => `Disallow: ${path}`) : ['Disallow:']),
+    ...(options.sitemapUrl ? ['', `Sitemap: ${options.sitemapUrl}`] : []),
+    '',
+  ].join('\n');
+}
@@ -1,17 +1,65 @@
-import { Router } from 'express';
+import { Router, Request } from 'express';
 import { PrismaClient } from '@prisma/client';
-import { authMiddleware } from '../../middlewares/authMiddleware';
-// import { projectAccessMiddleware } from '../../middlewares/project-access';
-// import { checkProjectPermission } from '../../utils/permission';
+import { authMiddleware } from '../auth/auth.middleware';
+import { requireScope } from '../../middlewares/token-scope';
+import { checkProjectPermission } from '../../utils/permission';
+import {
+  PAGE_ORDER,
+  createsCycle,
+  detachChildren,
+  isPageSlugTaken,
+  nextPagePosition,
+  pagePaths,
+  pageReorderSchema,
+  pageRoutingView,
+  pageSlugSchema,
+  reorderPages,
+  uniquePageSlug
+} from './page-routing';
+import { pageSeoInput } from './page-seo';
+import { discardInlineAssets, extractInlineAssets } from '../assets/inline-assets';
+import { checkDesignSize, checkPageQuota, quotaStatus } from '../quotas/quota.service';
+import type { QuotaCode } from '../quotas/quota.service';
+import { broadcastPageEvent, broadcastPageOrder } from './pages.socket';
 
 const prisma = new PrismaClient();
 const router = Router();
 
+// Opciones de acceso: token de enlace opcional (?token=) y si la sesión verificó 2FA
+const getAccessOptions = (req: Request) => ({
+  linkToken: typeof req.query.token === 'string' ? req.query.token : undefined,
+  twoFactor: req.user?.twoFactor,
+});
+
+// Mensajes de los errores de enrutado (el código permite distinguirlos en el cliente)
+const ROUTING_ERRORS = {
+  PAGE_SLUG_INVALID: 'El slug solo puede contener minúsculas, números y guiones',
+  PAGE_SLUG_TAKEN: 'Ya existe una página con este slug en el proyecto',
+  PAGE_NOT_FOUND: 'La página padre no existe en el proyecto',
+  PAGE_PARENT_CYCLE: 'Una página no puede anidarse dentro de sí misma',
+  PAGE_POSITION_INVALID: 'La posición debe ser un entero mayor o igual que 0',
+} as const;
+
+const routingError = (code: keyof typeof ROUTING_ERRORS) => ({ error: ROUTING_ERRORS[code], code });
+
+// Mensajes de los límites del plan (402 al agotarlos, 413 si el contenido es demasiado grande)
+const QUOTA_MESSAGES: Record<QuotaCode, string> = {
+  QUOTA_PROJECTS_EXCEEDED: 'Se alcanzó el límite de proyectos del plan',
+  QUOTA_PAGES_EXCEEDED: 'Se alcanzó el límite de páginas por proyecto del plan',
+  QUOTA_STORAGE_EXCEEDED: 'Se alcanzó el límite de almacenamiento del plan',
+  QUOTA_DESIGN_TOO_LARGE: 'El contenido de la página supera el tamaño máximo del plan',
+};
+
+const quotaErrorBody = (check: { code: QuotaCode; limit: number }) => ({ error: QUOTA_MESSAGES[check.code], code: check.code, limit: check.limit });
+
+const isValidPosition = (position: unknown): position is number =>
+  typeof position === 'number' && Number.isInteger(position) && position >= 0;
+
 /**
  * @swagger
  * /api/pages:
  *   get:
- *     summary: Obtiene todas las páginas de un proyecto
+ *     summary: Obtiene todas las páginas de un proyecto, ordenadas por posición y con su ruta pública
  *     tags: [Pages]
  *     security:
  *       - bearerAuth: []
@@ -30,7 +78,7 @@ const router = Router();
  *       404:
  *         description: Proyecto no encontrado
  */
-router.get('/', authMiddleware, async (req, res) => {
+router.get('/', authMiddleware, requireScope('pages:read'), async (req, res) => {
   const { projectId } = req.query;
 
   if (!projectId) {
@@ -39,15 +87,15 @@ router.get('/', authMiddleware, async (req, res) => {
 
   try {
     // Verificar acceso al proyecto
-    // const hasAccess = await checkProjectPermission(
-    //   req.user!.id,
-    //   projectId.toString(),
-    //   'read'
-    // );
-    // if (!hasAccess) {
-    //   return res.status(403).json({ error: 'No tienes permisos para este proyecto' });
-    // }
-    const hasAccess = true; // TEMPORARY: Assume access for now
+    const hasAccess = await checkProjectPermission(
+      req.user!.id,
+      projectId.toString(),
+      'read',
+      getAccessOptions(req)
+    );
+    if (!hasAccess) {
+      return res.status(403).json({ error: 'No tienes permisos para este proyecto' });
+    }
 
     // Obtener páginas no eliminadas
     const pages = await prisma.page.findMany({
@@ -55,12 +103,12 @@ router.get('/', authMiddleware, async (req, res) => {
         projectId: projectId.toString(),
         isDeleted: false
       },
-      orderBy: {
-        createdAt: 'asc'
-      }
+      orderBy: PAGE_ORDER
     });
 
-    return res.json(pages);
+    // Añadir la ruta pública de cada página ('/' para la principal)
+    const paths = pagePaths(pages);
+    return res.json(pages.map(page => ({ ...page, path: paths.get(page.id) })));
   } catch (error) {
     console.error('Error al obtener páginas:', error);
     return res.status(500).json({ error: 'Error al obtener páginas' });
@@ -90,7 +138,7 @@ router.get('/', authMiddleware, async (req, res) => {
  *       404:
  *         description: Página no encontrada
  */
-router.get('/:id', authMiddleware, async (req, res) => {
+router.get('/:id', authMiddleware, requireScope('pages:read'), async (req, res) => {
   const { id } = req.params;
 
   try {
@@ -105,15 +153,15 @@ router.get('/:id', authMiddleware, async (req, res) => {
     }
 
     // Verificar acceso al proyecto de la página
-    // const hasAccess = await checkProjectPermission(
-    //   req.user!.id,
-    //   page.projectId,
-    //   'read'
-    // );
-    // if (!hasAccess) {
-    //   return res.status(403).json({ error: 'No tienes permisos para acceder a esta página' });
-    // }
-    const hasAccess = true; // TEMPORARY: Assume access for now
+    const hasAccess = await checkProjectPermission(
+      req.user!.id,
+      page.projectId,
+      'read',
+      getAccessOptions(req)
+    );
+    if (!hasAccess) {
+      return res.status(403).json({ error: 'No tienes permisos para acceder a esta página' });
+    }
 
     return res.json(page);
   } catch (error) {
@@ -143,12 +191,25 @@ router.get('/:id', authMiddleware, async (req, res) => {
  *                 type: string
  *               clientId:
  *                 type: string
+ *               slug:
+ *                 type: string
+ *                 description: Segmento de URL; si se omite se genera a partir del nombre
+ *               parentId:
+ *                 type: string
+ *                 description: Página padre (ID de la base de datos)
+ *               position:
+ *                 type: integer
+ *                 description: Orden entre hermanas; por defecto al final
  *               html:
  *                 type: string
  *               css:
  *                 type: string
  *               components:
  *                 type: object
+ *               seo:
+ *                 type: object
+ *                 nullable: true
+ *                 description: Metadatos SEO { title, description, canonicalUrl, robots, openGraph, twitter, headHtml }
  *               isDefault:
  *                 type: boolean
  *     responses:
@@ -158,25 +219,41 @@ router.get('/:id', authMiddleware, async (req, res) => {
  *         description: Datos inválidos
  *       401:
  *         description: No autorizado
+ *       402:
+ *         description: Se alcanzó el límite de páginas del plan (code QUOTA_PAGES_EXCEEDED)
+ *       409:
+ *         description: El clientId o el slug ya existen en el proyecto (code PAGE_SLUG_TAKEN)
+ *       413:
+ *         description: El contenido supera el tamaño máximo del plan (code QUOTA_DESIGN_TOO_LARGE)
  */
-router.post('/', authMiddleware, async (req, res) => {
-  const { projectId, name, clientId, html, css, components, isDefault } = req.body;
+router.post('/', authMiddleware, requireScope('pages:write'), async (req, res) => {
+  const { projectId, name, clientId, html, css, components, isDefault, slug, parentId, position } = req.body;
+  const seo = req.body.seo === undefined ? undefined : pageSeoInput(req.body.seo);
 
   if (!projectId || !name || !clientId) {
     return res.status(400).json({ error: 'Se requieren projectId, name y clientId' });
   }
+  if (slug !== undefined && !pageSlugSchema.safeParse(slug).success) {
+    return res.status(400).json(routingError('PAGE_SLUG_INVALID'));
+  }
+  if (position !== undefined && !isValidPosition(position)) {
+    return res.status(400).json(routingError('PAGE_POSITION_INVALID'));
+  }
+  if (seo && !seo.success) {
+    return res.status(400).json({ error: seo.error.errors, code: 'PAGE_SEO_INVALID' });
+  }
 
   try {
     // Verificar acceso al proyecto
-    // const hasAccess = await checkProjectPermission(
-    //   req.user!.id,
-    //   projectId,
-    //   'write'
-    // );
-    // if (!hasAccess) {
-    //   return res.status(403).json({ error: 'No tienes permisos para crear páginas en este proyecto' });
-    // }
-    const hasAccess = true; // TEMPORARY: Assume access for now
+    const hasAccess = await checkProjectPermission(
+      req.user!.id,
+      projectId,
+      'write',
+      getAccessOptions(req)
+    );
+    if (!hasAccess) {
+      return res.status(403).json({ error: 'No tienes permisos para crear páginas en este proyecto' });
+    }
 
     // Verificar si ya existe una página con el mismo clientId en el proyecto
     const existingPage = await prisma.page.findFirst({
@@ -191,6 +268,25 @@ router.post('/', authMiddleware, async (req, res) => {
       return res.status(409).json({ error: 'Ya existe una página con este ID en el proyecto' });
     }
 
+    // Límites del plan: páginas por proyecto y tamaño del contenido
+    for (const quota of [await checkPageQuota(projectId), await checkDesignSize(projectId, [html, css, components])]) {
+      if (quota.status === 'exceeded') {
+        return res.status(quotaStatus(quota.code)).json(quotaErrorBody(quota));
+      }
+    }
+
+    // El slug explícito debe estar libre; si no se indica, se genera uno a partir del nombre
+    if (slug !== undefined && await isPageSlugTaken(projectId, slug)) {
+      return res.status(409).json(routingError('PAGE_SLUG_TAKEN'));
+    }
+
+    if (parentId) {
+      const parent = await prisma.page.findFirst({ where: { id: parentId, projectId, isDeleted: false } });
+      if (!parent) {
+        return res.status(400).json(routingError('PAGE_NOT_FOUND'));
+      }
+    }
+
     // Si esta es la página por defecto, actualizar otras páginas para que no sean predeterminadas
     if (isDefault) {
       await prisma.page.updateMany({
@@ -210,9 +306,13 @@ router.post('/', authMiddleware, async (req, res) => {
       data: {
         name,
         clientId,
+        slug: slug ?? await uniquePageSlug(projectId, name),
+        position: position ?? await nextPagePosition(projectId, parentId || null),
+        parent: parentId ? { connect: { id: parentId } } : undefined,
         html: html || null,
         css: css || null,
         components: components || null,
+        seo: seo?.data,
         isDefault: isDefault || false,
         project: {
           connect: { id: projectId }
@@ -223,6 +323,8 @@ router.post('/', authMiddleware, async (req, res) => {
       }
     });
 
+    await broadcastPageOrder(projectId);
+
     return res.status(201).json(newPage);
   } catch (error) {
     console.error('Error al crear página:', error);
@@ -254,12 +356,24 @@ router.post('/', authMiddleware, async (req, res) => {
  *             properties:
  *               name:
  *                 type: string
+ *               slug:
+ *                 type: string
+ *               parentId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Nueva página padre (null para moverla a la raíz)
+ *               position:
+ *                 type: integer
  *               html:
  *                 type: string
  *               css:
  *                 type: string
  *               components:
  *                 type: object
+ *               seo:
+ *                 type: object
+ *                 nullable: true
+ *                 description: Metadatos SEO { title, description, canonicalUrl, robots, openGraph, twitter, headHtml }
  *               isDefault:
  *                 type: boolean
  *     responses:
@@ -271,10 +385,25 @@ router.post('/', authMiddleware, async (req, res) => {
  *         description: No autorizado
  *       404:
  *         description: Página no encontrada
+ *       409:
+ *         description: El slug ya existe en el proyecto (code PAGE_SLUG_TAKEN)
+ *       413:
+ *         description: El contenido supera el tamaño máximo del plan (code QUOTA_DESIGN_TOO_LARGE)
  */
-router.put('/:id', authMiddleware, async (req, res) => {
+router.put('/:id', authMiddleware, requireScope('pages:write'), async (req, res) => {
   const { id } = req.params;
-  const { name, html, css, components, isDefault } = req.body;
+  const { name, html, css, components, isDefault, slug, parentId, position } = req.body;
+  const seo = req.body.seo === undefined ? undefined : pageSeoInput(req.body.seo);
+
+  if (slug !== undefined && !pageSlugSchema.safeParse(slug).success) {
+    return res.status(400).json(routingError('PAGE_SLUG_INVALID'));
+  }
+  if (position !== undefined && !isValidPosition(position)) {
+    return res.status(400).json(routingError('PAGE_POSITION_INVALID'));
+  }
+  if (seo && !seo.success) {
+    return res.status(400).json({ error: seo.error.errors, code: 'PAGE_SEO_INVALID' });
+  }
 
   try {
     // Obtener la página para verificar permisos
@@ -288,22 +417,65 @@ router.put('/:id', authMiddleware, async (req, res) => {
     }
 
     // Verificar acceso al proyecto
-    // const hasAccess = await checkProjectPermission(
-    //   req.user!.id,
-    //   page.projectId,
-    //   'write'
-    // );
-    // if (!hasAccess) {
-    //   return res.status(403).json({ error: 'No tienes permisos para modificar esta página' });
-    // }
-    const hasAccess = true; // TEMPORARY: Assume access for now
+    const hasAccess = await checkProjectPermission(
+      req.user!.id,
+      page.projectId,
+      'write',
+      getAccessOptions(req)
+    );
+    if (!hasAccess) {
+      return res.status(403).json({ error: 'No tienes permisos para modificar esta página' });
+    }
 
+    const content: any = {};
+    if (name !== undefined) content.name = name;
+    if (html !== undefined) content.html = html;
+    if (css !== undefined) content.css = css;
+    if (components !== undefined) content.components = components;
     const updateData: any = {};
-    if (name !== undefined) updateData.name = name;
-    if (html !== undefined) updateData.html = html;
-    if (css !== undefined) updateData.css = css;
-    if (components !== undefined) updateData.components = components;
     if (isDefault !== undefined) updateData.isDefault = isDefault;
+    if (position !== undefined) updateData.position = position;
+    if (seo) updateData.seo = seo.data;
+
+    if (slug !== undefined && slug !== page.slug) {
+      if (await isPageSlugTaken(page.projectId, slug, id)) {
+        return res.status(409).json(routingError('PAGE_SLUG_TAKEN'));
+      }
+      updateData.slug = slug;
+    }
+
+    // Mover en el árbol: el padre debe existir en el proyecto y no puede ser la propia página ni una descendiente
+    if (parentId !== undefined && parentId !== page.parentId) {
+      if (parentId !== null) {
+        const siblings = await prisma.page.findMany({
+          where: { projectId: page.projectId, isDeleted: false },
+          select: { id: true, parentId: true }
+        });
+        if (!siblings.some(other => other.id === parentId)) {
+          return res.status(400).json(routingError('PAGE_NOT_FOUND'));
+        }
+        if (createsCycle(siblings, id, parentId)) {
+          return res.status(400).json(routingError('PAGE_PARENT_CYCLE'));
+        }
+      }
+      updateData.parentId = parentId;
+    }
+
+    // Las imágenes en base64 pasan a la biblioteca de assets una vez validado todo lo demás; la respuesta devuelve
+    // el contenido con las URLs. Si el contenido resultante no cabe en el plan, los assets nuevos se descartan
+    const inline = await extractInlineAssets(page.projectId, req.user!.id, content);
+    Object.assign(updateData, inline.fields);
+    if (html !== undefined || css !== undefined || components !== undefined) {
+      const size = await checkDesignSize(page.projectId, [
+        updateData.html ?? page.html,
+        updateData.css ?? page.css,
+        updateData.components ?? page.components,
+      ]);
+      if (size.status === 'exceeded') {
+        await discardInlineAssets(inline.created);
+        return res.status(quotaStatus(size.code)).json(quotaErrorBody(size));
+      }
+    }
 
     // Si esta página se está estableciendo como predeterminada, actualizar otras páginas
     if (isDefault) {
@@ -326,6 +498,10 @@ router.put('/:id', authMiddleware, async (req, res) => {
       data: updateData
     });
 
+    if (updateData.slug !== undefined || updateData.parentId !== undefined || position !== undefined || isDefault) {
+      await broadcastPageOrder(page.projectId);
+    }
+
     return res.json(updatedPage);
   } catch (error) {
     console.error('Error al actualizar página:', error);
@@ -356,7 +532,7 @@ router.put('/:id', authMiddleware, async (req, res) => {
  *       404:
  *         description: Página no encontrada
  */
-router.delete('/:id', authMiddleware, async (req, res) => {
+router.delete('/:id', authMiddleware, requireScope('pages:write'), async (req, res) => {
   const { id } = req.params;
 
   try {
@@ -371,15 +547,15 @@ router.delete('/:id', authMiddleware, async (req, res) => {
     }
 
     // Verificar acceso al proyecto
-    // const hasAccess = await checkProjectPermission(
-    //   req.user!.id,
-    //   page.projectId,
-    //   'write'
-    // );
-    // if (!hasAccess) {
-    //   return res.status(403).json({ error: 'No tienes permisos para eliminar esta página' });
-    // }
-    const hasAccess = true; // TEMPORARY: Assume access for now
+    const hasAccess = await checkProjectPermission(
+      req.user!.id,
+      page.projectId,
+      'write',
+      getAccessOptions(req)
+    );
+    if (!hasAccess) {
+      return res.status(403).json({ error: 'No tienes permisos para eliminar esta página' });
+    }
 
     // No permitir eliminar la única página predeterminada
     if (page.isDefault) {
@@ -403,6 +579,9 @@ router.delete('/:id', authMiddleware, async (req, res) => {
       }
     });
 
+    // Sus hijas pasan al padre de la página eliminada
+    await detachChildren(page);
+
     // Si la página eliminada era la predeterminada, establecer otra como predeterminada
     if (page.isDefault) {
       const anyPage = await prisma.page.findFirst({
@@ -421,6 +600,8 @@ router.delete('/:id', authMiddleware, async (req, res) => {
       }
     }
 
+    await broadcastPageOrder(page.projectId);
+
     return res.json({ success: true, message: 'Página eliminada correctamente' });
   } catch (error) {
     console.error('Error al eliminar página:', error);
@@ -428,6 +609,78 @@ router.delete('/:id', authMiddleware, async (req, res) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/pages/reorder:
+ *   post:
+ *     summary: Cambia la posición y el padre de varias páginas en una sola operación
+ *     tags: [Pages]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               projectId:
+ *                 type: string
+ *               pages:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                     position:
+ *                       type: integer
+ *                     parentId:
+ *                       type: string
+ *                       nullable: true
+ *     responses:
+ *       200:
+ *         description: Páginas del proyecto con el nuevo orden y sus rutas
+ *       400:
+ *         description: Datos inválidos, página inexistente (PAGE_NOT_FOUND) o ciclo en el árbol (PAGE_PARENT_CYCLE)
+ *       401:
+ *         description: No autorizado
+ */
+router.post('/reorder', authMiddleware, requireScope('pages:write'), async (req, res) => {
+  const parse = pageReorderSchema.safeParse(req.body);
+  if (!parse.success) {
+    return res.status(400).json({ error: parse.error.errors });
+  }
+  const { projectId, pages } = parse.data;
+
+  try {
+    // Verificar acceso al proyecto
+    const hasAccess = await checkProjectPermission(
+      req.user!.id,
+      projectId,
+      'write',
+      getAccessOptions(req)
+    );
+    if (!hasAccess) {
+      return res.status(403).json({ error: 'No tienes permisos para modificar páginas en este proyecto' });
+    }
+
+    const result = await reorderPages(projectId, pages);
+    if (result.status === 'invalid') {
+      return res.status(400).json(routingError(result.code));
+    }
+
+    // Notificar al editor colaborativo (IDs de cliente)
+    broadcastPageEvent(projectId, 'page:reorder', { projectId, pages: pageRoutingView(result.pages) });
+
+    const paths = pagePaths(result.pages);
+    return res.json(result.pages.map(page => ({ ...page, path: paths.get(page.id) })));
+  } catch (error) {
+    console.error('Error al reordenar páginas:', error);
+    return res.status(500).json({ error: 'Error al reordenar páginas' });
+  }
+});
+
 /**
  * @swagger
  * /api/pages/restore/{id}:
@@ -448,10 +701,12 @@ router.delete('/:id', authMiddleware, async (req, res) => {
  *         description: Página restaurada exitosamente
  *       401:
  *         description: No autorizado
+ *       402:
+ *         description: Se alcanzó el límite de páginas del plan (code QUOTA_PAGES_EXCEEDED)
  *       404:
  *         description: Página no encontrada
  */
-router.post('/restore/:id', authMiddleware, async (req, res) => {
+router.post('/restore/:id', authMiddleware, requireScope('pages:write'), async (req, res) => {
   const { id } = req.params;
 
   try {
@@ -466,15 +721,22 @@ router.post('/restore/:id', authMiddleware, async (req, res) => {
     }
 
     // Verificar acceso al proyecto
-    // const hasAccess = await checkProjectPermission(
-    //   req.user!.id,
-    //   page.projectId,
-    //   'write'
-    // );
-    // if (!hasAccess) {
-    //   return res.status(403).json({ error: 'No tienes permisos para restaurar esta página' });
-    // }
-    const hasAccess = true; // TEMPORARY: Assume access for now
+    const hasAccess = await checkProjectPermission(
+      req.user!.id,
+      page.projectId,
+      'write',
+      getAccessOptions(req)
+    );
+    if (!hasAccess) {
+      return res.status(403).json({ error: 'No tienes permisos para restaurar esta página' });
+    }
+
+    if (page.isDeleted) {
+      const quota = await checkPageQuota(page.projectId);
+      if (quota.status === 'exceeded') {
+        return res.status(quotaStatus(quota.code)).json(quotaErrorBody(quota));
+      }
+    }
 
     // Restaurar la página
     const restoredPage = await prisma.page.update({
@@ -484,6 +746,9 @@ router.post('/restore/:id', authMiddleware, async (req, res) => {
       }
     });
 
+    // La página vuelve al árbol: los editores conectados reciben el orden actualizado
+    await broadcastPageOrder(page.projectId);
+
     return res.json(restoredPage);
   } catch (error) {
     console.error('Error al restaurar página:', error);
@@ -520,7 +785,7 @@ router.post('/restore/:id', authMiddleware, async (req, res) => {
  *       404:
  *         description: Página no encontrada
  */
-router.get('/by-client-id/:clientId', authMiddleware, async (req, res) => {
+router.get('/by-client-id/:clientId', authMiddleware, requireScope('pages:read'), async (req, res) => {
   const { clientId } = req.params;
   const { projectId } = req.query;
 
@@ -530,15 +795,15 @@ router.get('/by-client-id/:clientId', authMiddleware, async (req, res) => {
 
   try {
     // Verificar acceso al proyecto
-    // const hasAccess = await checkProjectPermission(
-    //   req.user!.id,
-    //   projectId.toString(),
-    //   'read'
-    // );
-    // if (!hasAccess) {
-    //   return res.status(403).json({ error: 'No tienes permisos para este proyecto' });
-    // }
-    const hasAccess = true; // TEMPORARY: Assume access for now
+    const hasAccess = await checkProjectPermission(
+      req.user!.id,
+      projectId.toString(),
+      'read',
+      getAccessOptions(req)
+    );
+    if (!hasAccess) {
+      return res.status(403).json({ error: 'No tienes permisos para este proyecto' });
+    }
 
     // Buscar la página por clientId y projectId
     const page = await prisma.page.findFirst({
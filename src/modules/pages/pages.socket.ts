@@ -1,9 +1,16 @@
 import { Server, Socket } from 'socket.io';
 import { PrismaClient } from '@prisma/client';
-// import { checkProjectPermission } from '../projects/permissions.router'; // Commented out - Not exported
+import { checkProjectPermission } from '../../utils/permission';
+import { pageSeoInput } from './page-seo';
+import { discardInlineAssets, extractInlineAssets } from '../assets/inline-assets';
+import { checkDesignSize, checkPageQuota } from '../quotas/quota.service';
+import { PAGE_ORDER, detachChildren, listOrderedPages, nextPagePosition, pageReorderSchema, pageRoutingView, reorderPages, uniquePageSlug } from './page-routing';
 
 const prisma = new PrismaClient();
 
+// Socket con los datos que adjunta el middleware de autenticación de collab-socket
+type AuthenticatedSocket = Socket & { user?: { id: string; mfa?: boolean }; linkToken?: string };
+
 // Interfaces para tipado
 export interface PageData {
   id: string;
@@ -11,6 +18,7 @@ export interface PageData {
   html?: string;
   css?: string;
   components?: any;
+  seo?: unknown; // metadatos SEO (ver pageSeoSchema); null los borra
   isDefault?: boolean;
 }
 
@@ -24,17 +32,75 @@ export interface PageEventData {
   pageData?: PageData;
 }
 
+// Reordenación enviada por el editor (IDs de cliente)
+export interface PageReorderEventData {
+  projectId: string;
+  pages: { pageId: string; position: number; parentId?: string | null }[];
+}
+
 // Registro de páginas cargadas por proyecto y cliente
 const clientPages = new Map<string, Set<string>>();
 
+// Servidor registrado, para emitir eventos desde la API REST
+let pageServer: Server | null = null;
+
+/**
+ * Emite un evento a todos los clientes conectados al proyecto (no hace nada si el socket no está inicializado)
+ */
+export const broadcastPageEvent = (projectId: string, event: string, payload: unknown) => {
+  pageServer?.to(`project:${projectId}`).emit(event, payload);
+};
+
+/**
+ * Envía a todo el proyecto el orden y la jerarquía actuales de sus páginas
+ */
+export const broadcastPageOrder = async (projectId: string) => {
+  const pages = await listOrderedPages(projectId);
+  broadcastPageEvent(projectId, 'page:reorder', { projectId, pages: pageRoutingView(pages) });
+};
+
+/**
+ * Todas las páginas no eliminadas del proyecto en el formato de page:full-sync (clientId como id, con slug, ruta y padre)
+ */
+const fullSyncPages = async (projectId: string) => {
+  const pages = await prisma.page.findMany({
+    where: {
+      projectId,
+      isDeleted: false
+    },
+    orderBy: PAGE_ORDER
+  });
+  const routing = pageRoutingView(pages);
+  return pages.map((page, index) => ({
+    ...routing[index],
+    name: page.name,
+    html: page.html,
+    css: page.css,
+    components: page.components,
+    seo: page.seo
+  }));
+};
+
+/**
+ * Tras restaurar una versión: envía a todo el proyecto la sincronización completa de páginas y avisa también a la
+ * sala de colaboración (editor), que debe recargar el proyecto
+ */
+export const broadcastProjectResync = async (projectId: string, restored: { versionId: string, userId: string }) => {
+  const pages = await fullSyncPages(projectId);
+  broadcastPageEvent(projectId, 'page:full-sync', { pages });
+  const payload = { projectId, ...restored, timestamp: Date.now() };
+  pageServer?.to(`project:${projectId}`).to(projectId).emit('version:restored', payload);
+};
+
 /**
  * Registra controladores de socket para manejo de páginas
  * @param io Instancia del servidor Socket.IO
  */
 export const registerPageSocketHandlers = (io: Server) => {
   console.log('[Socket] Registrando controladores para páginas');
+  pageServer = io;
 
-  io.on('connection', (socket: Socket) => {
+  io.on('connection', (socket: AuthenticatedSocket) => {
     console.log(`[Socket] Cliente conectado: ${socket.id}`);
 
     // Almacenar projectId para uso en desconexión
@@ -42,21 +108,21 @@ export const registerPageSocketHandlers = (io: Server) => {
 
     // Unirse a un proyecto
     socket.on('join:project', async (data: { projectId: string, userId: string }) => {
-      const { projectId, userId } = data;
+      const { projectId } = data;
 
       if (!projectId) {
         return socket.emit('error', { message: 'Se requiere projectId' });
       }
 
       try {
-        // Verificar permisos del usuario en el proyecto
-        let hasAccess = true; // TEMPORARY: Assume access
-        // if (userId) {
-        //   hasAccess = await checkProjectPermission(userId, projectId, 'read');
-        //   if (!hasAccess) {
-        //     return socket.emit('error', { message: 'No tienes permisos para este proyecto' });
-        //   }
-        // }
+        // Verificar permisos del usuario autenticado en el handshake
+        const hasAccess = await checkProjectPermission(socket.user?.id, projectId, 'read', {
+          linkToken: socket.linkToken,
+          twoFactor: socket.user?.mfa
+        });
+        if (!hasAccess) {
+          return socket.emit('error', { message: 'No tienes permisos para este proyecto' });
+        }
 
         // Unir al socket a la sala del proyecto
         socket.join(`project:${projectId}`);
@@ -80,45 +146,26 @@ export const registerPageSocketHandlers = (io: Server) => {
 
     // Solicitud de sincronización de páginas
     socket.on('page:request-sync', async (data: { projectId: string, userId?: string }) => {
-      const { projectId, userId } = data;
+      const { projectId } = data;
 
       try {
-        // Verificar permisos si hay userId
-        let hasAccess = true; // TEMPORARY: Assume access
-        // if (userId) {
-        //   hasAccess = await checkProjectPermission(userId, projectId, 'read');
-        //   if (!hasAccess) {
-        //     return socket.emit('error', { message: 'No tienes permisos para este proyecto' });
-        //   }
-        // }
-
-        // Obtener todas las páginas no eliminadas del proyecto
-        const pages = await prisma.page.findMany({
-          where: {
-            projectId,
-            isDeleted: false
-          },
-          orderBy: {
-            createdAt: 'asc'
-          }
+        // Verificar permisos del usuario autenticado en el handshake
+        const hasAccess = await checkProjectPermission(socket.user?.id, projectId, 'read', {
+          linkToken: socket.linkToken,
+          twoFactor: socket.user?.mfa
         });
+        if (!hasAccess) {
+          return socket.emit('error', { message: 'No tienes permisos para este proyecto' });
+        }
 
-        // Mapear a formato simplificado para enviar
-        const pagesData = pages.map(page => ({
-          id: page.clientId, // Usar clientId como id para el frontend
-          name: page.name,
-          html: page.html,
-          css: page.css,
-          components: page.components,
-          isDefault: page.isDefault
-        }));
+        const pagesData = await fullSyncPages(projectId);
 
         // Registrar páginas cargadas por este cliente
         const clientKey = `${socket.id}:${projectId}`;
         const pageSet = clientPages.get(clientKey) || new Set<string>();
         
-        pages.forEach(page => {
-          pageSet.add(page.clientId);
+        pagesData.forEach(page => {
+          pageSet.add(page.id);
         });
         
         clientPages.set(clientKey, pageSet);
@@ -134,21 +181,21 @@ export const registerPageSocketHandlers = (io: Server) => {
 
     // Evento: agregar página
     socket.on('page:add', async (data: PageEventData) => {
-      const { projectId, pageId, pageName, userId, pageData } = data;
+      const { projectId, pageId, pageName, pageData } = data;
 
       if (!projectId || !pageId || !pageName) {
         return socket.emit('error', { message: 'Datos incompletos para agregar página' });
       }
 
       try {
-        // Verificar permisos si hay userId
-        let hasAccess = true; // TEMPORARY: Assume access
-        // if (userId) {
-        //   hasAccess = await checkProjectPermission(userId, projectId, 'write');
-        //   if (!hasAccess) {
-        //     return socket.emit('error', { message: 'No tienes permisos para crear páginas en este proyecto' });
-        //   }
-        // }
+        // Verificar permisos del usuario autenticado en el handshake
+        const hasAccess = await checkProjectPermission(socket.user?.id, projectId, 'write', {
+          linkToken: socket.linkToken,
+          twoFactor: socket.user?.mfa
+        });
+        if (!hasAccess) {
+          return socket.emit('error', { message: 'No tienes permisos para crear páginas en este proyecto' });
+        }
 
         // Verificar si la página ya existe en la base de datos
         const existingPage = await prisma.page.findFirst({
@@ -160,11 +207,23 @@ export const registerPageSocketHandlers = (io: Server) => {
         });
 
         if (!existingPage) {
-          // Crear la página en la base de datos
+          // Límites del plan: páginas por proyecto y tamaño del contenido
+          const pageQuota = await checkPageQuota(projectId);
+          if (pageQuota.status === 'exceeded') {
+            return socket.emit('error', { message: 'Se alcanzó el límite de páginas por proyecto del plan', code: pageQuota.code, limit: pageQuota.limit });
+          }
+          const size = await checkDesignSize(projectId, [pageData?.html, pageData?.css, pageData?.components]);
+          if (size.status === 'exceeded') {
+            return socket.emit('error', { message: 'El contenido de la página supera el tamaño máximo del plan', code: size.code, limit: size.limit });
+          }
+
+          // Crear la página en la base de datos, al final de la lista y con un slug libre
           await prisma.page.create({
             data: {
               clientId: pageId,
               name: pageName,
+              slug: await uniquePageSlug(projectId, pageName),
+              position: await nextPagePosition(projectId),
               html: pageData?.html || null,
               css: pageData?.css || null,
               components: pageData?.components || null,
@@ -178,7 +237,7 @@ export const registerPageSocketHandlers = (io: Server) => {
             }
           });
           
-          console.log(`[Socket] Página creada en BD: ${pageName} (${pageId}) por ${userId || 'anónimo'}`);
+          console.log(`[Socket] Página creada en BD: ${pageName} (${pageId}) por ${socket.user?.id || 'anónimo'}`);
         } else {
           console.log(`[Socket] La página ${pageId} ya existe en BD, actualizando`);
           
@@ -215,21 +274,21 @@ export const registerPageSocketHandlers = (io: Server) => {
 
     // Evento: eliminar página
     socket.on('page:remove', async (data: PageEventData) => {
-      const { projectId, pageId, userId } = data;
+      const { projectId, pageId } = data;
 
       if (!projectId || !pageId) {
         return socket.emit('error', { message: 'Datos incompletos para eliminar página' });
       }
 
       try {
-        // Verificar permisos si hay userId
-        let hasAccess = true; // TEMPORARY: Assume access
-        // if (userId) {
-        //   hasAccess = await checkProjectPermission(userId, projectId, 'write');
-        //   if (!hasAccess) {
-        //     return socket.emit('error', { message: 'No tienes permisos para eliminar páginas en este proyecto' });
-        //   }
-        // }
+        // Verificar permisos del usuario autenticado en el handshake
+        const hasAccess = await checkProjectPermission(socket.user?.id, projectId, 'write', {
+          linkToken: socket.linkToken,
+          twoFactor: socket.user?.mfa
+        });
+        if (!hasAccess) {
+          return socket.emit('error', { message: 'No tienes permisos para eliminar páginas en este proyecto' });
+        }
 
         // Buscar la página en la BD
         const page = await prisma.page.findFirst({
@@ -254,11 +313,12 @@ export const registerPageSocketHandlers = (io: Server) => {
             }
           }
 
-          // Marcar como eliminada
+          // Marcar como eliminada; sus hijas pasan al padre de la página
           await prisma.page.update({
             where: { id: page.id },
             data: { isDeleted: true }
           });
+          await detachChildren(page);
 
           console.log(`[Socket] Página marcada como eliminada: ${page.name} (${pageId})`);
 
@@ -300,21 +360,21 @@ export const registerPageSocketHandlers = (io: Server) => {
 
     // Evento: actualizar página
     socket.on('page:update', async (data: PageEventData) => {
-      const { projectId, pageId, pageName, userId, pageData } = data;
+      const { projectId, pageId, pageName, pageData } = data;
 
       if (!projectId || !pageId) {
         return socket.emit('error', { message: 'Datos incompletos para actualizar página' });
       }
 
       try {
-        // Verificar permisos si hay userId
-        let hasAccess = true; // TEMPORARY: Assume access
-        // if (userId) {
-        //   hasAccess = await checkProjectPermission(userId, projectId, 'write');
-        //   if (!hasAccess) {
-        //     return socket.emit('error', { message: 'No tienes permisos para modificar páginas en este proyecto' });
-        //   }
-        // }
+        // Verificar permisos del usuario autenticado en el handshake
+        const hasAccess = await checkProjectPermission(socket.user?.id, projectId, 'write', {
+          linkToken: socket.linkToken,
+          twoFactor: socket.user?.mfa
+        });
+        if (!hasAccess) {
+          return socket.emit('error', { message: 'No tienes permisos para modificar páginas en este proyecto' });
+        }
 
         // Buscar la página en la BD
         const page = await prisma.page.findFirst({
@@ -325,6 +385,7 @@ export const registerPageSocketHandlers = (io: Server) => {
           }
         });
 
+        let extracted = false;
         if (page) {
           const updateData: any = {};
           
@@ -332,6 +393,30 @@ export const registerPageSocketHandlers = (io: Server) => {
           if (pageData?.html !== undefined) updateData.html = pageData.html;
           if (pageData?.css !== undefined) updateData.css = pageData.css;
           if (pageData?.components !== undefined) updateData.components = pageData.components;
+          const seo = pageData?.seo === undefined ? undefined : pageSeoInput(pageData.seo);
+          if (seo && !seo.success) {
+            return socket.emit('error', { message: 'Metadatos SEO inválidos', details: seo.error.errors });
+          }
+          // Las imágenes en base64 pasan a la biblioteca de assets: se difunde el contenido ya reescrito.
+          // Si el contenido resultante no cabe en el plan, los assets nuevos se descartan
+          const inline = await extractInlineAssets(projectId, socket.user?.id ?? null, updateData);
+          if (updateData.html !== undefined || updateData.css !== undefined || updateData.components !== undefined) {
+            const size = await checkDesignSize(projectId, [
+              inline.fields.html ?? page.html,
+              inline.fields.css ?? page.css,
+              inline.fields.components ?? page.components
+            ]);
+            if (size.status === 'exceeded') {
+              await discardInlineAssets(inline.created);
+              return socket.emit('error', { message: 'El contenido de la página supera el tamaño máximo del plan', code: size.code, limit: size.limit });
+            }
+          }
+          if (inline.extracted > 0 || inline.signed > 0) {
+            Object.assign(updateData, inline.fields);
+            data = { ...data, pageData: { ...pageData!, ...inline.fields } };
+            extracted = true;
+          }
+          if (seo) updateData.seo = seo.data;
           
           // Manejar cambio de página predeterminada
           if (pageData?.isDefault) {
@@ -364,12 +449,64 @@ export const registerPageSocketHandlers = (io: Server) => {
 
         // Reenviar el evento a todos los clientes en el proyecto excepto al emisor
         socket.to(`project:${projectId}`).emit('page:update', data);
+        // El emisor también recibe las URLs de los assets extraídos para dejar de enviar los datos en línea
+        if (extracted) socket.emit('page:update', data);
       } catch (error) {
         console.error('[Socket] Error al actualizar página:', error);
         socket.emit('error', { message: 'Error al actualizar página' });
       }
     });
 
+    // Evento: reordenar o mover páginas en el árbol (IDs de cliente)
+    socket.on('page:reorder', async (data: PageReorderEventData) => {
+      // Se valida con el mismo esquema que POST /pages/reorder (el evento usa pageId en lugar de id)
+      const parse = pageReorderSchema.safeParse({
+        projectId: data?.projectId,
+        pages: Array.isArray(data?.pages) ? data.pages.map(item => ({ ...item, id: item?.pageId })) : data?.pages
+      });
+      if (!parse.success) {
+        return socket.emit('error', { message: 'Datos inválidos para reordenar páginas' });
+      }
+      const { projectId, pages } = parse.data;
+
+      try {
+        // Verificar permisos del usuario autenticado en el handshake
+        const hasAccess = await checkProjectPermission(socket.user?.id, projectId, 'write', {
+          linkToken: socket.linkToken,
+          twoFactor: socket.user?.mfa
+        });
+        if (!hasAccess) {
+          return socket.emit('error', { message: 'No tienes permisos para modificar páginas en este proyecto' });
+        }
+
+        // Traducir los IDs de cliente a IDs de la base de datos
+        const clientIds = pages.flatMap(item => (item.parentId ? [item.id, item.parentId] : [item.id]));
+        const existing = await prisma.page.findMany({
+          where: { projectId, clientId: { in: clientIds }, isDeleted: false },
+          select: { id: true, clientId: true }
+        });
+        const ids = new Map(existing.map(page => [page.clientId, page.id]));
+        if (pages.some(item => !ids.has(item.id) || (item.parentId && !ids.has(item.parentId)))) {
+          return socket.emit('error', { message: 'Página no encontrada' });
+        }
+
+        const result = await reorderPages(projectId, pages.map(item => ({
+          id: ids.get(item.id)!,
+          position: item.position,
+          parentId: item.parentId === undefined ? undefined : item.parentId === null ? null : ids.get(item.parentId)!
+        })));
+        if (result.status === 'invalid') {
+          return socket.emit('error', { message: 'Una página no puede anidarse dentro de sí misma' });
+        }
+
+        // Todos los clientes (incluido el emisor) reciben el orden resultante
+        broadcastPageEvent(projectId, 'page:reorder', { projectId, pages: pageRoutingView(result.pages) });
+      } catch (error) {
+        console.error('[Socket] Error al reordenar páginas:', error);
+        socket.emit('error', { message: 'Error al reordenar páginas' });
+      }
+    });
+
     // Evento: seleccionar página (solo retransmitir a otros clientes)
     socket.on('page:select', (data: PageEventData) => {
       const { projectId } = data;
@@ -0,0 +1,148 @@
+import { PrismaClient } from '@prisma/client';
+import { setAssetStorage } from '../../../utils/asset-storage';
+import { assetSignature } from '../../assets/asset.service';
+import { archiveAssetBytes, exportProjectArchive, importProjectArchive, projectArchiveSchema } from '../archive.service';
+
+// Mock de Prisma Client: $transaction ejecuta el callback con el mismo cliente
+const prisma = new PrismaClient();
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient: any = {
+    project: { findUnique: jest.fn(), create: jest.fn() },
+    projectVersion: { createMany: jest.fn() },
+    asset: { findFirst: jest.fn() },
+  };
+  mockPrismaClient.$executeRaw = jest.fn();
+  mockPrismaClient.$transaction = jest.fn((fn: (tx: any) => Promise<unknown>) => fn(mockPrismaClient));
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+const storage = { put: jest.fn(), get: jest.fn(), delete: jest.fn() };
+setAssetStorage(storage);
+
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret';
+
+// Cabecera PNG mínima de 3x2 píxeles
+const png = Buffer.alloc(24);
+png.writeUInt32BE(0x89504e47, 0);
+png.write('IHDR', 12, 'ascii');
+png.writeUInt32BE(3, 16);
+png.writeUInt32BE(2, 20);
+
+const source = {
+  id: 'source-id',
+  name: 'Landing',
+  description: null,
+  designData: { projectId: 'source-id', pages: [{ id: 'page-1' }] },
+  html: '<div></div>',
+  css: 'div{}',
+  js: null,
+  components: null,
+  assets: [{ src: 'img.png' }],
+  pages: [
+    { id: 'page-1', clientId: 'client-1', name: 'Home', html: '<p></p>', css: null, components: { page: 'page-1' }, isDefault: true },
+  ],
+  versions: [
+    { id: 'version-1', comment: 'Primera', createdAt: new Date('2025-01-01T00:00:00Z'), snapshot: { pageId: 'page-1' } },
+  ],
+  assetFiles: [],
+};
+
+afterEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('exportProjectArchive', () => {
+  it('genera un archivo válido que sólo incluye versiones si se piden', async () => {
+    (prisma.project.findUnique as jest.Mock).mockResolvedValue(source);
+
+    const archive = await exportProjectArchive('source-id', { includeVersions: true });
+    expect(projectArchiveSchema.safeParse(archive).success).toBe(true);
+    expect(archive?.versions).toEqual([
+      { id: 'version-1', comment: 'Primera', createdAt: '2025-01-01T00:00:00.000Z', snapshot: { pageId: 'page-1' } },
+    ]);
+
+    const { versions, ...withoutVersions } = source;
+    (prisma.project.findUnique as jest.Mock).mockResolvedValue(withoutVersions);
+    const light = await exportProjectArchive('source-id');
+    expect(light).not.toHaveProperty('versions');
+    expect(light?.manifest.includesVersions).toBe(false);
+  });
+});
+
+describe('importProjectArchive', () => {
+  it('recrea el proyecto con IDs nuevos, conserva clientId y reescribe las referencias', async () => {
+    (prisma.project.findUnique as jest.Mock).mockResolvedValue(source);
+    (prisma.project.create as jest.Mock).mockImplementation(({ data }) => Promise.resolve({ id: data.id }));
+    const archive = projectArchiveSchema.parse(await exportProjectArchive('source-id', { includeVersions: true }));
+
+    const project = await importProjectArchive(archive, 'user-id');
+
+    const { data } = (prisma.project.create as jest.Mock).mock.calls[0][0];
+    const newPageId = data.pages.create[0].id;
+    expect(project.id).not.toBe('source-id');
+    expect(newPageId).not.toBe('page-1');
+    expect(data).toMatchObject({
+      name: 'Landing',
+      ownerId: 'user-id',
+      html: '<div></div>',
+      assets: [{ src: 'img.png' }],
+      designData: { projectId: project.id, pages: [{ id: newPageId }] },
+      permissions: { create: [{ userId: 'user-id', role: 'admin' }] },
+    });
+    expect(data.components).toBeUndefined();
+    expect(data.pages.create[0]).toMatchObject({ clientId: 'client-1', components: { page: newPageId }, isDefault: true });
+    expect(prisma.projectVersion.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ projectId: project.id, comment: 'Primera', snapshot: { pageId: newPageId } })],
+    });
+  });
+
+  it('exporta la biblioteca de assets e importa una copia con las URLs reescritas', async () => {
+    const SOURCE_ID = '11111111-1111-1111-1111-111111111111';
+    const ASSET_ID = '22222222-2222-2222-2222-222222222222';
+    const url = `https://old-api.example.com/projects/${SOURCE_ID}/assets/${ASSET_ID}/content/${assetSignature({ id: ASSET_ID, projectId: SOURCE_ID })}`;
+    (prisma.project.findUnique as jest.Mock).mockResolvedValue({
+      ...source,
+      id: SOURCE_ID,
+      html: `<img src="${url}">`,
+      assetFiles: [
+        { id: ASSET_ID, name: 'logo.png', mimeType: 'image/png', storageKey: 'ab/abc' },
+        { id: 'missing', name: 'lost.png', mimeType: 'image/png', storageKey: 'cd/cde' },
+      ],
+    });
+    storage.get.mockImplementation(async (key: string) => (key === 'ab/abc' ? png : null));
+    (prisma.project.create as jest.Mock).mockImplementation(({ data }) => Promise.resolve({ id: data.id }));
+    (prisma.asset.findFirst as jest.Mock).mockResolvedValue(null);
+
+    const archive = projectArchiveSchema.parse(await exportProjectArchive(SOURCE_ID));
+    expect(archive.library).toEqual([{ id: ASSET_ID, name: 'logo.png', mimeType: 'image/png', data: png.toString('base64') }]);
+    expect(archiveAssetBytes(archive)).toBe(png.length);
+
+    await importProjectArchive(archive, 'user-id');
+
+    const { data } = (prisma.project.create as jest.Mock).mock.calls[0][0];
+    const [asset] = data.assetFiles.create;
+    expect(asset).toMatchObject({ name: 'logo.png', mimeType: 'image/png', size: png.length, width: 3, height: 2 });
+    expect(storage.put).toHaveBeenCalledWith(asset.storageKey, png, 'image/png');
+    const copyUrl = `http://localhost:4000/projects/${data.id}/assets/${asset.id}/content/${assetSignature({ id: asset.id, projectId: data.id })}`;
+    expect(data.html).toBe(`<img src="${copyUrl}">`);
+  });
+
+  it('libera el contenido importado si falla la creación del proyecto', async () => {
+    (prisma.project.create as jest.Mock).mockRejectedValue(new Error('db down'));
+    (prisma.asset.findFirst as jest.Mock).mockResolvedValue(null);
+    const archive = projectArchiveSchema.parse({
+      manifest: { format: 'project-archive', version: 1, exportedAt: '2025-01-01T00:00:00Z', source: { projectId: 'p', name: 'P' }, includesVersions: false },
+      project: { name: 'P', description: null, designData: null, html: null, css: null, js: null, components: null, assets: null },
+      pages: [],
+      library: [{ id: 'a', name: 'logo.png', mimeType: 'image/png', data: png.toString('base64') }],
+    });
+
+    await expect(importProjectArchive(archive, 'user-id')).rejects.toThrow('db down');
+    expect(storage.delete).toHaveBeenCalledWith(storage.put.mock.calls[0][0]);
+  });
+
+  it('rechaza archivos de otro formato o versión', () => {
+    const archive = { manifest: { format: 'project-archive', version: 99 }, project: {}, pages: [] };
+    expect(projectArchiveSchema.safeParse(archive).success).toBe(false);
+  });
+});
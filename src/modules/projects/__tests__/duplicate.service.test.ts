@@ -0,0 +1,135 @@
+import { PrismaClient } from '@prisma/client';
+import { assetSignature } from '../../assets/asset.service';
+import { duplicateProject, visibleTemplatesWhere } from '../duplicate.service';
+
+// Mock de Prisma Client: $transaction ejecuta el callback con el mismo cliente
+const prisma = new PrismaClient();
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient: any = {
+    project: { findUnique: jest.fn(), create: jest.fn() },
+    asset: { findMany: jest.fn(({ where }) => Promise.resolve(where.id.in.map((id: string) => ({ id })))) },
+  };
+  mockPrismaClient.$executeRaw = jest.fn();
+  mockPrismaClient.$transaction = jest.fn((fn: (tx: any) => Promise<unknown>) => fn(mockPrismaClient));
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret';
+
+const source = {
+  id: 'source-id',
+  name: 'Landing',
+  description: 'Descripción',
+  ownerId: 'owner-id',
+  designData: { pages: [] },
+  html: '<div></div>',
+  css: 'div{}',
+  js: null,
+  components: null,
+  assets: [{ src: 'img.png' }],
+  pages: [
+    { id: 'page-2', clientId: 'client-2', name: 'Equipo', slug: 'equipo', position: 0, parentId: 'page-1', html: null, css: null, components: null, isDefault: false },
+    { id: 'page-1', clientId: 'client-1', name: 'Home', slug: 'home', position: 0, parentId: null, html: '<p></p>', css: '', components: { a: 1 }, isDefault: true },
+  ],
+  assetFiles: [],
+};
+
+afterEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('duplicateProject', () => {
+  it('copia contenido y páginas con el mismo clientId para el nuevo owner', async () => {
+    (prisma.project.findUnique as jest.Mock).mockResolvedValue(source);
+    (prisma.project.create as jest.Mock).mockResolvedValue({ id: 'copy-id' });
+
+    await expect(duplicateProject('source-id', 'user-id')).resolves.toEqual({ id: 'copy-id' });
+
+    expect(prisma.project.findUnique).toHaveBeenCalledWith({
+      where: { id: 'source-id' },
+      include: { pages: { where: { isDeleted: false } }, assetFiles: true },
+    });
+    const { data } = (prisma.project.create as jest.Mock).mock.calls[0][0];
+    expect(data).toMatchObject({
+      name: 'Landing (copia)',
+      ownerId: 'user-id',
+      workspaceId: null,
+      designData: { pages: [] },
+      html: '<div></div>',
+      assets: [{ src: 'img.png' }],
+      permissions: { create: [{ userId: 'user-id', role: 'admin' }] },
+    });
+    expect(data.components).toBeUndefined();
+    // El padre se crea antes que su hija y la jerarquía apunta a los IDs nuevos
+    const [home, team] = data.pages.create;
+    expect(home).toEqual({
+      id: expect.any(String),
+      clientId: 'client-1',
+      name: 'Home',
+      slug: 'home',
+      position: 0,
+      parentId: null,
+      html: '<p></p>',
+      css: '',
+      components: { a: 1 },
+      isDefault: true,
+    });
+    expect(team).toMatchObject({ clientId: 'client-2', slug: 'equipo', parentId: home.id });
+    expect(home.id).not.toBe('page-1');
+  });
+
+  it('copia la biblioteca de assets y reescribe sus URLs a las de la copia', async () => {
+    const SOURCE_ID = '11111111-1111-1111-1111-111111111111';
+    const ASSET_ID = '22222222-2222-2222-2222-222222222222';
+    const url = `https://api.example.com/projects/${SOURCE_ID}/assets/${ASSET_ID}/content/${assetSignature({ id: ASSET_ID, projectId: SOURCE_ID })}`;
+    const external = 'https://cdn.example.com/logo.png';
+    const asset = { id: ASSET_ID, projectId: SOURCE_ID, name: 'logo.png', mimeType: 'image/png', size: 10, width: 3, height: 2, hash: 'abc', storageKey: 'ab/abc', uploadedById: 'owner-id' };
+    (prisma.project.findUnique as jest.Mock).mockResolvedValue({
+      ...source,
+      id: SOURCE_ID,
+      html: `<img src="${url}"><img src="${external}">`,
+      assets: [{ src: url }],
+      pages: [{ ...source.pages[1], css: `.a{background:url(${url})}` }],
+      assetFiles: [asset],
+    });
+    (prisma.project.create as jest.Mock).mockResolvedValue({ id: 'copy-id' });
+
+    await duplicateProject(SOURCE_ID, 'user-id');
+
+    const { data } = (prisma.project.create as jest.Mock).mock.calls[0][0];
+    const [copy] = data.assetFiles.create;
+    const { id, projectId, ...fields } = asset;
+    expect(copy).toEqual({ ...fields, id: expect.any(String) });
+    expect(copy.id).not.toBe(id);
+    const copyUrl = `http://localhost:4000/projects/${data.id}/assets/${copy.id}/content/${assetSignature({ id: copy.id, projectId: data.id })}`;
+    expect(data.html).toBe(`<img src="${copyUrl}"><img src="${external}">`);
+    expect(data.assets).toEqual([{ src: copyUrl }]);
+    expect(data.pages.create[0].css).toBe(`.a{background:url(${copyUrl})}`);
+  });
+
+  it('no copia los assets de origen borrados mientras se esperaba el bloqueo del contenido', async () => {
+    const asset = { id: 'asset-1', projectId: 'project-1', name: 'logo.png', mimeType: 'image/png', size: 10, width: 3, height: 2, hash: 'abc', storageKey: 'ab/abc', uploadedById: 'owner-id' };
+    (prisma.project.findUnique as jest.Mock).mockResolvedValue({ ...source, assetFiles: [asset] });
+    (prisma.asset.findMany as jest.Mock).mockResolvedValueOnce([]);
+    (prisma.project.create as jest.Mock).mockResolvedValue({ id: 'copy-id' });
+
+    await duplicateProject('project-1', 'user-id');
+
+    expect(prisma.$executeRaw).toHaveBeenCalledWith(expect.anything(), 'abc');
+    expect((prisma.project.create as jest.Mock).mock.calls[0][0].data.assetFiles.create).toEqual([]);
+  });
+
+  it('devuelve null si el proyecto de origen no existe', async () => {
+    (prisma.project.findUnique as jest.Mock).mockResolvedValue(null);
+
+    await expect(duplicateProject('missing', 'user-id', { name: 'Copia' })).resolves.toBeNull();
+    expect(prisma.project.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('visibleTemplatesWhere', () => {
+  it('oculta las plantillas con 2FA obligatorio a sesiones sin 2FA', () => {
+    expect(visibleTemplatesWhere('user-id')).toMatchObject({ isTemplate: true, requireTwoFactor: false });
+    expect(visibleTemplatesWhere('user-id', { twoFactor: true })).not.toHaveProperty('requireTwoFactor');
+  });
+});
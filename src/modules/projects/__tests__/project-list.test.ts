@@ -0,0 +1,43 @@
+import { buildProjectListArgs, projectListQuerySchema } from '../project-list';
+
+const parse = (query: Record<string, string>) => projectListQuerySchema.parse(query);
+
+describe('projectListQuerySchema', () => {
+  it('aplica valores por defecto', () => {
+    expect(parse({})).toEqual({ limit: 20, archived: 'false', role: 'all', sort: 'updatedAt', include: [] });
+  });
+
+  it('rechaza límites y campos desconocidos', () => {
+    expect(projectListQuerySchema.safeParse({ limit: '500' }).success).toBe(false);
+    expect(projectListQuerySchema.safeParse({ include: 'designData,passwordHash' }).success).toBe(false);
+  });
+});
+
+describe('buildProjectListArgs', () => {
+  it('excluye archivados y campos pesados por defecto', () => {
+    const args = buildProjectListArgs('user-id', parse({}));
+    expect(args.where.AND).toContainEqual({ isArchived: false });
+    expect(args.select).not.toHaveProperty('designData');
+    expect(args.select).not.toHaveProperty('html');
+    expect(args.orderBy).toEqual([{ updatedAt: 'desc' }, { id: 'desc' }]);
+    expect(args.take).toBe(21);
+  });
+
+  it('combina filtros, orden, cursor y campos pedidos', () => {
+    const args = buildProjectListArgs('user-id', parse({
+      role: 'owned', archived: 'all', q: 'landing', sort: 'name', cursor: 'project-9', include: 'designData,css', limit: '5',
+    }));
+    expect(args.where.AND).toEqual([
+      { ownerId: 'user-id' },
+      { name: { contains: 'landing', mode: 'insensitive' } },
+    ]);
+    expect(args.orderBy).toEqual([{ name: 'asc' }, { id: 'asc' }]);
+    expect(args).toMatchObject({ cursor: { id: 'project-9' }, skip: 1, take: 6 });
+    expect(args.select).toMatchObject({ designData: true, css: true });
+  });
+
+  it('shared excluye los proyectos propios', () => {
+    const args = buildProjectListArgs('user-id', parse({ role: 'shared' }));
+    expect(args.where.AND).toContainEqual({ ownerId: { not: 'user-id' } });
+  });
+});
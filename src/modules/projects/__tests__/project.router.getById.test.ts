@@ -40,7 +40,7 @@ describe('GET /projects/:id', () => {
     id: 'project-owned',
     name: 'Owned Project',
     ownerId: 'test-user-id', // El usuario de prueba es el propietario
-    permissions: [{ userId: 'another-user-id', permission: 'read' }],
+    permissions: [{ userId: 'another-user-id', role: 'viewer' }],
     linkAccess: 'none',
     linkToken: null,
     // ... otros campos necesarios
@@ -54,7 +54,7 @@ describe('GET /projects/:id', () => {
     id: 'project-collab',
     name: 'Collaborative Project',
     ownerId: 'owner-user-id', // Otro usuario es el propietario
-    permissions: [{ userId: 'test-user-id', permission: 'write' }], // El usuario de prueba es colaborador
+    permissions: [{ userId: 'test-user-id', role: 'editor' }], // El usuario de prueba es colaborador
     linkAccess: 'none',
     linkToken: null,
     // ... otros campos necesarios
@@ -68,7 +68,7 @@ describe('GET /projects/:id', () => {
     id: 'project-forbidden',
     name: 'Forbidden Project',
     ownerId: 'owner-user-id', // Otro usuario es el propietario
-    permissions: [{ userId: 'another-user-id', permission: 'read' }], // El usuario de prueba NO está aquí
+    permissions: [{ userId: 'another-user-id', role: 'viewer' }], // El usuario de prueba NO está aquí
     linkAccess: 'none',
     linkToken: null,
     // ... otros campos necesarios
@@ -0,0 +1,66 @@
+import request from 'supertest';
+import express, { Request as ExpressRequest, Response, NextFunction } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { projectRouter } from '../project.router';
+
+// Mock de Prisma Client
+const prisma = new PrismaClient();
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    project: { findUnique: jest.fn(), update: jest.fn() },
+  };
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+// Mock del middleware de autenticación: el usuario de prueba es editor del proyecto
+jest.mock('../../auth/auth.middleware', () => ({
+  authMiddleware: (req: ExpressRequest, res: Response, next: NextFunction) => {
+    req.user = { id: 'editor-id', email: 'editor@example.com', name: 'Editor' };
+    next();
+  },
+}));
+
+const app = express();
+app.use(express.json());
+app.use('/projects', projectRouter);
+
+const project = {
+  id: 'project-id',
+  name: 'Sitio',
+  ownerId: 'owner-id',
+  workspaceId: null,
+  deletedAt: null,
+  isArchived: false,
+  twoFactorRequired: false,
+  linkAccess: 'none',
+  linkToken: null,
+  permissions: [{ userId: 'editor-id', role: 'editor' }],
+};
+
+beforeEach(() => {
+  (prisma.project.findUnique as jest.Mock).mockResolvedValue(project);
+  (prisma.project.update as jest.Mock).mockImplementation(({ data }) => Promise.resolve({ ...project, ...data }));
+});
+
+afterEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('PATCH /projects/:id', () => {
+  it('ignora isArchived: archivar exige la capacidad archive', async () => {
+    const res = await request(app).patch('/projects/project-id').send({ name: 'Sitio nuevo', isArchived: true });
+
+    expect(res.status).toBe(200);
+    expect(res.body.isArchived).toBe(false);
+    expect(prisma.project.update).toHaveBeenCalledWith(expect.objectContaining({ data: { name: 'Sitio nuevo' } }));
+  });
+});
+
+describe('PATCH /projects/:id/archive', () => {
+  it('prohíbe archivar a un editor', async () => {
+    const res = await request(app).patch('/projects/project-id/archive').send({ isArchived: true });
+
+    expect(res.status).toBe(403);
+    expect(prisma.project.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,91 @@
+import { PrismaClient } from '@prisma/client';
+import { publishProject, rollbackPublication } from '../publication.service';
+
+// Mock de Prisma Client: $transaction ejecuta el callback con el mismo cliente
+const prisma = new PrismaClient();
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient: any = {
+    project: { findUnique: jest.fn() },
+    publication: { findUnique: jest.fn(), create: jest.fn(), update: jest.fn() },
+    siteRelease: { findFirst: jest.fn(), create: jest.fn() },
+  };
+  mockPrismaClient.$transaction = jest.fn((fn: (tx: any) => Promise<unknown>) => fn(mockPrismaClient));
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+const project = {
+  id: 'project-id',
+  name: 'Mi Sitio',
+  html: null,
+  css: 'h1{}',
+  js: null,
+  assets: null,
+  publication: null as null | { id: string; slug: string },
+  pages: [{ id: 'page-1', clientId: 'home', name: 'Inicio', html: '<h1>Hola</h1>', css: null, isDefault: true }],
+};
+
+afterEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('publishProject', () => {
+  it('crea la publicación con el slug del nombre y congela los archivos en un release', async () => {
+    (prisma.project.findUnique as jest.Mock).mockResolvedValue(project);
+    (prisma.publication.findUnique as jest.Mock).mockResolvedValue(null);
+    (prisma.publication.create as jest.Mock).mockResolvedValue({ id: 'pub-id', slug: 'mi-sitio' });
+    (prisma.siteRelease.findFirst as jest.Mock).mockResolvedValue(null);
+    (prisma.siteRelease.create as jest.Mock).mockResolvedValue({ id: 'release-1', number: 1, createdAt: new Date() });
+
+    const result = await publishProject('project-id', 'user-id');
+
+    expect(result).toMatchObject({ status: 'published', publication: { slug: 'mi-sitio' }, release: { number: 1 } });
+    expect(prisma.publication.create).toHaveBeenCalledWith({ data: { projectId: 'project-id', slug: 'mi-sitio' } });
+    const { data } = (prisma.siteRelease.create as jest.Mock).mock.calls[0][0];
+    expect(data).toMatchObject({ publicationId: 'pub-id', number: 1, createdById: 'user-id' });
+    const paths = data.files.create.map((file: { path: string }) => file.path);
+    expect(paths).toEqual(['index.html', 'styles.css', 'sitemap.xml', 'robots.txt']);
+    expect(data.files.create[0]).toMatchObject({ contentType: 'text/html; charset=utf-8', etag: expect.stringMatching(/^[0-9a-f]{64}$/) });
+    expect(prisma.publication.update).toHaveBeenCalledWith({ where: { id: 'pub-id' }, data: { currentReleaseId: 'release-1' } });
+  });
+
+  it('numera los releases siguientes a partir del último', async () => {
+    (prisma.project.findUnique as jest.Mock).mockResolvedValue({ ...project, publication: { id: 'pub-id', slug: 'mi-sitio' } });
+    (prisma.publication.update as jest.Mock).mockResolvedValue({ id: 'pub-id', slug: 'mi-sitio' });
+    (prisma.siteRelease.findFirst as jest.Mock).mockResolvedValue({ number: 4 });
+    (prisma.siteRelease.create as jest.Mock).mockResolvedValue({ id: 'release-5', number: 5, createdAt: new Date() });
+
+    await publishProject('project-id', 'user-id');
+
+    expect((prisma.siteRelease.create as jest.Mock).mock.calls[0][0].data.number).toBe(5);
+    expect(prisma.publication.create).not.toHaveBeenCalled();
+  });
+
+  it('rechaza un slug en uso por otro proyecto', async () => {
+    (prisma.project.findUnique as jest.Mock).mockResolvedValue(project);
+    (prisma.publication.findUnique as jest.Mock).mockResolvedValue({ id: 'other-pub', slug: 'ocupado' });
+
+    await expect(publishProject('project-id', 'user-id', { slug: 'ocupado' })).resolves.toEqual({ status: 'slug_taken' });
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('responde slug_taken si otro proyecto reclama el slug a la vez', async () => {
+    (prisma.project.findUnique as jest.Mock).mockResolvedValue(project);
+    (prisma.publication.findUnique as jest.Mock).mockResolvedValue(null);
+    (prisma.publication.create as jest.Mock).mockRejectedValue(
+      Object.assign(new Error('Unique constraint failed'), { code: 'P2002', meta: { target: ['slug'] } })
+    );
+
+    await expect(publishProject('project-id', 'user-id', { slug: 'ocupado' })).resolves.toEqual({ status: 'slug_taken' });
+  });
+});
+
+describe('rollbackPublication', () => {
+  it('sólo acepta releases del mismo proyecto', async () => {
+    (prisma.siteRelease.findFirst as jest.Mock).mockResolvedValue(null);
+    await expect(rollbackPublication('project-id', 'foreign-release')).resolves.toBe(false);
+    expect(prisma.siteRelease.findFirst).toHaveBeenCalledWith({
+      where: { id: 'foreign-release', publication: { projectId: 'project-id' } },
+    });
+    expect(prisma.publication.update).not.toHaveBeenCalled();
+  });
+});
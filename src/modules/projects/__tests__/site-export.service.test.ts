@@ -0,0 +1,111 @@
+import { buildSiteFiles, SitePageInput } from '../site-export.service';
+
+jest.mock('@prisma/client', () => ({ PrismaClient: jest.fn(() => ({})) }));
+
+const PNG_BASE64 = Buffer.from('png-bytes').toString('base64');
+
+const project = {
+  name: 'Mi sitio',
+  html: null,
+  css: '.global { color: red; }',
+  js: 'console.log("hola");',
+  assets: [{ src: 'https://cdn.example.com/logo.svg' }],
+};
+
+const pages: SitePageInput[] = [
+  {
+    id: 'page-1',
+    clientId: 'home',
+    name: 'Inicio',
+    html: `<a href="#contact-client">Contacto</a><img src="data:image/png;base64,${PNG_BASE64}"><img src="https://cdn.example.com/logo.svg">`,
+    css: '.home { margin: 0; }',
+    isDefault: true,
+  },
+  { id: 'page-2', clientId: 'contact-client', name: 'Contácto', html: '<a href="/home">Volver</a>', css: null, isDefault: false },
+];
+
+const byName = (files: { name: string; data: Buffer | string }[]) =>
+  Object.fromEntries(files.map(file => [file.name, file.data]));
+
+describe('buildSiteFiles', () => {
+  it('genera una página por Page, estilos compartidos, JS y assets con rutas relativas', async () => {
+    const fetchAsset = jest.fn().mockResolvedValue({ data: Buffer.from('<svg/>'), contentType: 'image/svg+xml' });
+    const files = byName(await buildSiteFiles(project, pages, { fetchAsset }));
+
+    expect(Object.keys(files).sort()).toEqual(expect.arrayContaining(['contacto.html', 'index.html', 'script.js', 'styles.css']));
+    const index = files['index.html'] as string;
+    expect(index).toContain('<link rel="stylesheet" href="styles.css">');
+    expect(index).toContain('<script src="script.js"></script>');
+    expect(index).toContain('href="contacto.html"');
+    expect(files['contacto.html']).toContain('href="index.html"');
+    expect(files['styles.css']).toBe('.global { color: red; }\n.home { margin: 0; }');
+
+    const assets = Object.keys(files).filter(name => name.startsWith('assets/'));
+    expect(assets).toHaveLength(2);
+    const png = assets.find(name => name.endsWith('.png'))!;
+    expect(files[png]).toEqual(Buffer.from('png-bytes'));
+    expect(index).toContain(`src="${png}"`);
+    expect(index).toContain(`src="${assets.find(name => name.endsWith('.svg'))}"`);
+    expect(fetchAsset).toHaveBeenCalledWith('https://cdn.example.com/logo.svg');
+  });
+
+  it('no descarga assets remotos por defecto', async () => {
+    const fetchSpy = jest.spyOn(global, 'fetch');
+    const files = byName(await buildSiteFiles(project, pages));
+
+    expect(fetchSpy).not.toHaveBeenCalled();
+    expect(files['index.html']).toContain('src="https://cdn.example.com/logo.svg"');
+    fetchSpy.mockRestore();
+  });
+
+  it('conserva la URL remota si el asset no se puede descargar y minifica si se pide', async () => {
+    const files = byName(await buildSiteFiles(project, pages, { minify: true, fetchAsset: async () => null }));
+    expect(files['index.html']).toContain('src="https://cdn.example.com/logo.svg"');
+    expect(files['index.html']).not.toContain('\n');
+    expect(files['styles.css']).toBe('.global{color:red}.home{margin:0}');
+  });
+
+  it('anida las páginas hijas en carpetas con rutas relativas y aplica sus metadatos SEO', async () => {
+    const tree: SitePageInput[] = [
+      { ...pages[0], html: '<a href="/nosotros/equipo">Equipo</a>' },
+      { id: 'page-3', clientId: 'about', name: 'Nosotros', slug: 'nosotros', html: '', css: null, isDefault: false },
+      {
+        id: 'page-4',
+        clientId: 'team',
+        name: 'Equipo',
+        slug: 'equipo',
+        parentId: 'page-3',
+        seo: { title: 'Nuestro equipo', description: 'Quiénes somos', robots: { noindex: true } },
+        html: `<a href="#home">Inicio</a><img src="data:image/png;base64,${PNG_BASE64}">`,
+        css: null,
+        isDefault: false,
+      },
+    ];
+    const files = byName(await buildSiteFiles(project, tree, { fetchAsset: async () => null, baseUrl: 'https://www.example.com' }));
+
+    expect(files['index.html']).toContain('href="nosotros/equipo.html"');
+    expect(files['index.html']).toContain('<link rel="canonical" href="https://www.example.com/">');
+    const team = files['nosotros/equipo.html'] as string;
+    expect(team).toContain('<title>Nuestro equipo</title>');
+    expect(team).toContain('<meta name="robots" content="noindex">');
+    expect(team).toContain('<meta property="og:url" content="https://www.example.com/nosotros/equipo">');
+    expect(team).toContain('href="../index.html"');
+    expect(team).toContain('<link rel="stylesheet" href="../styles.css">');
+    expect(team).toMatch(/src="\.\.\/assets\/[0-9a-f]{16}\.png"/);
+
+    expect(files['sitemap.xml']).toContain('<loc>https://www.example.com/nosotros</loc>');
+    expect(files['sitemap.xml']).not.toContain('equipo');
+    expect(files['robots.txt']).toBe('User-agent: *\nDisallow: /nosotros/equipo\n\nSitemap: https://www.example.com/sitemap.xml\n');
+  });
+
+  it('sin URL pública no genera sitemap.xml', async () => {
+    const files = byName(await buildSiteFiles(project, pages, { fetchAsset: async () => null }));
+    expect(files).not.toHaveProperty(['sitemap.xml']);
+    expect(files['robots.txt']).toBe('User-agent: *\nDisallow:\n');
+  });
+
+  it('usa el HTML del proyecto si no hay páginas', async () => {
+    const files = byName(await buildSiteFiles({ ...project, html: '<h1>Hola</h1>', assets: null }, []));
+    expect(files['index.html']).toContain('<h1>Hola</h1>');
+  });
+});
@@ -0,0 +1,154 @@
+import { PrismaClient } from '@prisma/client';
+import { SNAPSHOT_FORMAT, SNAPSHOT_VERSION, applyProjectSnapshot, captureProjectSnapshot, restoreProjectVersion } from '../snapshot.service';
+import type { ProjectSnapshot } from '../snapshot.service';
+
+// Mock de Prisma Client (las transacciones interactivas reciben el mismo cliente)
+const prisma = new PrismaClient();
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient: any = {
+    project: { findUnique: jest.fn(), update: jest.fn() },
+    page: { findMany: jest.fn(), update: jest.fn(), create: jest.fn() },
+    projectVersion: { findUnique: jest.fn(), create: jest.fn() },
+    $transaction: jest.fn((fn: (tx: unknown) => unknown) => fn(mockPrismaClient)),
+  };
+  return { PrismaClient: jest.fn(() => mockPrismaClient), Prisma: { DbNull: 'DbNull' } };
+});
+
+const PROJECT_ID = 'project-id';
+
+const project = {
+  id: PROJECT_ID,
+  name: 'Sitio',
+  description: null,
+  designData: { pages: [] },
+  html: '<main></main>',
+  css: 'main{}',
+  js: null,
+  components: null,
+  assets: null,
+};
+
+const snapshotPage = (clientId: string, slug: string, extra: Partial<ProjectSnapshot['pages'][number]> = {}) => ({
+  clientId,
+  name: clientId,
+  slug,
+  position: 0,
+  parentClientId: null,
+  html: `<p>${clientId}</p>`,
+  css: null,
+  components: null,
+  seo: null,
+  isDefault: false,
+  ...extra,
+});
+
+const snapshot = (pages: ProjectSnapshot['pages']): ProjectSnapshot => ({
+  format: SNAPSHOT_FORMAT,
+  version: SNAPSHOT_VERSION,
+  project: { ...project, designData: null },
+  pages,
+});
+
+afterEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('captureProjectSnapshot', () => {
+  it('captura el proyecto y sus páginas con el padre por clientId', async () => {
+    (prisma.project.findUnique as jest.Mock).mockResolvedValue({
+      ...project,
+      pages: [
+        { id: 'p1', clientId: 'home', name: 'Inicio', slug: 'inicio', position: 0, parentId: null, html: '', css: '', components: [], seo: { title: 'Inicio' }, isDefault: true },
+        { id: 'p2', clientId: 'team', name: 'Equipo', slug: 'equipo', position: 0, parentId: 'p1', html: null, css: null, components: null, seo: 'x', isDefault: false },
+      ],
+    });
+
+    const captured = await captureProjectSnapshot(PROJECT_ID);
+
+    expect(captured).toMatchObject({ format: SNAPSHOT_FORMAT, version: SNAPSHOT_VERSION, project: { name: 'Sitio', html: '<main></main>' } });
+    expect(captured!.pages).toEqual([
+      expect.objectContaining({ clientId: 'home', parentClientId: null, seo: { title: 'Inicio' }, isDefault: true }),
+      expect.objectContaining({ clientId: 'team', parentClientId: 'home', seo: null }),
+    ]);
+    expect(prisma.project.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+      include: { pages: expect.objectContaining({ where: { isDeleted: false } }) },
+    }));
+  });
+
+  it('devuelve null si el proyecto no existe', async () => {
+    (prisma.project.findUnique as jest.Mock).mockResolvedValue(null);
+
+    await expect(captureProjectSnapshot(PROJECT_ID)).resolves.toBeNull();
+  });
+});
+
+describe('applyProjectSnapshot', () => {
+  it('actualiza, restaura y recrea páginas y elimina las que no están en el snapshot', async () => {
+    (prisma.page.findMany as jest.Mock).mockResolvedValue([
+      { id: 'p1', clientId: 'home', slug: 'inicio' },
+      { id: 'p2', clientId: 'blog', slug: 'contacto' },
+      { id: 'p3', clientId: 'old', slug: 'viejo' },
+    ]);
+
+    await applyProjectSnapshot(prisma as any, PROJECT_ID, snapshot([
+      snapshotPage('home', 'inicio', { isDefault: true }),
+      snapshotPage('contact', 'contacto', { parentClientId: 'home' }),
+      snapshotPage('old', 'antiguo', { position: 1 }),
+    ]));
+
+    expect(prisma.project.update).toHaveBeenCalledWith({
+      where: { id: PROJECT_ID },
+      data: expect.objectContaining({ designData: 'DbNull', html: '<main></main>', components: 'DbNull' }),
+    });
+    // 'blog' no está en el snapshot: se elimina y cede el slug que ocupa
+    expect(prisma.page.update).toHaveBeenCalledWith({ where: { id: 'p2' }, data: { isDeleted: true, isDefault: false, slug: 'contacto-2' } });
+    // 'old' cambia de slug: primero uno temporal y después el del snapshot, restaurada si estaba eliminada
+    expect(prisma.page.update).toHaveBeenCalledWith({ where: { id: 'p3' }, data: { slug: 'restore-p3' } });
+    expect(prisma.page.update).toHaveBeenCalledWith({
+      where: { id: 'p3' },
+      data: expect.objectContaining({ slug: 'antiguo', position: 1, isDeleted: false, isDefault: false }),
+    });
+    // 'contact' ya no existe: se recrea con su clientId y bajo el ID de su padre
+    expect(prisma.page.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ clientId: 'contact', projectId: PROJECT_ID, slug: 'contacto', parentId: 'p1', isDefault: false }),
+    });
+    expect(prisma.page.update).toHaveBeenCalledWith({ where: { id: 'p1' }, data: expect.objectContaining({ isDefault: true, isDeleted: false }) });
+  });
+});
+
+describe('restoreProjectVersion', () => {
+  it('rechaza los snapshots que no tienen el formato canónico', async () => {
+    (prisma.projectVersion.findUnique as jest.Mock).mockResolvedValue({ id: 'v1', projectId: PROJECT_ID, snapshot: { pages: [] } });
+
+    await expect(restoreProjectVersion(PROJECT_ID, 'v1', 'user-id')).resolves.toEqual({ status: 'unsupported' });
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('no encuentra versiones de otro proyecto', async () => {
+    (prisma.projectVersion.findUnique as jest.Mock).mockResolvedValue({ id: 'v1', projectId: 'other', snapshot: snapshot([]) });
+
+    await expect(restoreProjectVersion(PROJECT_ID, 'v1', 'user-id')).resolves.toEqual({ status: 'not_found' });
+  });
+
+  it('guarda un respaldo del estado actual, aplica el snapshot y registra la versión restaurada', async () => {
+    (prisma.projectVersion.findUnique as jest.Mock).mockResolvedValue({
+      id: 'v1',
+      projectId: PROJECT_ID,
+      snapshot: snapshot([snapshotPage('home', 'inicio', { isDefault: true })]),
+    });
+    (prisma.project.findUnique as jest.Mock).mockResolvedValue({ ...project, pages: [] });
+    (prisma.page.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.projectVersion.create as jest.Mock)
+      .mockResolvedValueOnce({ id: 'backup' })
+      .mockResolvedValueOnce({ id: 'restored' });
+
+    const result = await restoreProjectVersion(PROJECT_ID, 'v1', 'user-id');
+
+    expect(result).toEqual({ status: 'restored', backup: { id: 'backup' }, version: { id: 'restored' } });
+    const [backup, restored] = (prisma.projectVersion.create as jest.Mock).mock.calls.map(([args]) => args.data);
+    expect(backup).toMatchObject({ comment: 'Backup before restoring version v1', snapshot: expect.objectContaining({ format: SNAPSHOT_FORMAT }) });
+    expect(restored).toMatchObject({ comment: 'Restored from version v1', createdById: 'user-id' });
+    expect(restored.createdAt.getTime()).toBeGreaterThan(backup.createdAt.getTime());
+    expect(prisma.page.create).toHaveBeenCalledWith({ data: expect.objectContaining({ clientId: 'home', isDefault: true }) });
+  });
+});
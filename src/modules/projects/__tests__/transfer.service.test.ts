@@ -0,0 +1,80 @@
+import { PrismaClient } from '@prisma/client';
+import { acceptTransfer } from '../transfer.service';
+
+// Mock de Prisma Client: $transaction ejecuta el callback con el mismo cliente
+const prisma = new PrismaClient();
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient: any = {
+    projectTransfer: { updateMany: jest.fn() },
+    project: { updateMany: jest.fn() },
+    projectPermission: { upsert: jest.fn(), deleteMany: jest.fn() },
+    auditLog: { create: jest.fn() },
+  };
+  mockPrismaClient.$transaction = jest.fn((fn: (tx: any) => Promise<unknown>) => fn(mockPrismaClient));
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+const transfer = {
+  id: 'transfer-id',
+  projectId: 'project-id',
+  fromUserId: 'old-owner',
+  toUserId: 'new-owner',
+  keepAsEditor: false,
+  expiresAt: new Date(Date.now() + 60000),
+  acceptedAt: null,
+  declinedAt: null,
+  cancelledAt: null,
+  createdAt: new Date(),
+};
+
+afterEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('acceptTransfer', () => {
+  it('cambia el owner, da admin al nuevo owner y quita el acceso al anterior', async () => {
+    (prisma.projectTransfer.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (prisma.project.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+    await expect(acceptTransfer(transfer)).resolves.toBe('accepted');
+
+    expect(prisma.project.updateMany).toHaveBeenCalledWith({
+      where: { id: 'project-id', ownerId: 'old-owner' },
+      data: { ownerId: 'new-owner' },
+    });
+    expect(prisma.projectPermission.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      create: { projectId: 'project-id', userId: 'new-owner', role: 'admin' },
+    }));
+    expect(prisma.projectPermission.deleteMany).toHaveBeenCalledWith({ where: { projectId: 'project-id', userId: 'old-owner' } });
+    expect(prisma.auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ action: 'project.transfer', projectId: 'project-id' }),
+    });
+  });
+
+  it('deja al owner anterior como editor si se pidió', async () => {
+    (prisma.projectTransfer.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (prisma.project.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+    await acceptTransfer({ ...transfer, keepAsEditor: true });
+
+    expect(prisma.projectPermission.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      update: { role: 'editor' },
+      create: { projectId: 'project-id', userId: 'old-owner', role: 'editor' },
+    }));
+    expect(prisma.projectPermission.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it('no hace nada si la transferencia ya no está pendiente', async () => {
+    (prisma.projectTransfer.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+    await expect(acceptTransfer(transfer)).resolves.toBe('not_pending');
+    expect(prisma.project.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('aborta si el proyecto cambió de owner', async () => {
+    (prisma.projectTransfer.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (prisma.project.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+    await expect(acceptTransfer(transfer)).resolves.toBe('owner_changed');
+    expect(prisma.projectPermission.upsert).not.toHaveBeenCalled();
+    expect(prisma.auditLog.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,62 @@
+import { PrismaClient } from '@prisma/client';
+import { TRASH_RETENTION_DAYS, purgeExpiredProjects, restoreProject, trashPurgeDate } from '../trash.service';
+
+// Mock de Prisma Client
+const prisma = new PrismaClient();
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    project: { findMany: jest.fn(), updateMany: jest.fn(), deleteMany: jest.fn() },
+    asset: { findMany: jest.fn().mockResolvedValue([]), findFirst: jest.fn() },
+    auditLog: { create: jest.fn() },
+  };
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+afterEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('trashPurgeDate', () => {
+  it('suma el plazo de retención a la fecha de borrado', () => {
+    const deletedAt = new Date('2025-01-01T00:00:00Z');
+    expect(trashPurgeDate(deletedAt).getTime() - deletedAt.getTime()).toBe(TRASH_RETENTION_DAYS * DAY_MS);
+  });
+});
+
+describe('restoreProject', () => {
+  it('sólo restaura proyectos borrados dentro del plazo', async () => {
+    (prisma.project.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    await expect(restoreProject('project-id', 'owner-id')).resolves.toBe(true);
+    const { where, data } = (prisma.project.updateMany as jest.Mock).mock.calls[0][0];
+    expect(where.id).toBe('project-id');
+    expect(Date.now() - where.deletedAt.gt.getTime()).toBeGreaterThanOrEqual(TRASH_RETENTION_DAYS * DAY_MS);
+    expect(data).toEqual({ deletedAt: null });
+    expect(prisma.auditLog.create).toHaveBeenCalledWith({ data: expect.objectContaining({ action: 'project.restore' }) });
+  });
+
+  it('devuelve false si venció el plazo', async () => {
+    (prisma.project.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+    await expect(restoreProject('project-id', 'owner-id')).resolves.toBe(false);
+    expect(prisma.auditLog.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('purgeExpiredProjects', () => {
+  it('elimina los proyectos vencidos y omite los restaurados entretanto', async () => {
+    const now = new Date('2025-03-01T00:00:00Z');
+    (prisma.project.findMany as jest.Mock).mockResolvedValue([
+      { id: 'expired', ownerId: 'owner-id', name: 'Viejo' },
+      { id: 'restored', ownerId: 'owner-id', name: 'Restaurado' },
+    ]);
+    (prisma.project.deleteMany as jest.Mock).mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+
+    await expect(purgeExpiredProjects(now)).resolves.toBe(1);
+
+    const cutoff = new Date(now.getTime() - TRASH_RETENTION_DAYS * DAY_MS);
+    expect(prisma.project.findMany).toHaveBeenCalledWith(expect.objectContaining({ where: { deletedAt: { lte: cutoff } } }));
+    expect(prisma.project.deleteMany).toHaveBeenCalledWith({ where: { id: 'expired', deletedAt: { lte: cutoff } } });
+    expect(prisma.auditLog.create).toHaveBeenCalledTimes(1);
+  });
+});
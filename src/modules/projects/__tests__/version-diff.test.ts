@@ -0,0 +1,117 @@
+import { diffComponents, diffCss, diffVersionStates, versionState } from '../version-diff';
+
+jest.mock('@prisma/client', () => ({ PrismaClient: jest.fn(() => ({})) }));
+
+describe('versionState', () => {
+  it('lee páginas por clientId y el árbol de componentes de los datos de GrapesJS', () => {
+    const state = versionState({
+      pages: [
+        { clientId: 'home', name: 'Inicio', html: '<h1>Hola</h1>', css: 'h1{color:red}', components: [] },
+        { id: 'gjs-page', frames: [{ component: { type: 'wrapper', components: [{ type: 'text' }] } }] },
+      ],
+    });
+
+    expect(state.pages).toEqual([
+      { id: 'home', name: 'Inicio', html: '<h1>Hola</h1>', css: 'h1{color:red}', components: [] },
+      { id: 'gjs-page', name: 'gjs-page', html: '', css: '', components: { type: 'wrapper', components: [{ type: 'text' }] } },
+    ]);
+    expect(versionState('legacy').pages).toEqual([]);
+  });
+});
+
+describe('diffCss', () => {
+  it('compara por regla y propiedad, incluidas las at-rules', () => {
+    const diff = diffCss(
+      '/* base */ .a{color:red;margin:0} .b{padding:1px} @media (max-width: 768px){.a{color:blue}}',
+      '.a { color: green; margin: 0; background: url("data:image/png;base64,AAA=") }\n@media (max-width: 768px){.a{color:blue}.c{top:0}}'
+    );
+
+    expect(diff).toEqual({
+      added: [{ context: '@media (max-width: 768px)', selector: '.c', declarations: { top: '0' } }],
+      removed: [{ context: null, selector: '.b', declarations: { padding: '1px' } }],
+      changed: [
+        {
+          context: null,
+          selector: '.a',
+          added: { background: 'url("data:image/png;base64,AAA=")' },
+          removed: {},
+          changed: { color: { from: 'red', to: 'green' } },
+        },
+      ],
+    });
+    expect(diffCss('.a{color:red}', '.a { color : red ; }')).toBeNull();
+  });
+});
+
+describe('diffComponents', () => {
+  it('detecta componentes añadidos, eliminados, movidos y modificados por ID', () => {
+    const before = [
+      { type: 'section', attributes: { id: 'hero' }, components: [
+        { type: 'text', attributes: { id: 'title' }, content: 'Hola' },
+        { type: 'image', attributes: { id: 'logo', src: 'a.png' } },
+        { type: 'text', attributes: { id: 'old' } },
+      ] },
+      { type: 'section', attributes: { id: 'footer' } },
+    ];
+    const after = [
+      { type: 'section', attributes: { id: 'hero' }, components: [
+        { type: 'image', attributes: { id: 'logo', src: 'b.png' } },
+        { type: 'text', attributes: { id: 'title' }, content: 'Hola' },
+      ] },
+      { type: 'section', attributes: { id: 'footer' }, components: [{ type: 'link', attributes: { id: 'cta' } }] },
+    ];
+
+    const diff = diffComponents(before, after)!;
+
+    expect(diff.added).toEqual([{ id: 'cta', type: 'link', parentId: 'footer', index: 0 }]);
+    expect(diff.removed).toEqual([{ id: 'old', type: 'text', parentId: 'hero', index: 2 }]);
+    // Intercambiar dos hermanos es un único movimiento
+    expect(diff.moved).toHaveLength(1);
+    expect(['logo', 'title']).toContain(diff.moved[0].id);
+    expect(diff.changed).toEqual([
+      { id: 'logo', type: 'image', changes: { attributes: { from: { id: 'logo', src: 'a.png' }, to: { id: 'logo', src: 'b.png' } } } },
+    ]);
+    expect(diffComponents(before, JSON.parse(JSON.stringify(before)))).toBeNull();
+  });
+});
+
+describe('diffVersionStates', () => {
+  it('resume páginas añadidas, eliminadas y renombradas con el diff de su contenido', () => {
+    const page = (id: string, name: string, html: string) => ({ id, name, html, css: '', components: null });
+    const diff = diffVersionStates(
+      { pages: [page('home', 'Inicio', '<main><h1>Hola</h1><p>Texto</p></main>'), page('old', 'Antigua', '<p>x</p>'), page('same', 'Igual', '<p>y</p>')] },
+      { pages: [page('home', 'Portada', '<main><h1>Hola</h1><p>Texto nuevo</p></main>'), page('new', 'Nueva', ''), page('same', 'Igual', '<p>y</p>')] }
+    );
+
+    expect(diff.pages).toEqual({
+      added: [{ id: 'new', name: 'Nueva' }],
+      removed: [{ id: 'old', name: 'Antigua' }],
+      renamed: [{ id: 'home', from: 'Inicio', to: 'Portada' }],
+    });
+    expect(diff.changes.map(change => [change.id, change.status])).toEqual([
+      ['home', 'modified'],
+      ['new', 'added'],
+      ['old', 'removed'],
+    ]);
+    expect(diff.changes[0].html).toEqual({
+      additions: 1,
+      deletions: 1,
+      hunks: [
+        {
+          oldStart: 1,
+          oldLines: 4,
+          newStart: 1,
+          newLines: 4,
+          lines: [
+            { type: 'context', text: '<main>' },
+            { type: 'context', text: '<h1>Hola</h1>' },
+            { type: 'removed', text: '<p>Texto</p>' },
+            { type: 'added', text: '<p>Texto nuevo</p>' },
+            { type: 'context', text: '</main>' },
+          ],
+        },
+      ],
+    });
+    expect(diff.changes[2].html).toMatchObject({ additions: 0, deletions: 1 });
+  });
+});
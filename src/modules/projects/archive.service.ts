@@ -0,0 +1,277 @@
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import type { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { PAGE_ORDER, assignPageSlugs, pageSlugSchema, parentsFirst, sanitizeParents } from '../pages/page-routing';
+import { pageSeoSchema, parsePageSeo } from '../pages/page-seo';
+import {
+  CONTENT_TRANSACTION_TIMEOUT_MS,
+  checkAssetUpload,
+  hashAssetContent,
+  lockAssetContent,
+  putAssetContent,
+  releaseAssetContent,
+  rewriteAssetUrls,
+} from '../assets/asset.service';
+import type { AssetUpload } from '../assets/asset.service';
+import { getAssetStorage } from '../../utils/asset-storage';
+
+const prisma = new PrismaClient();
+
+export const ARCHIVE_FORMAT = 'project-archive';
+export const ARCHIVE_VERSION = 1;
+
+const jsonValue = z.any();
+
+// Esquema del archivo exportado; import lo valida antes de tocar la base de datos
+export const projectArchiveSchema = z.object({
+  manifest: z.object({
+    format: z.literal(ARCHIVE_FORMAT),
+    version: z.literal(ARCHIVE_VERSION),
+    exportedAt: z.string(),
+    source: z.object({ projectId: z.string(), name: z.string() }),
+    includesVersions: z.boolean(),
+  }),
+  project: z.object({
+    name: z.string().min(1),
+    description: z.string().nullable(),
+    designData: jsonValue.nullable(),
+    html: z.string().nullable(),
+    css: z.string().nullable(),
+    js: z.string().nullable(),
+    components: jsonValue.nullable(),
+    assets: jsonValue.nullable(),
+  }),
+  pages: z.array(z.object({
+    id: z.string(),
+    clientId: z.string().min(1),
+    name: z.string(),
+    // Enrutado: opcional para aceptar archivos anteriores a los slugs y la jerarquía
+    slug: pageSlugSchema.optional(),
+    position: z.number().int().min(0).optional(),
+    parentId: z.string().nullable().optional(),
+    html: z.string().nullable(),
+    css: z.string().nullable(),
+    components: jsonValue.nullable(),
+    seo: pageSeoSchema.nullable().optional(),
+    isDefault: z.boolean(),
+  })).refine(pages => new Set(pages.map(page => page.clientId)).size === pages.length, {
+    message: 'Duplicate page clientId',
+  }),
+  versions: z.array(z.object({
+    id: z.string(),
+    comment: z.string().nullable(),
+    createdAt: z.string(),
+    snapshot: jsonValue,
+  })).optional(),
+  // Biblioteca de assets con el contenido en base64; opcional para aceptar archivos anteriores
+  library: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    mimeType: z.string(),
+    data: z.string(),
+  })).optional(),
+});
+
+export type ProjectArchive = z.infer<typeof projectArchiveSchema>;
+
+/**
+ * Genera el archivo portable de un proyecto: manifest, datos del proyecto, páginas no eliminadas, la biblioteca de
+ * assets con su contenido y, opcionalmente, el historial de versiones. Devuelve null si el proyecto no existe.
+ */
+export async function exportProjectArchive(projectId: string, options: { includeVersions?: boolean } = {}): Promise<ProjectArchive | null> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    include: {
+      pages: { where: { isDeleted: false }, orderBy: PAGE_ORDER },
+      assetFiles: { orderBy: { createdAt: 'asc' } },
+      ...(options.includeVersions ? { versions: { orderBy: { createdAt: 'asc' as const } } } : {}),
+    },
+  });
+  if (!project) return null;
+
+  // Los assets cuyo contenido falta en el almacenamiento no se incluyen
+  const library: NonNullable<ProjectArchive['library']> = [];
+  for (const asset of project.assetFiles) {
+    const data = await getAssetStorage().get(asset.storageKey);
+    if (data) library.push({ id: asset.id, name: asset.name, mimeType: asset.mimeType, data: data.toString('base64') });
+  }
+
+  return {
+    manifest: {
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      exportedAt: new Date().toISOString(),
+      source: { projectId: project.id, name: project.name },
+      includesVersions: !!options.includeVersions,
+    },
+    project: {
+      name: project.name,
+      description: project.description,
+      designData: project.designData,
+      html: project.html,
+      css: project.css,
+      js: project.js,
+      components: project.components,
+      assets: project.assets,
+    },
+    pages: project.pages.map(page => ({
+      id: page.id,
+      clientId: page.clientId,
+      name: page.name,
+      slug: page.slug,
+      position: page.position,
+      parentId: page.parentId,
+      html: page.html,
+      css: page.css,
+      components: page.components,
+      seo: parsePageSeo(page.seo),
+      isDefault: page.isDefault,
+    })),
+    library,
+    ...(options.includeVersions && 'versions' in project
+      ? {
+          versions: project.versions.map(version => ({
+            id: version.id,
+            comment: version.comment,
+            createdAt: version.createdAt.toISOString(),
+            snapshot: version.snapshot,
+          })),
+        }
+      : {}),
+  };
+}
+
+// Sustituye los IDs del entorno de origen que aparezcan como valores string dentro del JSON
+function remapIds(value: unknown, ids: Map<string, string>): unknown {
+  if (typeof value === 'string') return ids.get(value) ?? value;
+  if (Array.isArray(value)) return value.map(item => remapIds(item, ids));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, remapIds(item, ids)]));
+  }
+  return value;
+}
+
+// Json? de Prisma no acepta null directamente: se omite para dejar la columna en NULL
+const toJsonInput = (value: unknown, ids: Map<string, string>) =>
+  value === null || value === undefined ? undefined : (remapIds(value, ids) as Prisma.InputJsonValue);
+
+// Bytes de la biblioteca de assets del archivo (cuota de almacenamiento)
+export const archiveAssetBytes = (archive: ProjectArchive) =>
+  (archive.library ?? []).reduce((total, asset) => total + Buffer.byteLength(asset.data, 'base64'), 0);
+
+/**
+ * Crea un proyecto del usuario a partir de un archivo ya validado. Proyecto, páginas, versiones y assets reciben IDs
+ * nuevos (los clientId se conservan) y las referencias a los IDs antiguos dentro del JSON se reescriben, también las
+ * URLs de la biblioteca de assets. Los assets con un tipo no admitido o contenido inválido se descartan.
+ * Las versiones importadas no tienen autor, ya que los usuarios no existen necesariamente en este entorno.
+ */
+export async function importProjectArchive(
+  archive: ProjectArchive,
+  ownerId: string,
+  options: { name?: string; workspaceId?: string | null } = {}
+) {
+  const ids = new Map<string, string>();
+  const projectId = crypto.randomUUID();
+  ids.set(archive.manifest.source.projectId, projectId);
+  for (const page of archive.pages) ids.set(page.id, crypto.randomUUID());
+  for (const version of archive.versions ?? []) ids.set(version.id, crypto.randomUUID());
+  // Archivos antiguos sin enrutado: slugs generados del nombre, orden del archivo y sin jerarquía
+  const slugs = assignPageSlugs(archive.pages);
+  const parents = sanitizeParents(archive.pages);
+  const pages = archive.pages.map((page, index) => ({
+    ...page,
+    slug: slugs[index],
+    position: page.position ?? index,
+    parentId: parents.get(page.id) ?? null,
+  }));
+
+  // Los assets válidos de la biblioteca; un mismo contenido se importa una vez
+  const sourceId = archive.manifest.source.projectId;
+  const copies = new Map<string, { id: string; projectId: string }>();
+  const library = new Map<string, { file: AssetUpload; asset: Omit<Prisma.AssetCreateWithoutProjectInput, 'storageKey'> }>();
+  for (const asset of archive.library ?? []) {
+    const file = { filename: asset.name, contentType: asset.mimeType, data: Buffer.from(asset.data, 'base64') };
+    const check = checkAssetUpload(file);
+    if (check.status !== 'ok') continue;
+    const hash = hashAssetContent(file.data);
+    if (!library.has(hash)) {
+      library.set(hash, {
+        file,
+        asset: {
+          id: crypto.randomUUID(),
+          name: asset.name,
+          mimeType: asset.mimeType,
+          size: file.data.length,
+          width: check.width,
+          height: check.height,
+          hash,
+          uploadedBy: { connect: { id: ownerId } },
+        },
+      });
+    }
+    copies.set(asset.id, { id: library.get(hash)!.asset.id!, projectId });
+  }
+  const urls = <T>(value: T) => rewriteAssetUrls(value, sourceId, copies);
+
+  try {
+    return await prisma.$transaction(async tx => {
+      // El contenido se guarda con el hash bloqueado hasta que los assets que lo usan existen
+      await lockAssetContent(tx, [...library.keys()]);
+      const assetFiles: Prisma.AssetCreateWithoutProjectInput[] = [];
+      for (const { file, asset } of library.values()) {
+        const { storageKey } = await putAssetContent(tx, file.data, file.contentType);
+        assetFiles.push({ ...asset, storageKey });
+      }
+      const project = await tx.project.create({
+        data: {
+          id: projectId,
+          name: options.name ?? archive.project.name,
+          description: archive.project.description,
+          ownerId,
+          workspaceId: options.workspaceId ?? null,
+          designData: toJsonInput(urls(archive.project.designData), ids),
+          html: urls(archive.project.html),
+          css: urls(archive.project.css),
+          js: urls(archive.project.js),
+          components: toJsonInput(urls(archive.project.components), ids),
+          assets: toJsonInput(urls(archive.project.assets), ids),
+          permissions: { create: [{ userId: ownerId, role: 'admin' }] },
+          assetFiles: { create: assetFiles },
+          pages: {
+            create: parentsFirst(pages).map(page => ({
+              id: ids.get(page.id),
+              clientId: page.clientId,
+              name: page.name,
+              slug: page.slug,
+              position: page.position,
+              parentId: page.parentId ? ids.get(page.parentId) : null,
+              html: urls(page.html),
+              css: urls(page.css),
+              components: toJsonInput(urls(page.components), ids),
+              seo: urls(page.seo) ?? undefined,
+              isDefault: page.isDefault,
+            })),
+          },
+        },
+        include: { pages: { select: { id: true, clientId: true, name: true, isDefault: true } } },
+      });
+      if (archive.versions?.length) {
+        await tx.projectVersion.createMany({
+          data: archive.versions.map(version => ({
+            id: ids.get(version.id),
+            projectId,
+            comment: version.comment,
+            createdAt: new Date(version.createdAt),
+            snapshot: (remapIds(urls(version.snapshot), ids) ?? {}) as Prisma.InputJsonValue,
+          })),
+        });
+      }
+      return project;
+    }, { timeout: CONTENT_TRANSACTION_TIMEOUT_MS });
+  } catch (error) {
+    // Sin proyecto, el contenido recién guardado puede quedar sin ningún asset que lo use
+    await releaseAssetContent([...library.keys()]);
+    throw error;
+  }
+}
@@ -0,0 +1,110 @@
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import type { Prisma } from '@prisma/client';
+import { parentsFirst } from '../pages/page-routing';
+import { lockAssetContent, rewriteAssetUrls } from '../assets/asset.service';
+
+const prisma = new PrismaClient();
+
+// Json? de Prisma no acepta null directamente: se omite para dejar la columna en NULL
+const copyJson = (value: Prisma.JsonValue | null) => (value === null ? undefined : (value as Prisma.InputJsonValue));
+
+/**
+ * Copia profunda de un proyecto para un nuevo owner: diseño, código, componentes, assets y páginas no eliminadas
+ * (con IDs nuevos pero el mismo clientId, slug, orden y jerarquía). La biblioteca de assets se copia (el contenido
+ * almacenado se comparte) y las URLs que apuntan a ella pasan a las de la copia.
+ * No se copian miembros, versiones, enlace compartido ni bloqueo. Devuelve null si el proyecto de origen no existe.
+ */
+export async function duplicateProject(
+  sourceId: string,
+  ownerId: string,
+  options: { name?: string; workspaceId?: string | null } = {}
+) {
+  return prisma.$transaction(async tx => {
+    const source = await tx.project.findUnique({
+      where: { id: sourceId },
+      include: { pages: { where: { isDeleted: false } }, assetFiles: true },
+    });
+    if (!source) return null;
+    // Con el contenido bloqueado, releaseAssetContent ya no puede borrarlo sin ver las copias; si el asset de origen
+    // se borró entretanto su contenido puede haber desaparecido y no se copia
+    await lockAssetContent(tx, source.assetFiles.map(asset => asset.hash));
+    const live = new Set((await tx.asset.findMany({
+      where: { id: { in: source.assetFiles.map(asset => asset.id) } },
+      select: { id: true },
+    })).map(asset => asset.id));
+    const assetFiles = source.assetFiles.filter(asset => live.has(asset.id));
+
+    // IDs nuevos generados de antemano para reconstruir el árbol; los padres se crean antes que sus hijas
+    const ids = new Map(source.pages.map(page => [page.id, crypto.randomUUID()]));
+    const projectId = crypto.randomUUID();
+    const copies = new Map(assetFiles.map(asset => [asset.id, { id: crypto.randomUUID(), projectId }]));
+    const urls = <T>(value: T) => rewriteAssetUrls(value, source.id, copies);
+
+    return tx.project.create({
+      data: {
+        id: projectId,
+        name: options.name ?? `${source.name} (copia)`,
+        description: source.description,
+        ownerId,
+        workspaceId: options.workspaceId ?? null,
+        designData: copyJson(urls(source.designData)),
+        html: urls(source.html),
+        css: urls(source.css),
+        js: urls(source.js),
+        components: copyJson(urls(source.components)),
+        assets: copyJson(urls(source.assets)),
+        permissions: { create: [{ userId: ownerId, role: 'admin' }] },
+        assetFiles: {
+          create: assetFiles.map(asset => ({
+            id: copies.get(asset.id)!.id,
+            name: asset.name,
+            mimeType: asset.mimeType,
+            size: asset.size,
+            width: asset.width,
+            height: asset.height,
+            hash: asset.hash,
+            storageKey: asset.storageKey,
+            uploadedById: asset.uploadedById,
+          })),
+        },
+        pages: {
+          create: parentsFirst(source.pages).map(page => ({
+            id: ids.get(page.id),
+            clientId: page.clientId,
+            name: page.name,
+            slug: page.slug,
+            position: page.position,
+            parentId: page.parentId ? ids.get(page.parentId) ?? null : null,
+            html: urls(page.html),
+            css: urls(page.css),
+            components: copyJson(urls(page.components)),
+            seo: copyJson(urls(page.seo)),
+            isDefault: page.isDefault,
+          })),
+        },
+      },
+      include: { pages: { select: { id: true, clientId: true, name: true, isDefault: true } } },
+    });
+  });
+}
+
+/**
+ * Condición de plantillas visibles para un usuario:
+ * public para todos, workspace para los miembros de su workspace y private (y workspace) para el owner y los miembros directos.
+ * Las plantillas de proyectos que exigen 2FA sólo se ven desde sesiones con 2FA.
+ */
+export function visibleTemplatesWhere(userId: string, options: { twoFactor?: boolean } = {}): Prisma.ProjectWhereInput {
+  return {
+    isTemplate: true,
+    isArchived: false,
+    deletedAt: null,
+    ...(options.twoFactor ? {} : { requireTwoFactor: false }),
+    OR: [
+      { templateVisibility: 'public' },
+      { ownerId: userId },
+      { permissions: { some: { userId } } },
+      { templateVisibility: 'workspace', workspace: { members: { some: { userId } } } },
+    ],
+  };
+}
@@ -1,6 +1,8 @@
 import { Router, Request } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { authMiddleware } from '../auth/auth.middleware';
+import { projectAccessMiddleware } from '../../middlewares/project-access';
+import { requireScope } from '../../middlewares/token-scope';
 
 const prisma = new PrismaClient();
 const router = Router({ mergeParams: true });
@@ -11,14 +13,12 @@ function requireUser(req: Request): asserts req is Request & { user: { id: strin
 }
 
 // Lock project
-router.post('/lock', authMiddleware, async (req, res) => {
+router.post('/lock', authMiddleware, requireScope('projects:write'), projectAccessMiddleware('write'), async (req, res) => {
   requireUser(req);
   const { id: projectId } = req.params;
   const userId = req.user.id;
-  const project = await prisma.project.findUnique({ where: { id: projectId }, include: { permissions: true } });
+  const project = await prisma.project.findUnique({ where: { id: projectId } });
   if (!project) return res.status(404).json({ error: 'Not found' });
-  const canWrite = project.ownerId === userId || project.permissions.some((p: { userId: string, permission: string }) => p.userId === userId && p.permission === 'write');
-  if (!canWrite) return res.status(403).json({ error: 'Forbidden' });
   if (project.lockedById && project.lockedById !== userId) {
     return res.status(409).json({ error: 'Project is already locked by another user' });
   }
@@ -27,14 +27,12 @@ router.post('/lock', authMiddleware, async (req, res) => {
 });
 
 // Unlock project
-router.post('/unlock', authMiddleware, async (req, res) => {
+router.post('/unlock', authMiddleware, requireScope('projects:write'), projectAccessMiddleware('write'), async (req, res) => {
   requireUser(req);
   const { id: projectId } = req.params;
   const userId = req.user.id;
-  const project = await prisma.project.findUnique({ where: { id: projectId }, include: { permissions: true } });
+  const project = await prisma.project.findUnique({ where: { id: projectId } });
   if (!project) return res.status(404).json({ error: 'Not found' });
-  const canWrite = project.ownerId === userId || project.permissions.some((p: { userId: string, permission: string }) => p.userId === userId && p.permission === 'write');
-  if (!canWrite) return res.status(403).json({ error: 'Forbidden' });
   if (!project.lockedById || project.lockedById !== userId) {
     return res.status(409).json({ error: 'You do not hold the lock' });
   }
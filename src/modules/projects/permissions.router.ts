@@ -3,6 +3,9 @@ import { Router, Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { z } from 'zod';
 import { authMiddleware } from '../auth/auth.middleware';
+import { projectAccessMiddleware } from '../../middlewares/project-access';
+import { requireScope } from '../../middlewares/token-scope';
+import { PROJECT_ROLES } from '../../utils/permission';
 
 const prisma = new PrismaClient();
 const router = Router({ mergeParams: true });
@@ -10,19 +13,14 @@ const router = Router({ mergeParams: true });
 // Esquema Zod para añadir/actualizar permiso (AHORA USA EMAIL)
 const permissionAddSchema = z.object({
   email: z.string().email(), // Cambiado de userId a email
-  permission: z.enum(['read', 'write'])
+  role: z.enum(PROJECT_ROLES)
 });
 
-// Helper: assert user is present (type guard)
-function requireUser(req: Request): asserts req is Request & { user: { id: string } } {
-  if (!req.user) throw new Error('User not found in request. Auth middleware missing?');
-}
-
 /**
  * @openapi
  * /api/projects/{id}/permissions:
  *   post:
- *     summary: Agrega o actualiza un permiso de usuario en un proyecto (solo owner)
+ *     summary: Agrega o actualiza el rol de un usuario en un proyecto (owner o admin)
  *     tags:
  *       - Project Permissions
  *     security:
@@ -43,9 +41,9 @@ function requireUser(req: Request): asserts req is Request & { user: { id: strin
  *               email:       # Cambiado de userId a email
  *                 type: string
  *                 format: email
- *               permission:
+ *               role:
  *                 type: string
- *                 enum: [read, write]
+ *                 enum: [viewer, commenter, editor, admin]
  *     responses:
  *       200:
  *         description: Permiso actualizado
@@ -57,10 +55,8 @@ function requireUser(req: Request): asserts req is Request & { user: { id: strin
  *         description: Prohibido
  */
 // Add or update permission
-router.post('/', authMiddleware, async (req: Request, res: Response) => {
-  requireUser(req);
+router.post('/', authMiddleware, requireScope('projects:write'), projectAccessMiddleware('manageMembers'), async (req: Request, res: Response) => {
   const { id: projectId } = req.params;
-  const ownerUserId = req.user.id; // ID del usuario que hace la petición (debe ser owner)
 
   // 1. Validar el cuerpo de la petición usando el nuevo esquema
   const parse = permissionAddSchema.safeParse(req.body);
@@ -68,18 +64,9 @@ router.post('/', authMiddleware, async (req: Request, res: Response) => {
     console.error('Validation Error:', parse.error.errors);
     return res.status(400).json({ error: 'Invalid request body', details: parse.error.errors });
   }
-  const { email: targetEmail, permission } = parse.data;
+  const { email: targetEmail, role } = parse.data;
 
-  // 2. Verificar que quien hace la petición es el dueño del proyecto
-  const project = await prisma.project.findUnique({ where: { id: projectId } });
-  if (!project) {
-    return res.status(404).json({ error: 'Project not found' });
-  }
-  if (project.ownerId !== ownerUserId) {
-    return res.status(403).json({ error: 'Forbidden: Only the project owner can manage permissions' });
-  }
-
-  // 3. Buscar al usuario colaborador por su email
+  // 2. Buscar al usuario colaborador por su email
   let targetUser;
   try {
     targetUser = await prisma.user.findUnique({ where: { email: targetEmail } });
@@ -93,20 +80,21 @@ router.post('/', authMiddleware, async (req: Request, res: Response) => {
   }
   const targetUserId = targetUser.id;
 
-  // Evitar que el dueño se añada/modifique a sí mismo a través de esta ruta
-  if (targetUserId === ownerUserId) {
+  // Evitar que se modifique al dueño a través de esta ruta
+  const project = await prisma.project.findUnique({ where: { id: projectId }, select: { ownerId: true } });
+  if (project?.ownerId === targetUserId) {
       return res.status(400).json({ error: 'Cannot manage owner permissions through this route' });
   }
 
-  // 4. Crear o actualizar (Upsert) el permiso para el targetUserId encontrado
+  // 3. Crear o actualizar (Upsert) el permiso para el targetUserId encontrado
   try {
     const updatedPermission = await prisma.projectPermission.upsert({
       where: { projectId_userId: { projectId, userId: targetUserId } }, // Clave única compuesta
-      update: { permission }, // Qué actualizar si existe
-      create: { projectId, userId: targetUserId, permission }, // Qué crear si no existe
+      update: { role }, // Qué actualizar si existe
+      create: { projectId, userId: targetUserId, role }, // Qué crear si no existe
     });
     // Responder con el permiso creado/actualizado
-    res.status(200).json({ userId: updatedPermission.userId, permission: updatedPermission.permission });
+    res.status(200).json({ userId: updatedPermission.userId, role: updatedPermission.role });
   } catch (dbError) {
     console.error('Database error upserting permission:', dbError);
     // Podría ser un error de constraint si algo va mal
@@ -121,6 +109,8 @@ router.post('/', authMiddleware, async (req: Request, res: Response) => {
  *     summary: Lista todos los permisos del proyecto
  *     tags:
  *       - Project Permissions
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -132,21 +122,21 @@ router.post('/', authMiddleware, async (req: Request, res: Response) => {
  *         description: Lista de permisos
  *       404:
  *         description: No encontrado
+ *       403:
+ *         description: Prohibido
  */
 // GET /projects/:id/permissions - lista todos los permisos del proyecto
-router.get('/', async (req: Request, res: Response) => {
+router.get('/', authMiddleware, requireScope('projects:read'), projectAccessMiddleware('read'), async (req: Request, res: Response) => {
   const { id: projectId } = req.params;
-  // Busca el proyecto y sus permisos
-  const project = await prisma.project.findUnique({ where: { id: projectId }, include: { permissions: true } });
-  if (!project) return res.status(404).json({ error: 'Not found' });
-  res.json(project.permissions ?? []);
+  const permissions = await prisma.projectPermission.findMany({ where: { projectId } });
+  res.json(permissions);
 });
 
 /**
  * @openapi
  * /api/projects/{id}/permissions/{userId}:
  *   delete:
- *     summary: Elimina el permiso de un usuario en un proyecto (solo owner)
+ *     summary: Elimina el permiso de un usuario en un proyecto (owner o admin)
  *     tags:
  *       - Project Permissions
  *     security:
@@ -171,13 +161,12 @@ router.get('/', async (req: Request, res: Response) => {
  *         description: Prohibido
  */
 // Remove permission
-router.delete('/:userId', authMiddleware, async (req: Request, res: Response) => {
-  requireUser(req);
+router.delete('/:userId', authMiddleware, requireScope('projects:write'), projectAccessMiddleware('manageMembers'), async (req: Request, res: Response) => {
   const { id: projectId, userId: targetUserId } = req.params;
-  const userId = req.user.id;
-  const project = await prisma.project.findUnique({ where: { id: projectId } });
-  if (!project) return res.status(404).json({ error: 'Not found' });
-  if (project.ownerId !== userId) return res.status(403).json({ error: 'Forbidden' });
+  const project = await prisma.project.findUnique({ where: { id: projectId }, select: { ownerId: true } });
+  if (project?.ownerId === targetUserId) {
+    return res.status(400).json({ error: 'Cannot manage owner permissions through this route' });
+  }
   await prisma.projectPermission.deleteMany({ where: { projectId, userId: targetUserId } });
   res.status(204).send();
 });
@@ -0,0 +1,73 @@
+import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
+
+// Campos pesados (JSON de GrapesJS y código) que el listado sólo devuelve si se piden con ?include=
+export const HEAVY_PROJECT_FIELDS = ['designData', 'html', 'css', 'js', 'components', 'assets'] as const;
+
+export const PROJECT_LIST_MAX_LIMIT = 100;
+
+// Parámetros de GET /projects (query string)
+export const projectListQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(PROJECT_LIST_MAX_LIMIT).default(20),
+  cursor: z.string().optional(),
+  archived: z.enum(['true', 'false', 'all']).default('false'),
+  role: z.enum(['all', 'owned', 'shared']).default('all'),
+  updatedSince: z.coerce.date().optional(),
+  q: z.string().trim().min(1).optional(),
+  sort: z.enum(['updatedAt', 'name', 'createdAt']).default('updatedAt'),
+  order: z.enum(['asc', 'desc']).optional(),
+  include: z
+    .string()
+    .transform(value => value.split(',').map(field => field.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(HEAVY_PROJECT_FIELDS)))
+    .default(''),
+});
+
+export type ProjectListQuery = z.infer<typeof projectListQuerySchema>;
+
+// Proyección ligera; permissions/workspace sólo traen lo necesario para calcular el rol del usuario
+const projectListSelect = (userId: string) => ({
+  id: true,
+  name: true,
+  description: true,
+  ownerId: true,
+  workspaceId: true,
+  isArchived: true,
+  linkAccess: true,
+  createdAt: true,
+  updatedAt: true,
+  permissions: { where: { userId }, select: { userId: true, role: true } },
+  workspace: { select: { defaultProjectRole: true, members: { where: { userId }, select: { userId: true, role: true } } } },
+}) satisfies Prisma.ProjectSelect;
+
+/**
+ * Construye los argumentos de prisma.project.findMany para el listado paginado por cursor.
+ * Se pide un elemento de más (limit + 1) para saber si hay página siguiente.
+ */
+export function buildProjectListArgs(userId: string, query: ProjectListQuery) {
+  const reachable: Prisma.ProjectWhereInput[] = [
+    { permissions: { some: { userId } } },
+    { workspace: { members: { some: { userId } } } },
+  ];
+  const and: Prisma.ProjectWhereInput[] = [];
+  if (query.role === 'owned') and.push({ ownerId: userId });
+  else if (query.role === 'shared') and.push({ ownerId: { not: userId } }, { OR: reachable });
+  else and.push({ OR: [{ ownerId: userId }, ...reachable] });
+  if (query.archived !== 'all') and.push({ isArchived: query.archived === 'true' });
+  if (query.updatedSince) and.push({ updatedAt: { gte: query.updatedSince } });
+  if (query.q) and.push({ name: { contains: query.q, mode: 'insensitive' } });
+
+  // Por defecto: fechas de más reciente a más antigua, nombres en orden alfabético
+  const order = query.order ?? (query.sort === 'name' ? 'asc' : 'desc');
+  const heavy: Partial<Record<typeof HEAVY_PROJECT_FIELDS[number], true>> = {};
+  for (const field of query.include) heavy[field] = true;
+
+  return {
+    where: { deletedAt: null, AND: and },
+    select: { ...projectListSelect(userId), ...heavy },
+    // El id desempata el orden para que el cursor sea estable
+    orderBy: [{ [query.sort]: order }, { id: order }] as Prisma.ProjectOrderByWithRelationInput[],
+    take: query.limit + 1,
+    ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+  };
+}
@@ -5,24 +5,59 @@ import { Router } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { z } from 'zod';
 import { authMiddleware } from '../auth/auth.middleware';
+import { projectAccessMiddleware } from '../../middlewares/project-access';
+import { requireScope } from '../../middlewares/token-scope';
+import { getWorkspaceAccess, isTwoFactorMissing, loadWorkspaceAccess, resolveProjectRole } from '../../utils/permission';
 import { projectPermissionsRouter } from './permissions.router';
 import { projectVersionsRouter } from './versions.router';
 import { projectLockingRouter } from './locking.router';
+import { projectTransferRouter } from './transfer.router';
+import { projectPublicationRouter } from './publication.router';
+import { projectAssetsRouter } from '../assets/asset.router';
+import { discardInlineAssets, extractInlineAssets } from '../assets/inline-assets';
+import { checkDesignSize, checkProjectMoveQuota, checkProjectQuota, projectAssetBytes, pruneVersions, quotaError, quotaSubject } from '../quotas/quota.service';
+import { buildProjectListArgs, projectListQuerySchema } from './project-list';
+import { duplicateProject } from './duplicate.service';
+import { archiveAssetBytes, exportProjectArchive, importProjectArchive, projectArchiveSchema } from './archive.service';
+import { hasScope } from '../auth/access-token.service';
+import { moveProjectToTrash, restoreProject, trashPurgeDate } from './trash.service';
+import { exportProjectSite } from './site-export.service';
+import { publicSiteUrl, publishProject, siteSlugSchema } from './publication.service';
+import { slugify } from '../../utils/slug';
+import { projectInvitationsRouter } from '../invitations/invitation.router';
 
 const prisma = new PrismaClient();
 const router = Router();
 
 // Zod schemas
-const projectCreateSchema = z.object({ name: z.string().min(2), description: z.string().optional() });
+const projectCreateSchema = z.object({ name: z.string().min(2), description: z.string().optional(), workspaceId: z.string().optional() });
+// isArchived no se acepta aquí: archivar exige la capacidad 'archive' (PATCH /:id/archive)
 const projectUpdateSchema = z.object({
   name: z.string().min(2).optional(),
-  isArchived: z.boolean().optional(),
   description: z.string().optional(),
   designData: z.any().optional(), // Permitir designData
 });
+const projectTwoFactorSchema = z.object({ required: z.boolean() });
+const projectWorkspaceSchema = z.object({ workspaceId: z.string().nullable() });
+const projectDuplicateSchema = z.object({ name: z.string().min(2).optional(), workspaceId: z.string().optional() });
+const projectExportQuerySchema = z.object({ versions: z.enum(['true', 'false']).default('false') });
+const siteExportQuerySchema = z.object({
+  minify: z.enum(['true', 'false']).default('false'),
+  baseUrl: z.string().url().refine(url => /^https?:\/\//i.test(url), 'Must be an http(s) URL').optional(),
+});
+const projectPublishSchema = z.object({ slug: siteSlugSchema.optional(), comment: z.string().max(500).optional() });
+const projectImportSchema = z.object({
+  archive: projectArchiveSchema,
+  name: z.string().min(2).optional(),
+  workspaceId: z.string().optional(),
+});
+const projectTemplateSchema = z.object({
+  isTemplate: z.boolean(),
+  visibility: z.enum(['private', 'workspace', 'public']).optional(),
+});
 
 // Helper: assert user is present (type guard)
-function requireUser(req: ExpressRequest): asserts req is ExpressRequest & { user: { id: string } } {
+function requireUser(req: ExpressRequest): asserts req is ExpressRequest & { user: { id: string; twoFactor?: boolean } } {
   if (!req.user) throw new Error('User not found in request. Auth middleware missing?');
 }
 
@@ -98,6 +133,9 @@ function requireUser(req: ExpressRequest): asserts req is ExpressRequest & { use
  *               description:
  *                 type: string
  *                 nullable: true
+ *               workspaceId:
+ *                 type: string
+ *                 description: Workspace al que pertenecerá (el usuario debe ser miembro)
  *     responses:
  *       201:
  *         description: Proyecto creado
@@ -107,8 +145,10 @@ function requireUser(req: ExpressRequest): asserts req is ExpressRequest & { use
  *               $ref: '#/components/schemas/Project'
  *       400:
  *         description: Error de validación
+ *       402:
+ *         description: Se alcanzó el límite de proyectos del plan (QUOTA_PROJECTS_EXCEEDED)
  */
-router.post('/', authMiddleware, async (req: ExpressRequest, res) => {
+router.post('/', authMiddleware, requireScope('projects:write'), async (req: ExpressRequest, res) => {
   requireUser(req);
   const userId = req.user?.id;
   if (!userId) {
@@ -137,7 +177,16 @@ router.post('/', authMiddleware, async (req: ExpressRequest, res) => {
 
   const parse = projectCreateSchema.safeParse(req.body);
   if (!parse.success) return res.status(400).json({ error: parse.error.errors });
-  const { name, description } = parse.data;
+  const { name, description, workspaceId } = parse.data;
+  if (workspaceId) {
+    const workspaceAccess = await getWorkspaceAccess(userId, workspaceId);
+    if (!workspaceAccess?.role) return res.status(403).json({ error: 'Not a member of this workspace' });
+  }
+  const quota = await checkProjectQuota(quotaSubject({ ownerId: userId, workspaceId: workspaceId ?? null }));
+  if (quota.status === 'exceeded') {
+    const { status, body } = quotaError(quota);
+    return res.status(status).json(body);
+  }
 
   try {
     // Ahora estamos más seguros de que userId existe antes de llamar a create
@@ -146,8 +195,9 @@ router.post('/', authMiddleware, async (req: ExpressRequest, res) => {
         name,
         description,
         ownerId: userId, // Usar el userId verificado
+        workspaceId,
         permissions: {
-          create: [{ userId, permission: 'write' }],
+          create: [{ userId, role: 'admin' }],
         },
       },
       include: { permissions: true },
@@ -166,34 +216,110 @@ router.post('/', authMiddleware, async (req: ExpressRequest, res) => {
  * @openapi
  * /projects:
  *   get:
- *     summary: Lista todos los proyectos del usuario
+ *     summary: Lista los proyectos del usuario (propios, compartidos o de sus workspaces), paginados por cursor
+ *     description: Devuelve una proyección ligera con el rol del usuario; la siguiente página se indica en el header X-Next-Cursor.
  *     tags:
  *       - Projects
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: Valor de X-Next-Cursor de la página anterior
+ *       - in: query
+ *         name: archived
+ *         schema:
+ *           type: string
+ *           enum: [true, false, all]
+ *           default: false
+ *       - in: query
+ *         name: role
+ *         schema:
+ *           type: string
+ *           enum: [all, owned, shared]
+ *           default: all
+ *       - in: query
+ *         name: updatedSince
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *         description: Búsqueda por nombre
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [updatedAt, name, createdAt]
+ *           default: updatedAt
+ *       - in: query
+ *         name: order
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *       - in: query
+ *         name: include
+ *         schema:
+ *           type: string
+ *         description: Campos pesados a incluir, separados por comas (designData, html, css, js, components, assets)
  *     responses:
  *       200:
  *         description: Lista de proyectos
- *         content:
- *           application/json:
+ *         headers:
+ *           X-Next-Cursor:
  *             schema:
- *               type: array
- *               items:
- *                 $ref: '#/components/schemas/Project'
+ *               type: string
+ *             description: Cursor de la página siguiente (ausente en la última página)
+ *       400:
+ *         description: Parámetros inválidos
  */
-router.get('/', authMiddleware, async (req: ExpressRequest, res) => {
+router.get('/', authMiddleware, requireScope('projects:read'), async (req: ExpressRequest, res) => {
   requireUser(req);
   const userId = req.user.id;
+  const parse = projectListQuerySchema.safeParse(req.query);
+  if (!parse.success) return res.status(400).json({ error: parse.error.errors });
+  const query = parse.data;
+
+  const rows = await prisma.project.findMany(buildProjectListArgs(userId, query));
+  const page = rows.slice(0, query.limit);
+  if (rows.length > query.limit) res.set('X-Next-Cursor', page[page.length - 1].id);
+  res.json(page.map(({ permissions, workspace, ...project }) => ({
+    ...project,
+    role: resolveProjectRole({ ...project, linkToken: null, permissions, workspace }, userId),
+  })));
+});
+
+/**
+ * @openapi
+ * /projects/trash:
+ *   get:
+ *     summary: Lista los proyectos propios en la papelera con la fecha en que se purgarán
+ *     tags:
+ *       - Projects
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Lista de proyectos ({ id, name, description, deletedAt, purgeAt })
+ */
+router.get('/trash', authMiddleware, requireScope('projects:read'), async (req: ExpressRequest, res) => {
+  requireUser(req);
   const projects = await prisma.project.findMany({
-    where: {
-      OR: [
-        { ownerId: userId },
-        { permissions: { some: { userId } } },
-      ],
-    },
-    include: { permissions: true },
+    where: { ownerId: req.user.id, deletedAt: { not: null } },
+    select: { id: true, name: true, description: true, deletedAt: true },
+    orderBy: { deletedAt: 'desc' },
   });
-  res.json(projects);
+  res.json(projects.map(project => ({ ...project, purgeAt: trashPurgeDate(project.deletedAt!) })));
 });
 
 /**
@@ -223,7 +349,7 @@ router.get('/', authMiddleware, async (req: ExpressRequest, res) => {
  *       403:
  *         description: Prohibido
  */
-router.get('/:id', authMiddleware, async (req: ExpressRequest, res) => {
+router.get('/:id', authMiddleware, requireScope('projects:read'), async (req: ExpressRequest, res) => {
   requireUser(req);
   const userId = req.user.id;
   const { id } = req.params;
@@ -234,22 +360,16 @@ router.get('/:id', authMiddleware, async (req: ExpressRequest, res) => {
     // Incluimos los campos para acceso por enlace (linkAccess, linkToken)
     // Prisma los incluye por defecto si están en el modelo, pero este comentario lo deja explícito para TypeScript
   }) as (typeof prisma.project extends { findUnique: (args: any) => Promise<infer T> } ? T : any) & { linkAccess?: string; linkToken?: string; permissions: any[]; versions: any[] };
-  if (!project) return res.status(404).json({ error: 'Not found' });
-  const isOwnerOrCollaborator = project.ownerId === userId || project.permissions.some((p: { userId: string }) => p.userId === userId);
-  if (isOwnerOrCollaborator) return res.json(project);
-  // Acceso por enlace
-  if (
-    project.linkAccess !== 'none' &&
-    !!linkToken &&
-    !!project.linkToken &&
-    linkToken === project.linkToken
-  ) {
-    // Permitir acceso temporal según nivel ('read'/'write')
-    // Aquí podrías limitar campos si es solo 'read', o permitir edición si es 'write'.
-    // Por simplicidad, devolvemos el proyecto completo.
-    return res.json(project);
+  if (!project || project.deletedAt) return res.status(404).json({ error: 'Not found' });
+  const accessOptions = { linkToken, twoFactor: req.user.twoFactor };
+  if (isTwoFactorMissing(project, accessOptions)) {
+    return res.status(403).json({ error: 'Two-factor authentication required for this project', code: 'TWO_FACTOR_REQUIRED' });
   }
-  return res.status(403).json({ error: 'Forbidden' });
+  // Owner, miembro, miembro del workspace o acceso por enlace válido ('read'/'write')
+  const workspace = await loadWorkspaceAccess(project.workspaceId, userId);
+  const role = resolveProjectRole({ ...project, workspace }, userId, accessOptions);
+  if (!role) return res.status(403).json({ error: 'Forbidden' });
+  return res.json(project);
 });
 
 /**
@@ -277,8 +397,6 @@ router.get('/:id', authMiddleware, async (req: ExpressRequest, res) => {
  *               name:
  *                 type: string
  *                 minLength: 2
- *               isArchived:
- *                 type: boolean
  *               description:
  *                 type: string
  *                 nullable: true
@@ -298,13 +416,14 @@ router.get('/:id', authMiddleware, async (req: ExpressRequest, res) => {
  *         description: No encontrado
  *       403:
  *         description: Prohibido
+ *       413:
+ *         description: designData supera el tamaño máximo del plan (QUOTA_DESIGN_TOO_LARGE)
  */
-router.patch('/:id', authMiddleware, async (req: ExpressRequest, res) => {
+router.patch('/:id', authMiddleware, requireScope('projects:write'), projectAccessMiddleware('write'), async (req: ExpressRequest, res) => {
   // --- LOG DE GUARDADO (Backend Inicio) --- 
   console.log(`[Project Router] Received PATCH /projects/${req.params.id}`);
   // ---------------------------------------
   requireUser(req);
-  const userId = req.user.id;
   const { id } = req.params;
   
   // --- LOG: Body recibido --- 
@@ -317,26 +436,27 @@ router.patch('/:id', authMiddleware, async (req: ExpressRequest, res) => {
     return res.status(400).json({ error: parse.error.errors });
   }
   
-  const project = await prisma.project.findUnique({ where: { id }, include: { permissions: true } });
-  if (!project) {
-    console.warn(`[Project Router] Project not found: ${id}`);
-    return res.status(404).json({ error: 'Not found' });
-  }
-  
-  const canEdit = project.ownerId === userId || project.permissions.some((p: { userId: string, permission: string }) => p.userId === userId && p.permission === 'write');
-  if (!canEdit) {
-    console.warn(`[Project Router] Forbidden access for user ${userId} on project ${id}`);
-    return res.status(403).json({ error: 'Forbidden' });
-  }
-  
   // --- LOG antes de actualizar DB --- 
   console.log(`[Project Router] Attempting to update project ${id} with data:`, parse.data);
   // --------------------------------
   
   try {
+    // Las imágenes en base64 del diseño pasan a la biblioteca de assets
+    const data = { ...parse.data };
+    if (data.designData !== undefined) {
+      const inline = await extractInlineAssets(id, req.user.id, { designData: data.designData });
+      data.designData = inline.fields.designData;
+      const size = await checkDesignSize(id, [data.designData]);
+      if (size.status === 'exceeded') {
+        // El diseño se rechaza: los assets recién extraídos no deben ocupar la cuota
+        await discardInlineAssets(inline.created);
+        const { status, body } = quotaError(size);
+        return res.status(status).json(body);
+      }
+    }
     const updated = await prisma.project.update({ 
         where: { id }, 
-        data: parse.data, 
+        data, 
         include: { permissions: true } 
     });
     // --- LOG después de actualizar DB --- 
@@ -387,14 +507,9 @@ router.patch('/:id', authMiddleware, async (req: ExpressRequest, res) => {
  *       403:
  *         description: Prohibido
  */
-router.patch('/:id/archive', authMiddleware, async (req: ExpressRequest, res) => {
-  requireUser(req);
-  const userId = req.user.id;
+router.patch('/:id/archive', authMiddleware, requireScope('projects:write'), projectAccessMiddleware('archive'), async (req: ExpressRequest, res) => {
   const { id } = req.params;
   const { isArchived } = req.body;
-  const project = await prisma.project.findUnique({ where: { id } });
-  if (!project) return res.status(404).json({ error: 'Not found' });
-  if (project.ownerId !== userId) return res.status(403).json({ error: 'Forbidden' });
   const updated = await prisma.project.update({ where: { id }, data: { isArchived: !!isArchived } });
   res.json(updated);
 });
@@ -403,7 +518,8 @@ router.patch('/:id/archive', authMiddleware, async (req: ExpressRequest, res) =>
  * @openapi
  * /projects/{id}:
  *   delete:
- *     summary: Elimina un proyecto (solo owner)
+ *     summary: Mueve el proyecto a la papelera (solo owner)
+ *     description: Puede restaurarse durante 30 días; después se elimina definitivamente con páginas, versiones y assets.
  *     tags:
  *       - Projects
  *     security:
@@ -416,26 +532,63 @@ router.patch('/:id/archive', authMiddleware, async (req: ExpressRequest, res) =>
  *           type: string
  *     responses:
  *       204:
- *         description: Proyecto eliminado
+ *         description: Proyecto movido a la papelera
  *       404:
  *         description: No encontrado
  *       403:
  *         description: Prohibido
  */
-router.delete('/:id', authMiddleware, async (req: ExpressRequest, res) => {
+router.delete('/:id', authMiddleware, requireScope('projects:write'), projectAccessMiddleware('delete'), async (req: ExpressRequest, res) => {
   requireUser(req);
-  const userId = req.user.id;
-  const { id } = req.params;
-  const project = await prisma.project.findUnique({ where: { id } });
-  if (!project) return res.status(404).json({ error: 'Not found' });
-  if (project.ownerId !== userId) return res.status(403).json({ error: 'Forbidden' });
-  // Elimina primero los permisos relacionados
-  await prisma.projectPermission.deleteMany({ where: { projectId: id } });
-  // Si tienes otras relaciones (versions, locks, etc.), bórralas aquí antes del proyecto
-  await prisma.project.delete({ where: { id } });
+  await moveProjectToTrash(req.params.id, req.user.id, req.ip);
   res.status(204).send();
 });
 
+/**
+ * @openapi
+ * /projects/{id}/restore:
+ *   post:
+ *     summary: Restaura un proyecto de la papelera (solo owner, dentro de los 30 días)
+ *     tags:
+ *       - Projects
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Proyecto restaurado
+ *       403:
+ *         description: Prohibido
+ *       404:
+ *         description: No está en la papelera
+ *       410:
+ *         description: Venció el plazo de restauración
+ *       402:
+ *         description: Se superaría el límite de proyectos o de almacenamiento del plan
+ */
+router.post('/:id/restore', authMiddleware, requireScope('projects:write'), async (req: ExpressRequest, res) => {
+  requireUser(req);
+  const project = await prisma.project.findUnique({ where: { id: req.params.id } });
+  // Los proyectos en la papelera sólo existen para su owner
+  if (!project || !project.deletedAt || project.ownerId !== req.user.id) return res.status(404).json({ error: 'Not found' });
+  if (isTwoFactorMissing(project, { twoFactor: req.user.twoFactor })) {
+    return res.status(403).json({ error: 'Two-factor authentication required for this project', code: 'TWO_FACTOR_REQUIRED' });
+  }
+  const quota = await checkProjectMoveQuota(project.id, quotaSubject(project));
+  if (quota.status === 'exceeded') {
+    const { status, body } = quotaError(quota);
+    return res.status(status).json(body);
+  }
+  const restored = await restoreProject(project.id, req.user.id, req.ip);
+  if (!restored) return res.status(410).json({ error: 'Restore period has expired' });
+  res.json({ ...project, deletedAt: null });
+});
+
 // Acceso público por enlace
 router.get('/link/:token', async (req, res) => {
   const { token } = req.params;
@@ -443,7 +596,8 @@ router.get('/link/:token', async (req, res) => {
   const project = await prisma.project.findFirst({
     where: {
       linkToken: token,
-      linkAccess: { not: 'none' }
+      linkAccess: { not: 'none' },
+      deletedAt: null,
     },
     select: {
       id: true,
@@ -458,16 +612,13 @@ router.get('/link/:token', async (req, res) => {
 });
 
 // PATCH /projects/:id/link-access
-// Cambia el nivel de acceso por enlace y/o regenera el token (solo owner)
-router.patch('/:id/link-access', authMiddleware, async (req: ExpressRequest, res) => {
-  requireUser(req);
-  const userId = req.user.id;
+// Cambia el nivel de acceso por enlace y/o regenera el token (owner o admin)
+router.patch('/:id/link-access', authMiddleware, requireScope('projects:write'), projectAccessMiddleware('manageLink'), async (req: ExpressRequest, res) => {
   const { id } = req.params;
   const { linkAccess, regenerate } = req.body as { linkAccess?: 'none' | 'read' | 'write'; regenerate?: boolean };
   // Incluimos los campos para acceso por enlace (linkAccess, linkToken) en el tipado
   const project = await prisma.project.findUnique({ where: { id } }) as (typeof prisma.project extends { findUnique: (args: any) => Promise<infer T> } ? T : any) & { linkAccess?: string; linkToken?: string };
   if (!project) return res.status(404).json({ error: 'Not found' });
-  if (project.ownerId !== userId) return res.status(403).json({ error: 'Forbidden' });
   let newToken = project.linkToken;
   if (regenerate || !project.linkToken) {
     // Genera un nuevo token seguro (24 caracteres)
@@ -483,9 +634,414 @@ router.patch('/:id/link-access', authMiddleware, async (req: ExpressRequest, res
   res.json({ linkAccess: updated.linkAccess, linkToken: updated.linkToken });
 });
 
-// Montar routers secundarios para permisos, versiones y locking
+/**
+ * @openapi
+ * /projects/{id}/two-factor:
+ *   patch:
+ *     summary: Exige (o deja de exigir) 2FA a todos los que acceden al proyecto (sólo owner)
+ *     tags:
+ *       - Projects
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               required:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Configuración actualizada ({ requireTwoFactor })
+ *       400:
+ *         description: La sesión del owner no verificó 2FA
+ *       403:
+ *         description: Prohibido
+ */
+router.patch('/:id/two-factor', authMiddleware, requireScope('projects:write'), projectAccessMiddleware('manageSecurity'), async (req: ExpressRequest, res) => {
+  requireUser(req);
+  const parse = projectTwoFactorSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.errors });
+  const { required } = parse.data;
+  // Evita que el owner se deje fuera: sólo puede activarlo desde una sesión con 2FA verificado
+  if (required && !req.user.twoFactor) {
+    return res.status(400).json({ error: 'Enable two-factor authentication and sign in with it first' });
+  }
+  const updated = await prisma.project.update({ where: { id: req.params.id }, data: { requireTwoFactor: required } });
+  res.json({ requireTwoFactor: updated.requireTwoFactor });
+});
+
+/**
+ * @openapi
+ * /projects/{id}/workspace:
+ *   patch:
+ *     summary: Mueve el proyecto a un workspace o lo saca de él (sólo owner)
+ *     tags:
+ *       - Projects
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               workspaceId:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Workspace actualizado ({ workspaceId })
+ *       403:
+ *         description: Prohibido o el owner no es miembro del workspace
+ *       402:
+ *         description: El destino no tiene cuota para el proyecto (QUOTA_PROJECTS_EXCEEDED, QUOTA_STORAGE_EXCEEDED)
+ */
+router.patch('/:id/workspace', authMiddleware, requireScope('projects:write'), projectAccessMiddleware('transfer'), async (req: ExpressRequest, res) => {
+  requireUser(req);
+  const parse = projectWorkspaceSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.errors });
+  const { workspaceId } = parse.data;
+  if (workspaceId) {
+    const workspaceAccess = await getWorkspaceAccess(req.user.id, workspaceId);
+    if (!workspaceAccess?.role) return res.status(403).json({ error: 'Not a member of this workspace' });
+  }
+  const project = await prisma.project.findUniqueOrThrow({ where: { id: req.params.id }, select: { ownerId: true, workspaceId: true } });
+  if ((workspaceId ?? null) !== project.workspaceId) {
+    const quota = await checkProjectMoveQuota(req.params.id, quotaSubject({ ownerId: project.ownerId, workspaceId: workspaceId ?? null }));
+    if (quota.status === 'exceeded') {
+      const { status, body } = quotaError(quota);
+      return res.status(status).json(body);
+    }
+  }
+  const updated = await prisma.project.update({ where: { id: req.params.id }, data: { workspaceId } });
+  res.json({ workspaceId: updated.workspaceId });
+});
+
+/**
+ * @openapi
+ * /projects/{id}/duplicate:
+ *   post:
+ *     summary: Duplica el proyecto (diseño, código, assets y páginas) en un proyecto nuevo del usuario
+ *     tags:
+ *       - Projects
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               workspaceId:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Proyecto duplicado
+ *       403:
+ *         description: Prohibido
+ *       402:
+ *         description: Se alcanzó el límite de proyectos, páginas o almacenamiento del plan (QUOTA_PROJECTS_EXCEEDED, QUOTA_PAGES_EXCEEDED, QUOTA_STORAGE_EXCEEDED)
+ */
+router.post('/:id/duplicate', authMiddleware, requireScope('projects:write'), projectAccessMiddleware('read'), async (req: ExpressRequest, res) => {
+  requireUser(req);
+  const parse = projectDuplicateSchema.safeParse(req.body ?? {});
+  if (!parse.success) return res.status(400).json({ error: parse.error.errors });
+  const { name, workspaceId } = parse.data;
+  if (workspaceId) {
+    const workspaceAccess = await getWorkspaceAccess(req.user.id, workspaceId);
+    if (!workspaceAccess?.role) return res.status(403).json({ error: 'Not a member of this workspace' });
+  }
+  const pages = await prisma.page.count({ where: { projectId: req.params.id, isDeleted: false } });
+  const assetBytes = await projectAssetBytes(req.params.id);
+  const quota = await checkProjectQuota(quotaSubject({ ownerId: req.user.id, workspaceId: workspaceId ?? null }), { pages, assetBytes });
+  if (quota.status === 'exceeded') {
+    const { status, body } = quotaError(quota);
+    return res.status(status).json(body);
+  }
+  const project = await duplicateProject(req.params.id, req.user.id, { name, workspaceId });
+  if (!project) return res.status(404).json({ error: 'Not found' });
+  res.status(201).json(project);
+});
+
+/**
+ * @openapi
+ * /projects/{id}/export:
+ *   get:
+ *     summary: Exporta el proyecto como archivo portable (manifest, páginas, diseño, assets y opcionalmente versiones)
+ *     tags:
+ *       - Projects
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: versions
+ *         schema:
+ *           type: string
+ *           enum: ['true', 'false']
+ *         description: Incluye el historial de ProjectVersion
+ *     responses:
+ *       200:
+ *         description: Archivo JSON ({ manifest, project, pages, versions? }) como descarga
+ *       403:
+ *         description: Prohibido
+ */
+router.get('/:id/export', authMiddleware, requireScope('projects:read'), projectAccessMiddleware('read'), async (req: ExpressRequest, res) => {
+  const parse = projectExportQuerySchema.safeParse(req.query);
+  if (!parse.success) return res.status(400).json({ error: parse.error.errors });
+  const includeVersions = parse.data.versions === 'true';
+  if (includeVersions && !hasScope(req.user?.scopes, 'versions:read')) {
+    return res.status(403).json({ error: `Token scope 'versions:read' required` });
+  }
+  const archive = await exportProjectArchive(req.params.id, { includeVersions });
+  if (!archive) return res.status(404).json({ error: 'Not found' });
+  res.setHeader('Content-Disposition', `attachment; filename="${slugify(archive.project.name) || 'project'}.json"`);
+  res.json(archive);
+});
+
+/**
+ * @openapi
+ * /projects/{id}/export/site:
+ *   get:
+ *     summary: Exporta el proyecto como sitio estático en ZIP (una página HTML por Page, estilos, JS y assets)
+ *     tags:
+ *       - Projects
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: minify
+ *         schema:
+ *           type: string
+ *           enum: ['true', 'false']
+ *         description: Minifica el HTML y el CSS
+ *       - in: query
+ *         name: baseUrl
+ *         schema:
+ *           type: string
+ *         description: URL donde se alojará el sitio; habilita las URLs canónicas por defecto y sitemap.xml
+ *     responses:
+ *       200:
+ *         description: Archivo ZIP listo para subir a cualquier hosting estático
+ *         content:
+ *           application/zip:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       403:
+ *         description: Prohibido
+ */
+router.get('/:id/export/site', authMiddleware, requireScope('projects:read'), projectAccessMiddleware('read'), async (req: ExpressRequest, res) => {
+  const parse = siteExportQuerySchema.safeParse(req.query);
+  if (!parse.success) return res.status(400).json({ error: parse.error.errors });
+  const site = await exportProjectSite(req.params.id, { minify: parse.data.minify === 'true', baseUrl: parse.data.baseUrl });
+  if (!site) return res.status(404).json({ error: 'Not found' });
+  res.setHeader('Content-Type', 'application/zip');
+  res.setHeader('Content-Disposition', `attachment; filename="${slugify(site.name) || 'site'}.zip"`);
+  res.send(site.zip);
+});
+
+/**
+ * @openapi
+ * /projects/import:
+ *   post:
+ *     summary: Crea un proyecto del usuario a partir de un archivo exportado (IDs nuevos, clientId conservados)
+ *     tags:
+ *       - Projects
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               archive:
+ *                 type: object
+ *                 description: Contenido devuelto por GET /projects/{id}/export
+ *               name:
+ *                 type: string
+ *               workspaceId:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Proyecto importado
+ *       400:
+ *         description: Archivo inválido o de una versión no soportada
+ *       403:
+ *         description: No es miembro del workspace destino
+ *       402:
+ *         description: Se alcanzó el límite de proyectos, páginas o almacenamiento del plan (QUOTA_PROJECTS_EXCEEDED, QUOTA_PAGES_EXCEEDED, QUOTA_STORAGE_EXCEEDED)
+ *       413:
+ *         description: designData supera el tamaño máximo del plan (QUOTA_DESIGN_TOO_LARGE)
+ */
+router.post('/import', authMiddleware, requireScope('projects:write'), async (req: ExpressRequest, res) => {
+  requireUser(req);
+  const parse = projectImportSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.errors });
+  const { archive, name, workspaceId } = parse.data;
+  if (archive.versions?.length && !hasScope(req.user.scopes, 'versions:write')) {
+    return res.status(403).json({ error: `Token scope 'versions:write' required` });
+  }
+  if (workspaceId) {
+    const workspaceAccess = await getWorkspaceAccess(req.user.id, workspaceId);
+    if (!workspaceAccess?.role) return res.status(403).json({ error: 'Not a member of this workspace' });
+  }
+  const quota = await checkProjectQuota(quotaSubject({ ownerId: req.user.id, workspaceId: workspaceId ?? null }), {
+    pages: archive.pages.length,
+    design: archive.project.designData,
+    assetBytes: archiveAssetBytes(archive),
+  });
+  if (quota.status === 'exceeded') {
+    const { status, body } = quotaError(quota);
+    return res.status(status).json(body);
+  }
+  const project = await importProjectArchive(archive, req.user.id, { name, workspaceId });
+  // Las versiones importadas se ajustan a la retención del plan
+  await pruneVersions(project.id);
+  res.status(201).json(project);
+});
+
+/**
+ * @openapi
+ * /projects/{id}/publish:
+ *   post:
+ *     summary: Publica el estado actual de las páginas como un release inmutable en /sites/{slug}/ (owner o admin)
+ *     description: Las ediciones posteriores no afectan al sitio público hasta la siguiente publicación.
+ *     tags:
+ *       - Publication
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               slug:
+ *                 type: string
+ *                 description: Sólo en la primera publicación o para cambiarlo; por defecto el slug del nombre
+ *               comment:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Release publicado ({ slug, url, release })
+ *       409:
+ *         description: El slug ya está en uso
+ */
+router.post('/:id/publish', authMiddleware, requireScope('projects:write'), projectAccessMiddleware('publish'), async (req: ExpressRequest, res) => {
+  requireUser(req);
+  const parse = projectPublishSchema.safeParse(req.body ?? {});
+  if (!parse.success) return res.status(400).json({ error: parse.error.errors });
+  let result;
+  try {
+    result = await publishProject(req.params.id, req.user.id, parse.data);
+  } catch (error) {
+    console.error(`[Publish] Error publishing project ${req.params.id}:`, error);
+    return res.status(500).json({ error: 'Error publishing project' });
+  }
+  if (result.status === 'not_found') return res.status(404).json({ error: 'Not found' });
+  if (result.status === 'slug_taken') return res.status(409).json({ error: 'Slug is already in use', code: 'SLUG_TAKEN' });
+  const { publication, release } = result;
+  res.status(201).json({ slug: publication.slug, url: publicSiteUrl(publication.slug), release });
+});
+
+/**
+ * @openapi
+ * /projects/{id}/template:
+ *   patch:
+ *     summary: Marca o desmarca el proyecto como plantilla y define su visibilidad (owner o admin)
+ *     tags:
+ *       - Projects
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               isTemplate:
+ *                 type: boolean
+ *               visibility:
+ *                 type: string
+ *                 enum: [private, workspace, public]
+ *     responses:
+ *       200:
+ *         description: Configuración de plantilla ({ isTemplate, templateVisibility })
+ *       400:
+ *         description: Visibilidad workspace en un proyecto sin workspace
+ */
+router.patch('/:id/template', authMiddleware, requireScope('projects:write'), projectAccessMiddleware('manageLink'), async (req: ExpressRequest, res) => {
+  const parse = projectTemplateSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.errors });
+  const { isTemplate, visibility } = parse.data;
+  const project = await prisma.project.findUnique({ where: { id: req.params.id } });
+  if (!project) return res.status(404).json({ error: 'Not found' });
+  if (visibility === 'workspace' && !project.workspaceId) {
+    return res.status(400).json({ error: 'Project does not belong to a workspace' });
+  }
+  const updated = await prisma.project.update({
+    where: { id: project.id },
+    data: { isTemplate, ...(visibility ? { templateVisibility: visibility } : {}) },
+  });
+  res.json({ isTemplate: updated.isTemplate, templateVisibility: updated.templateVisibility });
+});
+
+// Montar routers secundarios para permisos, invitaciones, versiones, locking y transferencia
 router.use('/:id/permissions', projectPermissionsRouter);
+router.use('/:id/invitations', projectInvitationsRouter);
 router.use('/:id/versions', projectVersionsRouter);
 router.use('/:id/locking', projectLockingRouter);
+router.use('/:id/transfer', projectTransferRouter);
+router.use('/:id/publication', projectPublicationRouter);
+router.use('/:id/assets', projectAssetsRouter);
 
 export const projectRouter = router;
@@ -0,0 +1,324 @@
+/// <reference path="../../types/express/index.d.ts" />
+import { Router, Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import type { Domain } from '@prisma/client';
+import { z } from 'zod';
+import { authMiddleware } from '../auth/auth.middleware';
+import { projectAccessMiddleware } from '../../middlewares/project-access';
+import { requireScope } from '../../middlewares/token-scope';
+import { publicSiteUrl, rollbackPublication, siteSlugSchema } from './publication.service';
+import { addDomain, hostnameSchema, removeDomain, verificationRecord, verifyDomain } from '../sites/domain.service';
+
+const prisma = new PrismaClient();
+const router = Router({ mergeParams: true });
+
+const publicationUpdateSchema = z.object({ slug: siteSlugSchema });
+const rollbackSchema = z.object({ releaseId: z.string() });
+const domainCreateSchema = z.object({ hostname: hostnameSchema });
+
+// Dominio con las instrucciones del registro TXT que debe crear el cliente
+const domainView = (domain: Domain) => ({
+  id: domain.id,
+  hostname: domain.hostname,
+  verified: !!domain.verifiedAt,
+  verifiedAt: domain.verifiedAt,
+  lastCheckedAt: domain.lastCheckedAt,
+  createdAt: domain.createdAt,
+  verificationRecord: verificationRecord(domain),
+});
+
+/**
+ * @openapi
+ * /projects/{id}/publication:
+ *   get:
+ *     summary: Obtiene la publicación del proyecto con su historial de releases
+ *     tags:
+ *       - Publication
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Publicación ({ slug, url, currentReleaseId, releases })
+ *       404:
+ *         description: El proyecto nunca se publicó
+ */
+router.get('/', authMiddleware, requireScope('projects:read'), projectAccessMiddleware('read'), async (req: Request, res: Response) => {
+  const publication = await prisma.publication.findUnique({
+    where: { projectId: req.params.id },
+    include: {
+      releases: {
+        select: { id: true, number: true, comment: true, createdAt: true, createdBy: { select: { id: true, name: true } } },
+        orderBy: { number: 'desc' },
+      },
+    },
+  });
+  if (!publication) return res.status(404).json({ error: 'Project is not published' });
+  res.json({ ...publication, url: publicSiteUrl(publication.slug) });
+});
+
+/**
+ * @openapi
+ * /projects/{id}/publication:
+ *   patch:
+ *     summary: Cambia el slug público del sitio (owner o admin)
+ *     tags:
+ *       - Publication
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               slug:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Slug actualizado ({ slug, url })
+ *       404:
+ *         description: El proyecto nunca se publicó
+ *       409:
+ *         description: El slug ya está en uso
+ */
+router.patch('/', authMiddleware, requireScope('projects:write'), projectAccessMiddleware('publish'), async (req: Request, res: Response) => {
+  const parse = publicationUpdateSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.errors });
+  const { slug } = parse.data;
+  const publication = await prisma.publication.findUnique({ where: { projectId: req.params.id } });
+  if (!publication) return res.status(404).json({ error: 'Project is not published' });
+  const taken = await prisma.publication.findUnique({ where: { slug } });
+  if (taken && taken.id !== publication.id) return res.status(409).json({ error: 'Slug is already in use', code: 'SLUG_TAKEN' });
+  await prisma.publication.update({ where: { id: publication.id }, data: { slug } });
+  res.json({ slug, url: publicSiteUrl(slug) });
+});
+
+/**
+ * @openapi
+ * /projects/{id}/publication/rollback:
+ *   post:
+ *     summary: Vuelve a poner en línea un release anterior (owner o admin)
+ *     tags:
+ *       - Publication
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               releaseId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Release en línea ({ currentReleaseId })
+ *       404:
+ *         description: Release no encontrado
+ */
+router.post('/rollback', authMiddleware, requireScope('projects:write'), projectAccessMiddleware('publish'), async (req: Request, res: Response) => {
+  const parse = rollbackSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.errors });
+  const ok = await rollbackPublication(req.params.id, parse.data.releaseId);
+  if (!ok) return res.status(404).json({ error: 'Release not found' });
+  res.json({ currentReleaseId: parse.data.releaseId });
+});
+
+/**
+ * @openapi
+ * /projects/{id}/publication:
+ *   delete:
+ *     summary: Despublica el sitio (conserva el slug y los releases para volver a publicar o hacer rollback)
+ *     tags:
+ *       - Publication
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Sitio despublicado
+ *       404:
+ *         description: El proyecto nunca se publicó
+ */
+router.delete('/', authMiddleware, requireScope('projects:write'), projectAccessMiddleware('publish'), async (req: Request, res: Response) => {
+  const { count } = await prisma.publication.updateMany({ where: { projectId: req.params.id }, data: { currentReleaseId: null } });
+  if (count === 0) return res.status(404).json({ error: 'Project is not published' });
+  res.status(204).send();
+});
+
+/**
+ * @openapi
+ * /projects/{id}/publication/domains:
+ *   get:
+ *     summary: Lista los dominios propios del sitio con su estado de verificación
+ *     tags:
+ *       - Publication
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Lista de dominios ({ id, hostname, verified, verificationRecord })
+ */
+router.get('/domains', authMiddleware, requireScope('projects:read'), projectAccessMiddleware('read'), async (req: Request, res: Response) => {
+  const domains = await prisma.domain.findMany({
+    where: { publication: { projectId: req.params.id } },
+    orderBy: { createdAt: 'asc' },
+  });
+  res.json(domains.map(domainView));
+});
+
+/**
+ * @openapi
+ * /projects/{id}/publication/domains:
+ *   post:
+ *     summary: Agrega un dominio propio (owner o admin); queda pendiente hasta verificar el registro TXT
+ *     tags:
+ *       - Publication
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               hostname:
+ *                 type: string
+ *                 example: www.example.com
+ *     responses:
+ *       201:
+ *         description: Dominio agregado con el registro TXT a crear
+ *       404:
+ *         description: El proyecto nunca se publicó
+ *       409:
+ *         description: Otra publicación ya verificó el dominio, o esta ya lo agregó
+ */
+router.post('/domains', authMiddleware, requireScope('projects:write'), projectAccessMiddleware('publish'), async (req: Request, res: Response) => {
+  const parse = domainCreateSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.errors });
+  const publication = await prisma.publication.findUnique({ where: { projectId: req.params.id } });
+  if (!publication) return res.status(404).json({ error: 'Project is not published' });
+  const domain = await addDomain(publication.id, parse.data.hostname);
+  if (!domain) return res.status(409).json({ error: 'Domain is already registered', code: 'DOMAIN_TAKEN' });
+  res.status(201).json(domainView(domain));
+});
+
+/**
+ * @openapi
+ * /projects/{id}/publication/domains/{domainId}/verify:
+ *   post:
+ *     summary: Comprueba el registro TXT del dominio y lo activa si es correcto
+ *     tags:
+ *       - Publication
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: domainId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Dominio verificado
+ *       404:
+ *         description: Dominio no encontrado
+ *       409:
+ *         description: Otra publicación ya tiene el dominio verificado
+ *       422:
+ *         description: No se encontró el registro TXT esperado
+ */
+router.post('/domains/:domainId/verify', authMiddleware, requireScope('projects:write'), projectAccessMiddleware('publish'), async (req: Request, res: Response) => {
+  const domain = await prisma.domain.findFirst({ where: { id: req.params.domainId, publication: { projectId: req.params.id } } });
+  if (!domain) return res.status(404).json({ error: 'Domain not found' });
+  let verified;
+  try {
+    verified = await verifyDomain(domain);
+  } catch (error) {
+    console.error(`[Domains] Error resolving TXT record for ${domain.hostname}:`, error);
+    return res.status(502).json({ error: 'DNS lookup failed, try again later' });
+  }
+  if (!verified) return res.status(409).json({ error: 'Domain is already registered', code: 'DOMAIN_TAKEN' });
+  if (!verified.verifiedAt) {
+    return res.status(422).json({ error: 'Verification TXT record not found', code: 'DOMAIN_NOT_VERIFIED', domain: domainView(verified) });
+  }
+  res.json(domainView(verified));
+});
+
+/**
+ * @openapi
+ * /projects/{id}/publication/domains/{domainId}:
+ *   delete:
+ *     summary: Quita un dominio propio (deja de enrutarse de inmediato)
+ *     tags:
+ *       - Publication
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: domainId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Dominio eliminado
+ *       404:
+ *         description: Dominio no encontrado
+ */
+router.delete('/domains/:domainId', authMiddleware, requireScope('projects:write'), projectAccessMiddleware('publish'), async (req: Request, res: Response) => {
+  const domain = await prisma.domain.findFirst({ where: { id: req.params.domainId, publication: { projectId: req.params.id } } });
+  if (!domain) return res.status(404).json({ error: 'Domain not found' });
+  await removeDomain(domain);
+  res.status(204).send();
+});
+
+export const projectPublicationRouter = router;
@@ -0,0 +1,166 @@
+import crypto from 'crypto';
+import path from 'path';
+import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { buildSiteFiles } from './site-export.service';
+import { readLibraryAsset } from '../assets/asset.service';
+import { slugify } from '../../utils/slug';
+import { PAGE_ORDER } from '../pages/page-routing';
+
+const prisma = new PrismaClient();
+
+// Slugs públicos: minúsculas, números y guiones, entre 3 y 63 caracteres
+export const siteSlugSchema = z.string().regex(/^[a-z0-9](?:[a-z0-9-]{1,61}[a-z0-9])$/, 'Invalid slug');
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.js': 'application/javascript; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.txt': 'text/plain; charset=utf-8',
+  '.xml': 'application/xml; charset=utf-8',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.ico': 'image/x-icon',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+  '.mp4': 'video/mp4',
+  '.pdf': 'application/pdf',
+};
+
+export function contentTypeFor(filePath: string): string {
+  return CONTENT_TYPES[path.extname(filePath).toLowerCase()] ?? 'application/octet-stream';
+}
+
+// URL pública del sitio (la API sirve los sitios en /sites/:slug/)
+export function publicSiteUrl(slug: string): string {
+  return `${process.env.PUBLIC_SITES_URL || 'http://localhost:4000'}/sites/${slug}/`;
+}
+
+// Violación del índice único de Publication.slug (P2002 con el campo slug en meta.target)
+const isSlugConflict = (error: unknown) => {
+  const { code, meta } = (error ?? {}) as { code?: string; meta?: { target?: unknown } };
+  return code === 'P2002' && String(meta?.target ?? '').includes('slug');
+};
+
+export type PublishResult =
+  | { status: 'published'; publication: { id: string; slug: string }; release: { id: string; number: number; createdAt: Date } }
+  | { status: 'not_found' }
+  | { status: 'slug_taken' };
+
+/**
+ * Congela las páginas no eliminadas del proyecto en un release nuevo e inmutable y lo pone en línea.
+ * La primera publicación crea la Publication con el slug indicado o, si no se indica, con el slug del nombre.
+ * Los assets remotos se mantienen con su URL absoluta; los embebidos en base64 y los de la biblioteca se guardan como archivos del release.
+ */
+export async function publishProject(
+  projectId: string,
+  userId: string,
+  options: { slug?: string; comment?: string } = {}
+): Promise<PublishResult> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    include: {
+      pages: { where: { isDeleted: false }, orderBy: PAGE_ORDER },
+      publication: { include: { domains: { where: { verifiedAt: { not: null } }, orderBy: { createdAt: 'asc' }, take: 1 } } },
+    },
+  });
+  if (!project) return { status: 'not_found' };
+
+  let slug = options.slug ?? project.publication?.slug;
+  if (slug && slug !== project.publication?.slug) {
+    const taken = await prisma.publication.findUnique({ where: { slug } });
+    if (taken) return { status: 'slug_taken' };
+  }
+  if (!slug) {
+    // Slug por defecto: el del nombre, con sufijo aleatorio si ya está en uso o es demasiado corto
+    const base = slugify(project.name).slice(0, 50);
+    slug = base.length >= 3 && !(await prisma.publication.findUnique({ where: { slug: base } }))
+      ? base
+      : `${base || 'site'}-${crypto.randomBytes(3).toString('hex')}`;
+  }
+
+  // Las URLs canónicas y el sitemap usan el primer dominio propio verificado o, si no hay, la URL en /sites
+  const domain = project.publication?.domains?.[0];
+  const baseUrl = domain ? `https://${domain.hostname}/` : publicSiteUrl(slug);
+  const files = await buildSiteFiles(project, project.pages, {
+    loadLibraryAsset: url => readLibraryAsset(projectId, url),
+    baseUrl,
+  });
+
+  // La comprobación previa del slug no bloquea nada: si otra publicación lo reclama a la vez, el índice único decide
+  return prisma.$transaction(async tx => {
+    const publication = project.publication
+      ? await tx.publication.update({ where: { id: project.publication.id }, data: { slug } })
+      : await tx.publication.create({ data: { projectId, slug: slug! } });
+    const last = await tx.siteRelease.findFirst({
+      where: { publicationId: publication.id },
+      orderBy: { number: 'desc' },
+      select: { number: true },
+    });
+    const release = await tx.siteRelease.create({
+      data: {
+        publicationId: publication.id,
+        number: (last?.number ?? 0) + 1,
+        comment: options.comment,
+        createdById: userId,
+        files: {
+          create: files.map(file => {
+            const content = typeof file.data === 'string' ? Buffer.from(file.data, 'utf8') : file.data;
+            return {
+              path: file.name,
+              contentType: contentTypeFor(file.name),
+              content,
+              etag: crypto.createHash('sha256').update(content).digest('hex'),
+            };
+          }),
+        },
+      },
+      select: { id: true, number: true, createdAt: true },
+    });
+    await tx.publication.update({ where: { id: publication.id }, data: { currentReleaseId: release.id } });
+    return { status: 'published' as const, publication: { id: publication.id, slug: publication.slug }, release };
+  }).catch((error): PublishResult => {
+    if (isSlugConflict(error)) return { status: 'slug_taken' };
+    throw error;
+  });
+}
+
+/**
+ * Vuelve a servir un release anterior de la publicación. Devuelve false si el release no pertenece al proyecto.
+ */
+export async function rollbackPublication(projectId: string, releaseId: string): Promise<boolean> {
+  const release = await prisma.siteRelease.findFirst({ where: { id: releaseId, publication: { projectId } } });
+  if (!release) return false;
+  await prisma.publication.update({ where: { id: release.publicationId }, data: { currentReleaseId: release.id } });
+  return true;
+}
+
+/**
+ * Busca un archivo del release en línea de la publicación (por slug o por id, p. ej. desde un dominio propio).
+ * Admite rutas sin extensión (`contacto` → `contacto.html`) y directorios (`/` → `index.html`).
+ * Los sitios de proyectos en la papelera no se sirven.
+ */
+export async function findPublishedFile(publication: { slug: string } | { id: string }, filePath: string) {
+  const current = await prisma.publication.findUnique({
+    where: publication,
+    select: { currentReleaseId: true, project: { select: { deletedAt: true } } },
+  });
+  if (!current?.currentReleaseId || current.project.deletedAt) return null;
+  const normalized = filePath.replace(/^\/+/, '');
+  const candidates = !normalized || normalized.endsWith('/')
+    ? [`${normalized}index.html`]
+    : [normalized, `${normalized}.html`, `${normalized}/index.html`];
+  return prisma.siteReleaseFile.findFirst({
+    where: { releaseId: current.currentReleaseId, path: { in: candidates } },
+    // Coincidencia exacta antes que las variantes con .html
+    orderBy: { path: 'asc' },
+  });
+}
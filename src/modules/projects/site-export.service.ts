@@ -0,0 +1,273 @@
+import crypto from 'crypto';
+import path from 'path';
+import { PrismaClient } from '@prisma/client';
+import type { Prisma } from '@prisma/client';
+import { createZip, ZipEntry } from '../../utils/zip';
+import { minifyCss, minifyHtml } from '../../utils/minify';
+import { slugify } from '../../utils/slug';
+import { PAGE_ORDER, pagePaths } from '../pages/page-routing';
+import { ASSET_URL_PATTERN, readLibraryAsset } from '../assets/asset.service';
+import { buildRobotsTxt, buildSitemap, isIndexable, parsePageSeo, renderSeoHead } from '../pages/page-seo';
+
+const prisma = new PrismaClient();
+
+// Obtiene el contenido de un asset; null si no se pudo obtener (el export conserva entonces la URL)
+export type AssetFetcher = (url: string) => Promise<{ data: Buffer; contentType?: string | null } | null>;
+
+export interface SiteExportOptions {
+  minify?: boolean;
+  // Descarga los assets remotos del proyecto. No hay descarga por defecto: el servidor no pide URLs que escriben los
+  // editores (SSRF), y el sitio exportado conserva las URLs absolutas
+  fetchAsset?: AssetFetcher;
+  // Lee los assets de la biblioteca del proyecto (URLs /projects/:id/assets/:assetId/content); sin él se dejan las URLs
+  loadLibraryAsset?: AssetFetcher;
+  // URL pública del sitio (p. ej. https://www.example.com/); sin ella no hay canonical por defecto ni sitemap.xml
+  baseUrl?: string;
+}
+
+export interface SiteProjectInput {
+  name: string;
+  html: string | null;
+  css: string | null;
+  js: string | null;
+  assets: Prisma.JsonValue | null;
+}
+
+export interface SitePageInput {
+  id: string;
+  clientId: string;
+  name: string;
+  slug?: string; // segmento de URL de la página; si falta se usa el slug del nombre
+  parentId?: string | null;
+  seo?: Prisma.JsonValue | null;
+  updatedAt?: Date;
+  html: string | null;
+  css: string | null;
+  isDefault: boolean;
+}
+
+const STYLESHEET = 'styles.css';
+const SCRIPT = 'script.js';
+const ASSET_DIR = 'assets';
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/x-icon': 'ico',
+  'image/vnd.microsoft.icon': 'ico',
+  'font/woff': 'woff',
+  'font/woff2': 'woff2',
+  'font/ttf': 'ttf',
+  'font/otf': 'otf',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'application/pdf': 'pdf',
+};
+
+const DATA_URI = /data:([a-z0-9.+-]+\/[a-z0-9.+-]+)((?:;[a-z0-9=.+-]+)*);base64,([a-z0-9+/=]+)/gi;
+
+const SITEMAP = 'sitemap.xml';
+const ROBOTS = 'robots.txt';
+
+/**
+ * Nombre de archivo por página según su ruta en el árbol: la principal es index.html y el resto
+ * `<slug>.html`, anidado en carpetas si tiene padre (`nosotros/equipo.html`), sin repetir.
+ */
+export function sitePageFileNames(pages: SitePageInput[]): Map<string, string> {
+  const names = new Map<string, string>();
+  const used = new Set<string>(['index']);
+  const defaultPage = pages.find(page => page.isDefault) ?? pages[0];
+  const paths = pagePaths(pages.map(page => ({
+    id: page.id,
+    slug: page.slug || slugify(page.name) || 'page',
+    parentId: page.parentId ?? null,
+    isDefault: page === defaultPage,
+  })));
+  for (const page of pages) {
+    if (page === defaultPage) {
+      names.set(page.id, 'index.html');
+      continue;
+    }
+    const base = paths.get(page.id)!.slice(1);
+    let name = base;
+    for (let n = 2; used.has(name); n++) name = `${base}-${n}`;
+    used.add(name);
+    names.set(page.id, `${name}.html`);
+  }
+  return names;
+}
+
+// Ruta relativa desde el archivo de una página (que puede estar en una subcarpeta) a otro archivo del sitio
+const relativeTo = (fromFile: string, target: string) => path.posix.relative(path.posix.dirname(fromFile), target);
+
+// Enlaces entre páginas: #id, /clientId, slug, ruta anidada, etc. se reescriben al archivo .html correspondiente
+function rewritePageLinks(html: string, pages: SitePageInput[], fileNames: Map<string, string>, fromFile: string): string {
+  const targets = new Map<string, string>();
+  for (const page of pages) {
+    const file = fileNames.get(page.id)!;
+    for (const key of [page.id, page.clientId, file.replace(/\.html$/, ''), page.slug, slugify(page.name)]) {
+      if (key && !targets.has(key)) targets.set(key, file);
+    }
+  }
+  return html.replace(/(href\s*=\s*)(["'])([^"']*)\2/gi, (match, prefix: string, quote: string, value: string) => {
+    const key = value.replace(/^(?:#|\/)+/, '').replace(/\.html$/, '');
+    const file = targets.get(key);
+    return file ? `${prefix}${quote}${relativeTo(fromFile, file)}${quote}` : match;
+  });
+}
+
+// URL pública sin extensión de una página ('' para la principal), la que sirve el hosting de publicaciones
+const cleanPath = (file: string) => (file === 'index.html' ? '' : file.replace(/\.html$/, ''));
+
+const assetSources = (assets: Prisma.JsonValue | null): string[] =>
+  Array.isArray(assets)
+    ? assets
+        .map(asset => (typeof asset === 'string' ? asset : asset && typeof asset === 'object' && !Array.isArray(asset) ? asset.src : null))
+        .filter((src): src is string => typeof src === 'string')
+    : [];
+
+function assetFileName(data: Buffer, extension: string): string {
+  const hash = crypto.createHash('sha256').update(data).digest('hex').slice(0, 16);
+  return `${ASSET_DIR}/${hash}.${extension}`;
+}
+
+/**
+ * Genera los archivos del sitio estático: una página HTML por cada Page (la principal como index.html) con sus metadatos SEO,
+ * una hoja de estilos compartida, el JS del proyecto, los assets referenciados con rutas relativas, robots.txt y,
+ * si se conoce la URL pública, sitemap.xml.
+ */
+export async function buildSiteFiles(
+  project: SiteProjectInput,
+  pages: SitePageInput[],
+  options: SiteExportOptions = {}
+): Promise<ZipEntry[]> {
+  const { fetchAsset } = options;
+  const files: ZipEntry[] = [];
+  const assetFiles = new Map<string, Buffer>();
+
+  // Sin páginas se exporta el HTML del proyecto como única página
+  const sitePages: SitePageInput[] = pages.length
+    ? pages
+    : [{ id: 'project', clientId: 'project', name: project.name, html: project.html, css: null, isDefault: true }];
+  const fileNames = sitePageFileNames(sitePages);
+
+  const stylesheet = [...new Set([project.css, ...sitePages.map(page => page.css)].filter((css): css is string => !!css?.trim()))].join('\n');
+  const documents = sitePages.map(page => {
+    const file = fileNames.get(page.id)!;
+    return { page, file, html: rewritePageLinks(page.html ?? '', sitePages, fileNames, file) };
+  });
+  let contents = [stylesheet, ...documents.map(doc => doc.html)];
+
+  // Assets embebidos en base64: se extraen a archivos
+  contents = contents.map(content =>
+    content.replace(DATA_URI, (_match, mime: string, _params: string, base64: string) => {
+      const data = Buffer.from(base64, 'base64');
+      const file = assetFileName(data, MIME_EXTENSIONS[mime.toLowerCase()] ?? 'bin');
+      assetFiles.set(file, data);
+      return file;
+    })
+  );
+
+  // Assets remotos registrados en el proyecto: se descargan si aparecen en el contenido y hay un fetchAsset
+  for (const src of new Set(assetSources(project.assets))) {
+    if (!fetchAsset || !/^https?:\/\//i.test(src) || !contents.some(content => content.includes(src))) continue;
+    const asset = await fetchAsset(src);
+    if (!asset) continue;
+    const mime = asset.contentType?.split(';')[0].trim().toLowerCase();
+    const extension = path.extname(new URL(src).pathname).slice(1).toLowerCase() || (mime && MIME_EXTENSIONS[mime]) || 'bin';
+    const file = assetFileName(asset.data, extension);
+    assetFiles.set(file, asset.data);
+    contents = contents.map(content => content.split(src).join(file));
+  }
+
+  // Assets de la biblioteca del proyecto: se leen del almacenamiento y se incluyen en el sitio
+  if (options.loadLibraryAsset) {
+    // Las URLs firmadas antes que las mismas sin firma, que son prefijo de aquellas
+    const urls = [...new Set(contents.flatMap(content => content.match(ASSET_URL_PATTERN) ?? []))].sort((a, b) => b.length - a.length);
+    for (const url of urls) {
+      const asset = await options.loadLibraryAsset(url);
+      if (!asset) continue;
+      const mime = asset.contentType?.split(';')[0].trim().toLowerCase();
+      const file = assetFileName(asset.data, (mime && MIME_EXTENSIONS[mime]) || 'bin');
+      assetFiles.set(file, asset.data);
+      contents = contents.map(content => content.split(url).join(file));
+    }
+  }
+
+  const [css, ...htmls] = contents;
+  const hasCss = !!css.trim();
+  const hasJs = !!project.js?.trim();
+  const baseUrl = options.baseUrl?.replace(/\/?$/, '/');
+
+  documents.forEach(({ page, file }, index) => {
+    // Las páginas anidadas referencian estilos, script y assets desde su subcarpeta
+    let body = htmls[index];
+    if (file.includes('/')) {
+      for (const asset of assetFiles.keys()) body = body.split(asset).join(relativeTo(file, asset));
+    }
+    const head = renderSeoHead(parsePageSeo(page.seo), {
+      title: page.name,
+      url: baseUrl ? `${baseUrl}${cleanPath(file)}` : undefined,
+    });
+    const document = [
+      '<!DOCTYPE html>',
+      '<html>',
+      '<head>',
+      '<meta charset="utf-8">',
+      '<meta name="viewport" content="width=device-width, initial-scale=1">',
+      ...head,
+      ...(hasCss ? [`<link rel="stylesheet" href="${relativeTo(file, STYLESHEET)}">`] : []),
+      '</head>',
+      '<body>',
+      body,
+      ...(hasJs ? [`<script src="${relativeTo(file, SCRIPT)}"></script>`] : []),
+      '</body>',
+      '</html>',
+      '',
+    ].join('\n');
+    files.push({ name: file, data: options.minify ? minifyHtml(document) : document });
+  });
+  if (hasCss) files.push({ name: STYLESHEET, data: options.minify ? minifyCss(css) : css });
+  if (hasJs) files.push({ name: SCRIPT, data: project.js! });
+  for (const [name, data] of assetFiles) files.push({ name, data });
+
+  // sitemap.xml (sólo con URL pública conocida) y robots.txt a partir del árbol de páginas
+  const indexable = documents.filter(({ page }) => isIndexable(parsePageSeo(page.seo)));
+  const blocked = documents.filter(document => !indexable.includes(document));
+  const rootPath = baseUrl ? new URL(baseUrl).pathname : '/';
+  if (baseUrl) {
+    files.push({
+      name: SITEMAP,
+      data: buildSitemap(indexable.map(({ page, file }) => ({ url: `${baseUrl}${cleanPath(file)}`, lastModified: page.updatedAt }))),
+    });
+  }
+  files.push({
+    name: ROBOTS,
+    data: buildRobotsTxt({
+      // La principal se bloquea con '$' para no bloquear todo el sitio
+      disallow: blocked.map(({ file }) => `${rootPath}${cleanPath(file) || '$'}`),
+      sitemapUrl: baseUrl ? `${baseUrl}${SITEMAP}` : undefined,
+    }),
+  });
+  return files;
+}
+
+/**
+ * Genera el ZIP del sitio estático con las páginas no eliminadas. Devuelve null si el proyecto no existe.
+ */
+export async function exportProjectSite(projectId: string, options: SiteExportOptions = {}): Promise<{ name: string; zip: Buffer } | null> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    include: { pages: { where: { isDeleted: false }, orderBy: PAGE_ORDER } },
+  });
+  if (!project) return null;
+  const files = await buildSiteFiles(project, project.pages, {
+    ...options,
+    loadLibraryAsset: url => readLibraryAsset(projectId, url),
+  });
+  return { name: project.name, zip: createZip(files) };
+}
@@ -0,0 +1,205 @@
+import crypto from 'crypto';
+import { Prisma, PrismaClient } from '@prisma/client';
+import type { ProjectVersion } from '@prisma/client';
+import { z } from 'zod';
+import { PAGE_ORDER, pageSlugSchema, parentsFirst, sanitizeParents } from '../pages/page-routing';
+import { parsePageSeo } from '../pages/page-seo';
+
+const prisma = new PrismaClient();
+
+export const SNAPSHOT_FORMAT = 'project-snapshot';
+export const SNAPSHOT_VERSION = 1;
+
+const jsonValue = z.any();
+
+/**
+ * Formato canónico de ProjectVersion.snapshot: el contenido del proyecto y todas sus páginas no eliminadas.
+ * Las páginas se identifican por clientId (estable entre versiones, a diferencia del ID de la base de datos).
+ */
+export const projectSnapshotSchema = z.object({
+  format: z.literal(SNAPSHOT_FORMAT),
+  version: z.literal(SNAPSHOT_VERSION),
+  project: z.object({
+    name: z.string(),
+    description: z.string().nullable(),
+    designData: jsonValue.nullable(),
+    html: z.string().nullable(),
+    css: z.string().nullable(),
+    js: z.string().nullable(),
+    components: jsonValue.nullable(),
+    assets: jsonValue.nullable(),
+  }),
+  pages: z.array(z.object({
+    clientId: z.string().min(1),
+    name: z.string(),
+    slug: pageSlugSchema,
+    position: z.number().int().min(0),
+    parentClientId: z.string().nullable(),
+    html: z.string().nullable(),
+    css: z.string().nullable(),
+    components: jsonValue.nullable(),
+    seo: jsonValue.nullable(),
+    isDefault: z.boolean(),
+  })).refine(pages => new Set(pages.map(page => page.clientId)).size === pages.length, {
+    message: 'Duplicate page clientId',
+  }).refine(pages => new Set(pages.map(page => page.slug)).size === pages.length, {
+    message: 'Duplicate page slug',
+  }),
+});
+
+export type ProjectSnapshot = z.infer<typeof projectSnapshotSchema>;
+
+type Client = PrismaClient | Prisma.TransactionClient;
+
+// Restaurar debe poder vaciar una columna Json? (null en el snapshot)
+const jsonOrNull = (value: unknown) => (value === null || value === undefined ? Prisma.DbNull : (value as Prisma.InputJsonValue));
+
+/**
+ * Snapshot canónico del estado actual del proyecto; null si no existe
+ */
+export async function captureProjectSnapshot(projectId: string, client: Client = prisma): Promise<ProjectSnapshot | null> {
+  const project = await client.project.findUnique({
+    where: { id: projectId },
+    include: { pages: { where: { isDeleted: false }, orderBy: PAGE_ORDER } },
+  });
+  if (!project) return null;
+  const clientIds = new Map(project.pages.map(page => [page.id, page.clientId]));
+  return {
+    format: SNAPSHOT_FORMAT,
+    version: SNAPSHOT_VERSION,
+    project: {
+      name: project.name,
+      description: project.description,
+      designData: project.designData,
+      html: project.html,
+      css: project.css,
+      js: project.js,
+      components: project.components,
+      assets: project.assets,
+    },
+    pages: project.pages.map(page => ({
+      clientId: page.clientId,
+      name: page.name,
+      slug: page.slug,
+      position: page.position,
+      parentClientId: page.parentId ? clientIds.get(page.parentId) ?? null : null,
+      html: page.html,
+      css: page.css,
+      components: page.components,
+      seo: parsePageSeo(page.seo),
+      isDefault: page.isDefault,
+    })),
+  };
+}
+
+/**
+ * Escribe un snapshot sobre el proyecto (dentro de la transacción `tx`): contenido del proyecto y páginas. Las páginas
+ * del snapshot se actualizan, se restauran si estaban eliminadas o se vuelven a crear; el resto se eliminan (borrado lógico).
+ * El nombre y la descripción del proyecto no se tocan.
+ */
+export async function applyProjectSnapshot(tx: Prisma.TransactionClient, projectId: string, snapshot: ProjectSnapshot): Promise<void> {
+  const { project } = snapshot;
+  await tx.project.update({
+    where: { id: projectId },
+    data: {
+      designData: jsonOrNull(project.designData),
+      html: project.html,
+      css: project.css,
+      js: project.js,
+      components: jsonOrNull(project.components),
+      assets: jsonOrNull(project.assets),
+    },
+  });
+
+  const existing = await tx.page.findMany({ where: { projectId }, select: { id: true, clientId: true, slug: true } });
+  const byClientId = new Map(existing.map(page => [page.clientId, page]));
+  const restored = new Set(snapshot.pages.map(page => page.clientId));
+  const wantedSlugs = new Set(snapshot.pages.map(page => page.slug));
+  const taken = new Set([...wantedSlugs, ...existing.map(page => page.slug)]);
+
+  // Las páginas que no están en el snapshot se eliminan y ceden su slug si el snapshot lo necesita
+  for (const page of existing.filter(page => !restored.has(page.clientId))) {
+    let slug = page.slug;
+    if (wantedSlugs.has(slug)) {
+      for (let n = 2; taken.has(slug); n++) slug = `${page.slug}-${n}`;
+      taken.add(slug);
+    }
+    await tx.page.update({ where: { id: page.id }, data: { isDeleted: true, isDefault: false, slug } });
+  }
+
+  // Slugs temporales para que el intercambio de slugs entre páginas no choque con la restricción única
+  for (const page of snapshot.pages) {
+    const current = byClientId.get(page.clientId);
+    if (current && current.slug !== page.slug) {
+      await tx.page.update({ where: { id: current.id }, data: { slug: `restore-${current.id}` } });
+    }
+  }
+
+  // IDs de la base de datos (nuevos para las páginas a recrear); los padres se escriben antes que sus hijas
+  const ids = new Map(snapshot.pages.map(page => [page.clientId, byClientId.get(page.clientId)?.id ?? crypto.randomUUID()]));
+  const parents = sanitizeParents(snapshot.pages.map(page => ({ id: page.clientId, parentId: page.parentClientId })));
+  const defaultPage = snapshot.pages.find(page => page.isDefault)?.clientId;
+  const ordered = parentsFirst(snapshot.pages.map(page => ({ ...page, id: page.clientId, parentId: parents.get(page.clientId) ?? null })));
+  for (const page of ordered) {
+    const data = {
+      name: page.name,
+      slug: page.slug,
+      position: page.position,
+      parentId: page.parentId ? ids.get(page.parentId)! : null,
+      html: page.html,
+      css: page.css,
+      components: jsonOrNull(page.components),
+      seo: jsonOrNull(page.seo),
+      isDefault: page.clientId === defaultPage,
+      isDeleted: false,
+    };
+    if (byClientId.has(page.clientId)) {
+      await tx.page.update({ where: { id: ids.get(page.clientId)! }, data });
+    } else {
+      await tx.page.create({ data: { ...data, id: ids.get(page.clientId)!, clientId: page.clientId, projectId } });
+    }
+  }
+}
+
+export type RestoreVersionResult =
+  | { status: 'restored'; version: ProjectVersion; backup: ProjectVersion }
+  | { status: 'not_found' }
+  | { status: 'unsupported' };
+
+/**
+ * Restaura una versión en una transacción: guarda antes el estado actual como versión de respaldo, aplica el snapshot
+ * y registra el resultado como una versión nueva. Los snapshots anteriores al formato canónico no se pueden aplicar.
+ */
+export async function restoreProjectVersion(projectId: string, versionId: string, userId: string): Promise<RestoreVersionResult> {
+  const source = await prisma.projectVersion.findUnique({ where: { id: versionId } });
+  if (!source || source.projectId !== projectId) return { status: 'not_found' };
+  const parsed = projectSnapshotSchema.safeParse(source.snapshot);
+  if (!parsed.success) return { status: 'unsupported' };
+
+  return prisma.$transaction(async tx => {
+    const current = await captureProjectSnapshot(projectId, tx);
+    // Fechas explícitas: el respaldo debe quedar justo antes de la versión restaurada en el historial
+    const now = Date.now();
+    const backup = await tx.projectVersion.create({
+      data: {
+        projectId,
+        createdById: userId,
+        comment: `Backup before restoring version ${versionId}`,
+        snapshot: current as Prisma.InputJsonValue,
+        createdAt: new Date(now),
+      },
+    });
+    await applyProjectSnapshot(tx, projectId, parsed.data);
+    const restored = await captureProjectSnapshot(projectId, tx);
+    const version = await tx.projectVersion.create({
+      data: {
+        projectId,
+        createdById: userId,
+        comment: `Restored from version ${versionId}`,
+        snapshot: restored as Prisma.InputJsonValue,
+        createdAt: new Date(now + 1),
+      },
+    });
+    return { status: 'restored' as const, version, backup };
+  });
+}
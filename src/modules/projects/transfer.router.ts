@@ -0,0 +1,252 @@
+/// <reference path="../../types/express/index.d.ts" />
+import { Router, Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { authMiddleware } from '../auth/auth.middleware';
+import { projectAccessMiddleware } from '../../middlewares/project-access';
+import { requireScope, requireSession } from '../../middlewares/token-scope';
+import { acceptTransfer, createTransfer, isTransferPending } from './transfer.service';
+import { checkProjectMoveQuota, quotaError } from '../quotas/quota.service';
+
+const prisma = new PrismaClient();
+const router = Router({ mergeParams: true });
+
+const transferCreateSchema = z.object({
+  userId: z.string().optional(),
+  email: z.string().email().optional(),
+  keepAsEditor: z.boolean().optional(),
+}).refine(data => data.userId || data.email, { message: 'userId or email is required' });
+
+// Helper: assert user is present (type guard)
+function requireUser(req: Request): asserts req is Request & { user: { id: string } } {
+  if (!req.user) throw new Error('User not found in request. Auth middleware missing?');
+}
+
+/**
+ * @openapi
+ * /projects/{id}/transfer:
+ *   post:
+ *     summary: Propone transferir la propiedad a un colaborador existente (sólo owner)
+ *     description: La transferencia queda pendiente hasta que el destinatario la acepte.
+ *     tags:
+ *       - Project Transfer
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               userId:
+ *                 type: string
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               keepAsEditor:
+ *                 type: boolean
+ *                 description: El owner actual se queda como editor
+ *     responses:
+ *       201:
+ *         description: Transferencia pendiente creada
+ *       400:
+ *         description: El destinatario no es colaborador del proyecto
+ *       403:
+ *         description: Prohibido
+ */
+router.post('/', authMiddleware, requireSession, projectAccessMiddleware('transfer'), async (req: Request, res: Response) => {
+  requireUser(req);
+  const { id: projectId } = req.params;
+  const parse = transferCreateSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.errors });
+  const { userId, email, keepAsEditor } = parse.data;
+
+  const project = await prisma.project.findUnique({ where: { id: projectId } });
+  if (!project) return res.status(404).json({ error: 'Not found' });
+  const recipient = userId
+    ? await prisma.user.findUnique({ where: { id: userId } })
+    : await prisma.user.findFirst({ where: { email: { equals: email!, mode: 'insensitive' } } });
+  if (!recipient || recipient.id === project.ownerId) {
+    return res.status(400).json({ error: 'Recipient must be an existing collaborator' });
+  }
+  const membership = await prisma.projectPermission.findUnique({
+    where: { projectId_userId: { projectId, userId: recipient.id } },
+  });
+  if (!membership) return res.status(400).json({ error: 'Recipient must be an existing collaborator' });
+
+  const transfer = await createTransfer(project, recipient, !!keepAsEditor);
+  res.status(201).json(transfer);
+});
+
+/**
+ * @openapi
+ * /projects/{id}/transfer:
+ *   get:
+ *     summary: Obtiene la transferencia pendiente (visible para el owner y el destinatario)
+ *     tags:
+ *       - Project Transfer
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Transferencia pendiente
+ *       404:
+ *         description: No hay transferencia pendiente
+ */
+router.get('/', authMiddleware, requireScope('projects:read'), projectAccessMiddleware('read'), async (req: Request, res: Response) => {
+  requireUser(req);
+  const { id: projectId } = req.params;
+  const transfer = await prisma.projectTransfer.findFirst({
+    where: {
+      projectId,
+      acceptedAt: null,
+      declinedAt: null,
+      cancelledAt: null,
+      expiresAt: { gt: new Date() },
+      OR: [{ fromUserId: req.user.id }, { toUserId: req.user.id }],
+    },
+    include: { toUser: { select: { id: true, name: true, email: true } }, fromUser: { select: { id: true, name: true } } },
+  });
+  if (!transfer) return res.status(404).json({ error: 'Transfer not found' });
+  res.json(transfer);
+});
+
+/**
+ * @openapi
+ * /projects/{id}/transfer/{transferId}/accept:
+ *   post:
+ *     summary: El destinatario acepta la transferencia y pasa a ser owner
+ *     tags:
+ *       - Project Transfer
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: transferId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Propiedad transferida ({ projectId, ownerId })
+ *       404:
+ *         description: Transferencia no encontrada o no dirigida a este usuario
+ *       409:
+ *         description: La transferencia ya no está pendiente o el proyecto cambió de owner
+ *       402:
+ *         description: El destinatario no tiene cuota para el proyecto (QUOTA_PROJECTS_EXCEEDED, QUOTA_STORAGE_EXCEEDED)
+ */
+router.post('/:transferId/accept', authMiddleware, requireSession, async (req: Request, res: Response) => {
+  requireUser(req);
+  const { id: projectId, transferId } = req.params;
+  const transfer = await prisma.projectTransfer.findUnique({ where: { id: transferId } });
+  if (!transfer || transfer.projectId !== projectId || transfer.toUserId !== req.user.id) {
+    return res.status(404).json({ error: 'Transfer not found' });
+  }
+  // Fuera de un workspace el proyecto pasa a contar en las cuotas del nuevo owner
+  const project = await prisma.project.findUnique({ where: { id: projectId }, select: { workspaceId: true } });
+  if (project && !project.workspaceId) {
+    const quota = await checkProjectMoveQuota(projectId, { type: 'user', id: req.user.id });
+    if (quota.status === 'exceeded') {
+      const { status, body } = quotaError(quota);
+      return res.status(status).json(body);
+    }
+  }
+  const result = await acceptTransfer(transfer, req.ip);
+  if (result === 'not_pending') return res.status(409).json({ error: 'Transfer is no longer pending' });
+  if (result === 'owner_changed') return res.status(409).json({ error: 'Project owner has changed since the transfer was proposed' });
+  res.json({ projectId, ownerId: transfer.toUserId });
+});
+
+/**
+ * @openapi
+ * /projects/{id}/transfer/{transferId}/decline:
+ *   post:
+ *     summary: El destinatario rechaza la transferencia
+ *     tags:
+ *       - Project Transfer
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: transferId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Transferencia rechazada
+ *       404:
+ *         description: Transferencia no encontrada o no pendiente
+ */
+router.post('/:transferId/decline', authMiddleware, requireSession, async (req: Request, res: Response) => {
+  requireUser(req);
+  const { id: projectId, transferId } = req.params;
+  const transfer = await prisma.projectTransfer.findUnique({ where: { id: transferId } });
+  if (!transfer || transfer.projectId !== projectId || transfer.toUserId !== req.user.id || !isTransferPending(transfer)) {
+    return res.status(404).json({ error: 'Transfer not found' });
+  }
+  await prisma.projectTransfer.update({ where: { id: transferId }, data: { declinedAt: new Date() } });
+  res.status(204).send();
+});
+
+/**
+ * @openapi
+ * /projects/{id}/transfer/{transferId}:
+ *   delete:
+ *     summary: Cancela una transferencia pendiente (sólo owner)
+ *     tags:
+ *       - Project Transfer
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: transferId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Transferencia cancelada
+ *       404:
+ *         description: Transferencia no encontrada o no pendiente
+ */
+router.delete('/:transferId', authMiddleware, requireSession, projectAccessMiddleware('transfer'), async (req: Request, res: Response) => {
+  const { id: projectId, transferId } = req.params;
+  const transfer = await prisma.projectTransfer.findUnique({ where: { id: transferId } });
+  if (!transfer || transfer.projectId !== projectId || !isTransferPending(transfer)) {
+    return res.status(404).json({ error: 'Transfer not found' });
+  }
+  await prisma.projectTransfer.update({ where: { id: transferId }, data: { cancelledAt: new Date() } });
+  res.status(204).send();
+});
+
+export const projectTransferRouter = router;
@@ -0,0 +1,101 @@
+import { PrismaClient } from '@prisma/client';
+import type { ProjectTransfer } from '@prisma/client';
+import { sendMail } from '../../utils/mailer';
+import { recordAudit } from '../../utils/audit';
+
+const prisma = new PrismaClient();
+
+export const TRANSFER_TTL_DAYS = 7;
+
+export function isTransferPending(transfer: ProjectTransfer, now = new Date()): boolean {
+  return !transfer.acceptedAt && !transfer.declinedAt && !transfer.cancelledAt && transfer.expiresAt > now;
+}
+
+/**
+ * Crea una transferencia pendiente. Cualquier transferencia anterior aún pendiente del proyecto se cancela.
+ */
+export async function createTransfer(
+  project: { id: string; name: string; ownerId: string },
+  recipient: { id: string; email: string; name: string },
+  keepAsEditor: boolean
+): Promise<ProjectTransfer> {
+  const transfer = await prisma.$transaction(async tx => {
+    await tx.projectTransfer.updateMany({
+      where: { projectId: project.id, acceptedAt: null, declinedAt: null, cancelledAt: null },
+      data: { cancelledAt: new Date() },
+    });
+    return tx.projectTransfer.create({
+      data: {
+        projectId: project.id,
+        fromUserId: project.ownerId,
+        toUserId: recipient.id,
+        keepAsEditor,
+        expiresAt: new Date(Date.now() + TRANSFER_TTL_DAYS * 24 * 3600 * 1000),
+      },
+    });
+  });
+  const link = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/projects/${project.id}/transfer/${transfer.id}`;
+  sendMail({
+    to: recipient.email,
+    subject: `Te quieren transferir el proyecto "${project.name}"`,
+    text: `Hola ${recipient.name},\n\nTe han propuesto como nuevo owner del proyecto "${project.name}".\n` +
+      `Para aceptar o rechazar la transferencia abre este enlace (válido ${TRANSFER_TTL_DAYS} días):\n${link}`,
+  }).catch(error => console.error('[Transfers] Error sending transfer email:', error));
+  return transfer;
+}
+
+// Interrumpe la transacción (rollback) si el proyecto cambió de owner desde que se propuso la transferencia
+class OwnerChangedError extends Error {}
+
+export type AcceptTransferResult = 'accepted' | 'not_pending' | 'owner_changed';
+
+/**
+ * Aplica la transferencia en una transacción: cambia el owner, el nuevo owner queda con su fila de admin
+ * (como al crear un proyecto) y el anterior pasa a editor o pierde el acceso.
+ */
+export async function acceptTransfer(transfer: ProjectTransfer, ip?: string): Promise<AcceptTransferResult> {
+  const result = await prisma.$transaction(async tx => {
+    // Marca la transferencia sólo si sigue pendiente (evita aceptar dos veces)
+    const { count } = await tx.projectTransfer.updateMany({
+      where: { id: transfer.id, acceptedAt: null, declinedAt: null, cancelledAt: null, expiresAt: { gt: new Date() } },
+      data: { acceptedAt: new Date() },
+    });
+    if (count === 0) return 'not_pending' as const;
+    // El owner debe seguir siendo el que propuso la transferencia
+    const { count: moved } = await tx.project.updateMany({
+      where: { id: transfer.projectId, ownerId: transfer.fromUserId },
+      data: { ownerId: transfer.toUserId },
+    });
+    if (moved === 0) throw new OwnerChangedError();
+
+    await tx.projectPermission.upsert({
+      where: { projectId_userId: { projectId: transfer.projectId, userId: transfer.toUserId } },
+      update: { role: 'admin' },
+      create: { projectId: transfer.projectId, userId: transfer.toUserId, role: 'admin' },
+    });
+    if (transfer.keepAsEditor) {
+      await tx.projectPermission.upsert({
+        where: { projectId_userId: { projectId: transfer.projectId, userId: transfer.fromUserId } },
+        update: { role: 'editor' },
+        create: { projectId: transfer.projectId, userId: transfer.fromUserId, role: 'editor' },
+      });
+    } else {
+      await tx.projectPermission.deleteMany({ where: { projectId: transfer.projectId, userId: transfer.fromUserId } });
+    }
+    return 'accepted' as const;
+  }).catch(error => {
+    if (error instanceof OwnerChangedError) return 'owner_changed' as const;
+    throw error;
+  });
+
+  if (result === 'accepted') {
+    await recordAudit({
+      action: 'project.transfer',
+      userId: transfer.toUserId,
+      projectId: transfer.projectId,
+      ip,
+      metadata: { transferId: transfer.id, from: transfer.fromUserId, to: transfer.toUserId, keepAsEditor: transfer.keepAsEditor },
+    });
+  }
+  return result;
+}
@@ -0,0 +1,86 @@
+import { PrismaClient } from '@prisma/client';
+import { recordAudit } from '../../utils/audit';
+import { releaseAssetContent } from '../assets/asset.service';
+
+const prisma = new PrismaClient();
+
+export const TRASH_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Por defecto el job de purga corre cada hora (TRASH_PURGE_INTERVAL_MS)
+const DEFAULT_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Fecha a partir de la cual un proyecto en la papelera se elimina definitivamente
+export function trashPurgeDate(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * DAY_MS);
+}
+
+/**
+ * Mueve el proyecto a la papelera: deja de aparecer en listados y de ser accesible, y se cancelan sus transferencias pendientes.
+ */
+export async function moveProjectToTrash(projectId: string, userId: string, ip?: string) {
+  const now = new Date();
+  await prisma.$transaction([
+    prisma.project.update({ where: { id: projectId }, data: { deletedAt: now, lockedById: null, lockedAt: null } }),
+    prisma.projectTransfer.updateMany({
+      where: { projectId, acceptedAt: null, declinedAt: null, cancelledAt: null },
+      data: { cancelledAt: now },
+    }),
+  ]);
+  await recordAudit({ action: 'project.trash', userId, projectId, ip });
+  return { deletedAt: now, purgeAt: trashPurgeDate(now) };
+}
+
+/**
+ * Saca el proyecto de la papelera si aún no venció el plazo de retención. Devuelve false si ya no es restaurable.
+ */
+export async function restoreProject(projectId: string, userId: string, ip?: string): Promise<boolean> {
+  const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * DAY_MS);
+  const { count } = await prisma.project.updateMany({
+    where: { id: projectId, deletedAt: { gt: cutoff } },
+    data: { deletedAt: null },
+  });
+  if (count === 0) return false;
+  await recordAudit({ action: 'project.restore', userId, projectId, ip });
+  return true;
+}
+
+/**
+ * Elimina definitivamente los proyectos que llevan más de TRASH_RETENTION_DAYS en la papelera.
+ * Páginas, versiones, permisos, invitaciones y transferencias se borran en cascada. Devuelve cuántos se purgaron.
+ */
+export async function purgeExpiredProjects(now = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - TRASH_RETENTION_DAYS * DAY_MS);
+  const expired = await prisma.project.findMany({
+    where: { deletedAt: { lte: cutoff } },
+    select: { id: true, ownerId: true, name: true },
+  });
+  let purged = 0;
+  for (const project of expired) {
+    const assets = await prisma.asset.findMany({ where: { projectId: project.id }, select: { hash: true } });
+    // Se vuelve a filtrar por deletedAt por si el proyecto se restauró mientras tanto
+    const { count } = await prisma.project.deleteMany({ where: { id: project.id, deletedAt: { lte: cutoff } } });
+    if (count === 0) continue;
+    purged += 1;
+    // Los assets se borran en cascada; su contenido, si ningún otro proyecto lo usa
+    await releaseAssetContent(assets.map(asset => asset.hash));
+    await recordAudit({ action: 'project.purge', userId: project.ownerId, projectId: project.id, metadata: { name: project.name } });
+  }
+  return purged;
+}
+
+/**
+ * Arranca la purga periódica de la papelera. El timer no mantiene vivo el proceso.
+ */
+export function startTrashPurgeJob(intervalMs = Number(process.env.TRASH_PURGE_INTERVAL_MS) || DEFAULT_PURGE_INTERVAL_MS) {
+  const run = () => {
+    purgeExpiredProjects()
+      .then(count => {
+        if (count > 0) console.log(`[Trash] ${count} proyecto(s) purgado(s) de la papelera`);
+      })
+      .catch(error => console.error('[Trash] Error purging expired projects:', error));
+  };
+  run();
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+  return timer;
+}
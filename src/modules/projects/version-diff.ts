@@ -0,0 +1,243 @@
+import { cssRuleKey, parseCssRules } from '../../utils/css-rules';
+import type { CssRule } from '../../utils/css-rules';
+import { diffHunks, diffLines } from '../../utils/text-diff';
+import type { DiffHunk } from '../../utils/text-diff';
+import { captureProjectSnapshot } from './snapshot.service';
+
+// Estado comparable de un proyecto: sus páginas identificadas por clientId (estable entre versiones)
+export interface VersionPage {
+  id: string;
+  name: string;
+  html: string;
+  css: string;
+  components: unknown;
+}
+
+export interface VersionState {
+  pages: VersionPage[];
+}
+
+const text = (value: unknown) => (typeof value === 'string' ? value : null);
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Lee las páginas de un snapshot: `{ pages: [{ clientId | id, name, html?, css?, components? }] }`. De los datos de
+ * proyecto de GrapesJS (`pages[].frames[0].component`) se toma el árbol de componentes.
+ */
+export function versionState(snapshot: unknown): VersionState {
+  const pages = isRecord(snapshot) && Array.isArray(snapshot.pages) ? snapshot.pages.filter(isRecord) : [];
+  return {
+    pages: pages.map((page, index) => {
+      const frame = Array.isArray(page.frames) && isRecord(page.frames[0]) ? page.frames[0] : null;
+      const id = text(page.clientId) ?? text(page.id) ?? `page-${index + 1}`;
+      return {
+        id,
+        name: text(page.name) ?? id,
+        html: text(page.html) ?? '',
+        css: text(page.css) ?? '',
+        components: page.components ?? frame?.component ?? null,
+      };
+    }),
+  };
+}
+
+export async function currentVersionState(projectId: string): Promise<VersionState> {
+  return versionState(await captureProjectSnapshot(projectId));
+}
+
+export interface TextDiff {
+  additions: number;
+  deletions: number;
+  hunks: DiffHunk[];
+}
+
+// El HTML de GrapesJS suele venir en una sola línea: se parte en una etiqueta por línea para que el diff sea legible
+const htmlLines = (html: string) => (html.trim() ? html.replace(/>\s*</g, '>\n<').split('\n') : []);
+
+export function diffHtml(from: string, to: string): TextDiff | null {
+  if (from === to) return null;
+  const ops = diffLines(htmlLines(from), htmlLines(to));
+  const additions = ops.filter(op => op.type === 'insert').length;
+  const deletions = ops.filter(op => op.type === 'delete').length;
+  if (additions === 0 && deletions === 0) return null;
+  return { additions, deletions, hunks: diffHunks(ops) };
+}
+
+export interface CssRuleChange {
+  context: string | null;
+  selector: string;
+  added: Record<string, string>;
+  removed: Record<string, string>;
+  changed: Record<string, { from: string; to: string }>;
+}
+
+export interface CssDiff {
+  added: CssRule[];
+  removed: CssRule[];
+  changed: CssRuleChange[];
+}
+
+/**
+ * Diff por reglas (contexto + selector) y, dentro de cada regla, por propiedades
+ */
+export function diffCss(from: string, to: string): CssDiff | null {
+  if (from === to) return null;
+  const before = new Map(parseCssRules(from).map(rule => [cssRuleKey(rule), rule]));
+  const after = parseCssRules(to);
+  const diff: CssDiff = { added: [], removed: [], changed: [] };
+
+  for (const rule of after) {
+    const previous = before.get(cssRuleKey(rule));
+    if (!previous) {
+      diff.added.push(rule);
+      continue;
+    }
+    const change: CssRuleChange = { context: rule.context, selector: rule.selector, added: {}, removed: {}, changed: {} };
+    for (const [property, value] of Object.entries(rule.declarations)) {
+      const old = previous.declarations[property];
+      if (old === undefined) change.added[property] = value;
+      else if (old !== value) change.changed[property] = { from: old, to: value };
+    }
+    for (const [property, value] of Object.entries(previous.declarations)) {
+      if (!(property in rule.declarations)) change.removed[property] = value;
+    }
+    if ([change.added, change.removed, change.changed].some(group => Object.keys(group).length > 0)) diff.changed.push(change);
+  }
+  const kept = new Set(after.map(cssRuleKey));
+  diff.removed = [...before.values()].filter(rule => !kept.has(cssRuleKey(rule)));
+
+  return diff.added.length || diff.removed.length || diff.changed.length ? diff : null;
+}
+
+interface FlatComponent {
+  id: string;
+  type: string;
+  parentId: string | null;
+  index: number;
+  props: Record<string, unknown>;
+}
+
+// Los componentes sin ID propio se identifican por su posición en el árbol
+function flattenComponents(value: unknown, parentId: string | null, flat: Map<string, FlatComponent>): void {
+  const children = Array.isArray(value) ? value : isRecord(value) && Array.isArray(value.components) ? value.components : [];
+  children.filter(isRecord).forEach((component, index) => {
+    const attributes = isRecord(component.attributes) ? component.attributes : {};
+    const id = text(attributes.id) ?? text(component.id) ?? `${parentId ?? 'root'}/${index}`;
+    const { components, ...props } = component;
+    flat.set(id, { id, type: text(component.type) ?? 'default', parentId, index, props });
+    if (components !== undefined) flattenComponents(components, id, flat);
+  });
+}
+
+const sameJson = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+export interface ComponentDiff {
+  added: { id: string; type: string; parentId: string | null; index: number }[];
+  removed: { id: string; type: string; parentId: string | null; index: number }[];
+  moved: { id: string; type: string; from: { parentId: string | null; index: number }; to: { parentId: string | null; index: number } }[];
+  changed: { id: string; type: string; changes: Record<string, { from: unknown; to: unknown }> }[];
+}
+
+/**
+ * Diff del árbol de componentes de GrapesJS por ID: añadidos, eliminados, movidos (otro padre u otro orden entre
+ * sus hermanos) y modificados (tipo, atributos, clases, estilos, contenido, ...)
+ */
+export function diffComponents(from: unknown, to: unknown): ComponentDiff | null {
+  if (sameJson(from, to)) return null;
+  const before = new Map<string, FlatComponent>();
+  const after = new Map<string, FlatComponent>();
+  flattenComponents(from, null, before);
+  flattenComponents(to, null, after);
+  const view = ({ id, type, parentId, index }: FlatComponent) => ({ id, type, parentId, index });
+  const diff: ComponentDiff = {
+    added: [...after.values()].filter(component => !before.has(component.id)).map(view),
+    removed: [...before.values()].filter(component => !after.has(component.id)).map(view),
+    moved: [],
+    changed: [],
+  };
+
+  // Reordenados: hermanos comunes que no forman parte de la subsecuencia común más larga
+  const reordered = new Set<string>();
+  const siblings = (components: Map<string, FlatComponent>, parentId: string | null, other: Map<string, FlatComponent>) =>
+    [...components.values()].filter(component => component.parentId === parentId && other.get(component.id)?.parentId === parentId).map(component => component.id);
+  for (const parentId of new Set([...after.values()].map(component => component.parentId))) {
+    for (const op of diffLines(siblings(before, parentId, after), siblings(after, parentId, before))) {
+      if (op.type === 'insert') reordered.add(op.line);
+    }
+  }
+
+  for (const component of after.values()) {
+    const previous = before.get(component.id);
+    if (!previous) continue;
+    if (previous.parentId !== component.parentId || reordered.has(component.id)) {
+      diff.moved.push({
+        id: component.id,
+        type: component.type,
+        from: { parentId: previous.parentId, index: previous.index },
+        to: { parentId: component.parentId, index: component.index },
+      });
+    }
+    const changes: Record<string, { from: unknown; to: unknown }> = {};
+    for (const key of new Set([...Object.keys(previous.props), ...Object.keys(component.props)])) {
+      if (!sameJson(previous.props[key], component.props[key])) changes[key] = { from: previous.props[key] ?? null, to: component.props[key] ?? null };
+    }
+    if (Object.keys(changes).length > 0) diff.changed.push({ id: component.id, type: component.type, changes });
+  }
+
+  return diff.added.length || diff.removed.length || diff.moved.length || diff.changed.length ? diff : null;
+}
+
+export interface PageChange {
+  id: string;
+  name: string;
+  status: 'added' | 'removed' | 'modified';
+  html: TextDiff | null;
+  css: CssDiff | null;
+  components: ComponentDiff | null;
+}
+
+export interface VersionDiff {
+  pages: {
+    added: { id: string; name: string }[];
+    removed: { id: string; name: string }[];
+    renamed: { id: string; from: string; to: string }[];
+  };
+  changes: PageChange[];
+}
+
+const EMPTY_PAGE = { html: '', css: '', components: null };
+
+/**
+ * Cambios para pasar del estado `from` al estado `to`. Las páginas se emparejan por clientId; `changes` sólo incluye
+ * las páginas con contenido distinto (las añadidas y eliminadas se comparan con una página vacía).
+ */
+export function diffVersionStates(from: VersionState, to: VersionState): VersionDiff {
+  const before = new Map(from.pages.map(page => [page.id, page]));
+  const after = new Map(to.pages.map(page => [page.id, page]));
+  const diff: VersionDiff = {
+    pages: {
+      added: to.pages.filter(page => !before.has(page.id)).map(({ id, name }) => ({ id, name })),
+      removed: from.pages.filter(page => !after.has(page.id)).map(({ id, name }) => ({ id, name })),
+      renamed: to.pages
+        .filter(page => before.has(page.id) && before.get(page.id)!.name !== page.name)
+        .map(page => ({ id: page.id, from: before.get(page.id)!.name, to: page.name })),
+    },
+    changes: [],
+  };
+
+  const compared = [...to.pages, ...from.pages.filter(page => !after.has(page.id))];
+  for (const page of compared) {
+    const previous = before.get(page.id) ?? EMPTY_PAGE;
+    const next = after.get(page.id) ?? EMPTY_PAGE;
+    const change: PageChange = {
+      id: page.id,
+      name: page.name,
+      status: !before.has(page.id) ? 'added' : !after.has(page.id) ? 'removed' : 'modified',
+      html: diffHtml(previous.html, next.html),
+      css: diffCss(previous.css, next.css),
+      components: diffComponents(previous.components, next.components),
+    };
+    if (change.status !== 'modified' || change.html || change.css || change.components) diff.changes.push(change);
+  }
+  return diff;
+}
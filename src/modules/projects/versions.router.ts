@@ -2,11 +2,21 @@ import { Router, Request } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { z } from 'zod';
 import { authMiddleware } from '../auth/auth.middleware';
+import { projectAccessMiddleware } from '../../middlewares/project-access';
+import { requireScope } from '../../middlewares/token-scope';
+import { checkPageTotal, pruneVersions, quotaError } from '../quotas/quota.service';
+import { broadcastProjectResync } from '../pages/pages.socket';
+import { captureProjectSnapshot, projectSnapshotSchema, restoreProjectVersion } from './snapshot.service';
+import { currentVersionState, diffVersionStates, versionState } from './version-diff';
 
 const prisma = new PrismaClient();
 const router = Router({ mergeParams: true });
 
-const versionCreateSchema = z.object({ comment: z.string().optional(), snapshot: z.any() });
+// Pseudo-ID del estado actual del proyecto en el diff
+const CURRENT_STATE = 'current';
+
+// El snapshot lo captura el servidor a partir del estado guardado del proyecto
+const versionCreateSchema = z.object({ comment: z.string().max(500).optional() });
 
 // Helper: assert user is present (type guard)
 function requireUser(req: Request): asserts req is Request & { user: { id: string } } {
@@ -14,69 +24,73 @@ function requireUser(req: Request): asserts req is Request & { user: { id: strin
 }
 
 // List versions
-router.get('/', authMiddleware, async (req, res) => {
-  requireUser(req);
+router.get('/', authMiddleware, requireScope('versions:read'), projectAccessMiddleware('read'), async (req, res) => {
   const { id: projectId } = req.params;
-  const userId = req.user.id;
-  const project = await prisma.project.findUnique({ where: { id: projectId }, include: { permissions: true } });
-  if (!project) return res.status(404).json({ error: 'Not found' });
-  const hasAccess = project.ownerId === userId || project.permissions.some((p: { userId: string }) => p.userId === userId);
-  if (!hasAccess) return res.status(403).json({ error: 'Forbidden' });
   const versions = await prisma.projectVersion.findMany({ where: { projectId }, orderBy: { createdAt: 'desc' } });
   res.status(200).json(versions);
 });
 
 // Create version
-router.post('/', authMiddleware, async (req, res) => {
+router.post('/', authMiddleware, requireScope('versions:write'), projectAccessMiddleware('write'), async (req, res) => {
   requireUser(req);
   const { id: projectId } = req.params;
   const userId = req.user.id;
   const parse = versionCreateSchema.safeParse(req.body);
   if (!parse.success) return res.status(400).json({ error: parse.error.errors });
-  const { comment, snapshot } = parse.data;
-  const project = await prisma.project.findUnique({ where: { id: projectId }, include: { permissions: true } });
-  if (!project) return res.status(404).json({ error: 'Not found' });
-  const canWrite = project.ownerId === userId || project.permissions.some((p: { userId: string, permission: string }) => p.userId === userId && p.permission === 'write');
-  if (!canWrite) return res.status(403).json({ error: 'Forbidden' });
+  const { comment } = parse.data;
+  const snapshot = await captureProjectSnapshot(projectId);
+  if (!snapshot) return res.status(404).json({ error: 'Project not found' });
   const version = await prisma.projectVersion.create({ data: { projectId, createdById: userId, comment, snapshot } });
+  // Retención del plan: se descartan las versiones más antiguas
+  await pruneVersions(projectId);
   res.status(201).json({ id: version.id, projectId: version.projectId, snapshot: version.snapshot });
 });
 
 // Get version by id
-router.get('/:versionId', authMiddleware, async (req, res) => {
-  requireUser(req);
+router.get('/:versionId', authMiddleware, requireScope('versions:read'), projectAccessMiddleware('read'), async (req, res) => {
   const { id: projectId, versionId } = req.params;
-  const userId = req.user.id;
-  const project = await prisma.project.findUnique({ where: { id: projectId }, include: { permissions: true } });
-  if (!project) return res.status(404).json({ error: 'Not found' });
-  const hasAccess = project.ownerId === userId || project.permissions.some((p: { userId: string }) => p.userId === userId);
-  if (!hasAccess) return res.status(403).json({ error: 'Forbidden' });
   const version = await prisma.projectVersion.findUnique({ where: { id: versionId } });
   if (!version || version.projectId !== projectId) return res.status(404).json({ error: 'Version not found' });
   res.status(200).json(version);
 });
 
-// Restore version (creates a new version as a copy)
-router.post('/:versionId/restore', authMiddleware, async (req, res) => {
+// Diff between two versions, or against the current state with :otherId = 'current'
+router.get('/:versionId/diff/:otherId', authMiddleware, requireScope('versions:read'), projectAccessMiddleware('read'), async (req, res) => {
+  const { id: projectId, versionId, otherId } = req.params;
+  const ids = otherId === CURRENT_STATE ? [versionId] : [versionId, otherId];
+  const versions = await prisma.projectVersion.findMany({ where: { id: { in: ids }, projectId } });
+  const from = versions.find(version => version.id === versionId);
+  const to = otherId === CURRENT_STATE ? null : versions.find(version => version.id === otherId);
+  if (!from || to === undefined) return res.status(404).json({ error: 'Version not found' });
+  const diff = diffVersionStates(versionState(from.snapshot), to ? versionState(to.snapshot) : await currentVersionState(projectId));
+  const summary = (version: typeof from) => ({ id: version.id, comment: version.comment, createdAt: version.createdAt, createdById: version.createdById });
+  res.status(200).json({ from: summary(from), to: to ? summary(to) : { id: CURRENT_STATE }, ...diff });
+});
+
+// Restore version: writes the snapshot back to the project and pages, keeping a backup of the current state
+router.post('/:versionId/restore', authMiddleware, requireScope('versions:write'), projectAccessMiddleware('write'), async (req, res) => {
   requireUser(req);
   const { id: projectId, versionId } = req.params;
   const userId = req.user.id;
-  const project = await prisma.project.findUnique({ where: { id: projectId }, include: { permissions: true } });
-  if (!project) return res.status(404).json({ error: 'Not found' });
-  const canWrite = project.ownerId === userId || project.permissions.some((p: { userId: string, permission: string }) => p.userId === userId && p.permission === 'write');
-  if (!canWrite) return res.status(403).json({ error: 'Forbidden' });
   const version = await prisma.projectVersion.findUnique({ where: { id: versionId } });
   if (!version || String(version.projectId) !== String(projectId)) return res.status(404).json({ error: 'Version not found' });
-  const restored = await prisma.projectVersion.create({
-    data: {
-      projectId,
-      createdById: userId,
-      comment: `Restored from version ${versionId}`,
-      snapshot: version.snapshot as any,
-    },
-  });
+  const snapshot = projectSnapshotSchema.safeParse(version.snapshot);
+  if (snapshot.success) {
+    const pages = await checkPageTotal(projectId, snapshot.data.pages.length);
+    if (pages.status === 'exceeded') {
+      const { status, body } = quotaError(pages);
+      return res.status(status).json(body);
+    }
+  }
+  const result = await restoreProjectVersion(projectId, versionId, userId);
+  if (result.status === 'not_found') return res.status(404).json({ error: 'Version not found' });
+  if (result.status === 'unsupported') {
+    return res.status(422).json({ error: 'Version snapshot format is not supported', code: 'SNAPSHOT_FORMAT_UNSUPPORTED' });
+  }
+  await pruneVersions(projectId);
+  await broadcastProjectResync(projectId, { versionId, userId });
   // Respuesta estándar para el frontend/test
-  res.status(201).json({ snapshot: restored.snapshot });
+  res.status(201).json({ id: result.version.id, backupId: result.backup.id, snapshot: result.version.snapshot });
 });
 
 export const projectVersionsRouter = router;
@@ -0,0 +1,144 @@
+import { PrismaClient } from '@prisma/client';
+import {
+  PLANS,
+  checkDesignSize,
+  checkPageQuota,
+  checkPageTotal,
+  checkProjectMoveQuota,
+  checkProjectQuota,
+  pruneVersions,
+  quotaError,
+  quotaUsage,
+} from '../quota.service';
+
+// Mock de Prisma Client
+const prisma = new PrismaClient();
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    user: { findUnique: jest.fn() },
+    workspace: { findUnique: jest.fn() },
+    project: { findUnique: jest.fn(), count: jest.fn() },
+    page: { count: jest.fn() },
+    asset: { aggregate: jest.fn() },
+    projectVersion: { findMany: jest.fn(), deleteMany: jest.fn() },
+  };
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+const PROJECT_ID = 'project-id';
+
+beforeEach(() => {
+  (prisma.user.findUnique as jest.Mock).mockResolvedValue({ plan: 'free' });
+  (prisma.workspace.findUnique as jest.Mock).mockResolvedValue({ plan: 'pro' });
+  (prisma.project.findUnique as jest.Mock).mockResolvedValue({ ownerId: 'owner-id', workspaceId: null });
+  (prisma.asset.aggregate as jest.Mock).mockResolvedValue({ _sum: { size: null } });
+});
+
+afterEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('checkProjectQuota', () => {
+  it('rechaza crear proyectos por encima del límite del plan del owner', async () => {
+    (prisma.project.count as jest.Mock).mockResolvedValue(PLANS.free.maxProjects);
+
+    const check = await checkProjectQuota({ type: 'user', id: 'owner-id' });
+
+    expect(check).toEqual({ status: 'exceeded', code: 'QUOTA_PROJECTS_EXCEEDED', limit: PLANS.free.maxProjects });
+    expect(prisma.project.count).toHaveBeenCalledWith({ where: { ownerId: 'owner-id', workspaceId: null, deletedAt: null } });
+    expect(quotaError(check as Extract<typeof check, { status: 'exceeded' }>)).toEqual({
+      status: 402,
+      body: { error: 'Project limit of the plan reached', code: 'QUOTA_PROJECTS_EXCEEDED', limit: PLANS.free.maxProjects },
+    });
+  });
+
+  it('en un workspace aplica su plan y cuenta sus proyectos', async () => {
+    (prisma.project.count as jest.Mock).mockResolvedValue(PLANS.free.maxProjects);
+
+    await expect(checkProjectQuota({ type: 'workspace', id: 'ws-id' }, { pages: 30 })).resolves.toEqual({ status: 'ok' });
+    expect(prisma.project.count).toHaveBeenCalledWith({ where: { workspaceId: 'ws-id', deletedAt: null } });
+  });
+
+  it('rechaza copias con más páginas o un diseño mayor que los del plan', async () => {
+    (prisma.project.count as jest.Mock).mockResolvedValue(0);
+
+    await expect(checkProjectQuota({ type: 'user', id: 'owner-id' }, { pages: 21 })).resolves.toMatchObject({ code: 'QUOTA_PAGES_EXCEEDED' });
+    await expect(checkProjectQuota({ type: 'user', id: 'owner-id' }, { design: 'x'.repeat(PLANS.free.maxDesignBytes! + 1) })).resolves.toMatchObject({
+      code: 'QUOTA_DESIGN_TOO_LARGE',
+    });
+  });
+
+  it('rechaza copias cuyos assets no caben en el almacenamiento del plan', async () => {
+    (prisma.project.count as jest.Mock).mockResolvedValue(0);
+    (prisma.asset.aggregate as jest.Mock).mockResolvedValue({ _sum: { size: PLANS.free.maxAssetBytes! - 10 } });
+
+    await expect(checkProjectQuota({ type: 'user', id: 'owner-id' }, { assetBytes: 10 })).resolves.toEqual({ status: 'ok' });
+    await expect(checkProjectQuota({ type: 'user', id: 'owner-id' }, { assetBytes: 11 })).resolves.toMatchObject({ code: 'QUOTA_STORAGE_EXCEEDED' });
+  });
+});
+
+describe('checkProjectMoveQuota', () => {
+  it('suma el almacenamiento del proyecto al del destino', async () => {
+    (prisma.project.count as jest.Mock).mockResolvedValue(0);
+    (prisma.asset.aggregate as jest.Mock)
+      .mockResolvedValueOnce({ _sum: { size: PLANS.free.maxAssetBytes! - 10 } })
+      .mockResolvedValueOnce({ _sum: { size: 11 } });
+
+    await expect(checkProjectMoveQuota(PROJECT_ID, { type: 'user', id: 'new-owner' })).resolves.toEqual({
+      status: 'exceeded',
+      code: 'QUOTA_STORAGE_EXCEEDED',
+      limit: PLANS.free.maxAssetBytes,
+    });
+  });
+});
+
+describe('checkPageQuota y checkDesignSize', () => {
+  it('cuenta las páginas no eliminadas del proyecto', async () => {
+    (prisma.page.count as jest.Mock).mockResolvedValue(PLANS.free.maxPagesPerProject! - 1);
+
+    await expect(checkPageQuota(PROJECT_ID)).resolves.toEqual({ status: 'ok' });
+    await expect(checkPageQuota(PROJECT_ID, 2)).resolves.toMatchObject({ code: 'QUOTA_PAGES_EXCEEDED' });
+  });
+
+  it('comprueba el total de páginas que quedaría al restaurar una versión', async () => {
+    await expect(checkPageTotal(PROJECT_ID, PLANS.free.maxPagesPerProject!)).resolves.toEqual({ status: 'ok' });
+    await expect(checkPageTotal(PROJECT_ID, PLANS.free.maxPagesPerProject! + 1)).resolves.toMatchObject({ code: 'QUOTA_PAGES_EXCEEDED' });
+    expect(prisma.page.count).not.toHaveBeenCalled();
+  });
+
+  it('mide el contenido serializado y responde 413', async () => {
+    const html = 'a'.repeat(PLANS.free.maxDesignBytes! / 2);
+
+    await expect(checkDesignSize(PROJECT_ID, [html, null, { html }])).resolves.toEqual({
+      status: 'exceeded',
+      code: 'QUOTA_DESIGN_TOO_LARGE',
+      limit: PLANS.free.maxDesignBytes,
+    });
+    await expect(checkDesignSize(PROJECT_ID, [html, 'body{}', undefined])).resolves.toEqual({ status: 'ok' });
+    expect(quotaError({ status: 'exceeded', code: 'QUOTA_DESIGN_TOO_LARGE', limit: 1 }).status).toBe(413);
+  });
+});
+
+describe('pruneVersions', () => {
+  it('borra las versiones más antiguas que exceden la retención del plan', async () => {
+    (prisma.projectVersion.findMany as jest.Mock).mockResolvedValue([{ id: 'v1' }, { id: 'v2' }]);
+    (prisma.projectVersion.deleteMany as jest.Mock).mockResolvedValue({ count: 2 });
+
+    await expect(pruneVersions(PROJECT_ID)).resolves.toBe(2);
+    expect(prisma.projectVersion.findMany).toHaveBeenCalledWith(expect.objectContaining({ where: { projectId: PROJECT_ID }, skip: PLANS.free.maxVersions }));
+    expect(prisma.projectVersion.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['v1', 'v2'] } } });
+  });
+});
+
+describe('quotaUsage', () => {
+  it('devuelve plan, límites y consumo', async () => {
+    (prisma.project.count as jest.Mock).mockResolvedValue(3);
+    (prisma.asset.aggregate as jest.Mock).mockResolvedValue({ _sum: { size: 2048 } });
+
+    await expect(quotaUsage({ type: 'workspace', id: 'ws-id' })).resolves.toEqual({
+      plan: 'pro',
+      limits: PLANS.pro,
+      usage: { projects: 3, assetBytes: 2048 },
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import { PrismaClient } from '@prisma/client';
+import type { Plan, Prisma } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+const MB = 1024 * 1024;
+
+// Límites de un plan; null = sin límite
+export interface PlanLimits {
+  maxProjects: number | null; // proyectos fuera de la papelera
+  maxPagesPerProject: number | null; // páginas no eliminadas de cada proyecto
+  maxVersions: number | null; // versiones que se conservan por proyecto (las más antiguas se descartan)
+  maxAssetBytes: number | null; // bytes de la biblioteca de assets sumando todos los proyectos
+  maxDesignBytes: number | null; // tamaño serializado de designData, de una página o de un snapshot
+}
+
+export const PLANS: Record<Plan, PlanLimits> = {
+  free: { maxProjects: 10, maxPagesPerProject: 20, maxVersions: 50, maxAssetBytes: 500 * MB, maxDesignBytes: 5 * MB },
+  pro: { maxProjects: 100, maxPagesPerProject: 100, maxVersions: 500, maxAssetBytes: 20 * 1024 * MB, maxDesignBytes: 20 * MB },
+  business: { maxProjects: null, maxPagesPerProject: 500, maxVersions: null, maxAssetBytes: 200 * 1024 * MB, maxDesignBytes: 40 * MB },
+};
+
+// Las cuotas de un proyecto son las de su workspace o, fuera de workspaces, las de su owner
+export type QuotaSubject = { type: 'user'; id: string } | { type: 'workspace'; id: string };
+
+export type QuotaCode = 'QUOTA_PROJECTS_EXCEEDED' | 'QUOTA_PAGES_EXCEEDED' | 'QUOTA_STORAGE_EXCEEDED' | 'QUOTA_DESIGN_TOO_LARGE';
+
+export type QuotaCheck = { status: 'ok' } | { status: 'exceeded'; code: QuotaCode; limit: number };
+
+const OK: QuotaCheck = { status: 'ok' };
+const exceeded = (code: QuotaCode, limit: number): QuotaCheck => ({ status: 'exceeded', code, limit });
+
+const QUOTA_ERRORS: Record<QuotaCode, { status: 402 | 413; error: string }> = {
+  QUOTA_PROJECTS_EXCEEDED: { status: 402, error: 'Project limit of the plan reached' },
+  QUOTA_PAGES_EXCEEDED: { status: 402, error: 'Page limit per project of the plan reached' },
+  QUOTA_STORAGE_EXCEEDED: { status: 402, error: 'Asset storage limit of the plan reached' },
+  QUOTA_DESIGN_TOO_LARGE: { status: 413, error: 'Design exceeds the maximum size of the plan' },
+};
+
+// Límites del plan que se agotan: 402; contenido que supera el tamaño máximo: 413
+export function quotaStatus(code: QuotaCode): 402 | 413 {
+  return QUOTA_ERRORS[code].status;
+}
+
+export function quotaError(check: Extract<QuotaCheck, { status: 'exceeded' }>) {
+  return { status: QUOTA_ERRORS[check.code].status, body: { error: QUOTA_ERRORS[check.code].error, code: check.code, limit: check.limit } };
+}
+
+export function quotaSubject(project: { ownerId: string; workspaceId: string | null }): QuotaSubject {
+  return project.workspaceId ? { type: 'workspace', id: project.workspaceId } : { type: 'user', id: project.ownerId };
+}
+
+export async function subjectPlan(subject: QuotaSubject): Promise<Plan> {
+  const owner =
+    subject.type === 'workspace'
+      ? await prisma.workspace.findUnique({ where: { id: subject.id }, select: { plan: true } })
+      : await prisma.user.findUnique({ where: { id: subject.id }, select: { plan: true } });
+  return owner?.plan ?? 'free';
+}
+
+const subjectProjects = (subject: QuotaSubject): Prisma.ProjectWhereInput =>
+  subject.type === 'workspace' ? { workspaceId: subject.id } : { ownerId: subject.id, workspaceId: null };
+
+async function countProjects(subject: QuotaSubject): Promise<number> {
+  return prisma.project.count({ where: { ...subjectProjects(subject), deletedAt: null } });
+}
+
+// Los proyectos en la papelera siguen ocupando almacenamiento hasta que se purgan
+async function assetBytes(where: Prisma.ProjectWhereInput): Promise<number> {
+  const { _sum } = await prisma.asset.aggregate({ where: { project: where }, _sum: { size: true } });
+  return _sum.size ?? 0;
+}
+
+/**
+ * Plan, límites y consumo actual de un usuario (proyectos personales) o de un workspace
+ */
+export async function quotaUsage(subject: QuotaSubject) {
+  const plan = await subjectPlan(subject);
+  const [projects, bytes] = await Promise.all([countProjects(subject), assetBytes(subjectProjects(subject))]);
+  return { plan, limits: PLANS[plan], usage: { projects, assetBytes: bytes } };
+}
+
+async function projectLimits(projectId: string): Promise<{ subject: QuotaSubject; limits: PlanLimits } | null> {
+  const project = await prisma.project.findUnique({ where: { id: projectId }, select: { ownerId: true, workspaceId: true } });
+  if (!project) return null;
+  const subject = quotaSubject(project);
+  return { subject, limits: PLANS[await subjectPlan(subject)] };
+}
+
+// Bytes de la biblioteca de assets de un proyecto (lo que ocupa su copia)
+export async function projectAssetBytes(projectId: string): Promise<number> {
+  return assetBytes({ id: projectId });
+}
+
+/**
+ * Cuota para crear un proyecto (nuevo, duplicado, importado o instanciado de una plantilla) con `pages` páginas
+ * y, si se indican, el diseño inicial y los bytes de assets que trae
+ */
+export async function checkProjectQuota(
+  subject: QuotaSubject,
+  content: { pages?: number; design?: unknown; assetBytes?: number } = {}
+): Promise<QuotaCheck> {
+  const limits = PLANS[await subjectPlan(subject)];
+  if (limits.maxPagesPerProject !== null && (content.pages ?? 0) > limits.maxPagesPerProject) {
+    return exceeded('QUOTA_PAGES_EXCEEDED', limits.maxPagesPerProject);
+  }
+  if (limits.maxDesignBytes !== null && serializedBytes([content.design]) > limits.maxDesignBytes) {
+    return exceeded('QUOTA_DESIGN_TOO_LARGE', limits.maxDesignBytes);
+  }
+  if (limits.maxProjects !== null && (await countProjects(subject)) >= limits.maxProjects) {
+    return exceeded('QUOTA_PROJECTS_EXCEEDED', limits.maxProjects);
+  }
+  if (limits.maxAssetBytes !== null && content.assetBytes) {
+    if ((await assetBytes(subjectProjects(subject))) + content.assetBytes > limits.maxAssetBytes) {
+      return exceeded('QUOTA_STORAGE_EXCEEDED', limits.maxAssetBytes);
+    }
+  }
+  return OK;
+}
+
+/**
+ * Cuota para que un proyecto existente pase a contar en `subject` (mover a un workspace, transferir, restaurar de la papelera)
+ */
+export async function checkProjectMoveQuota(projectId: string, subject: QuotaSubject): Promise<QuotaCheck> {
+  const limits = PLANS[await subjectPlan(subject)];
+  const others = { ...subjectProjects(subject), id: { not: projectId } };
+  if (limits.maxProjects !== null && (await prisma.project.count({ where: { ...others, deletedAt: null } })) >= limits.maxProjects) {
+    return exceeded('QUOTA_PROJECTS_EXCEEDED', limits.maxProjects);
+  }
+  if (limits.maxAssetBytes !== null) {
+    const [used, moved] = await Promise.all([assetBytes(others), assetBytes({ id: projectId })]);
+    if (used + moved > limits.maxAssetBytes) return exceeded('QUOTA_STORAGE_EXCEEDED', limits.maxAssetBytes);
+  }
+  return OK;
+}
+
+/**
+ * Cuota para añadir `adding` páginas (crear o restaurar) a un proyecto
+ */
+export async function checkPageQuota(projectId: string, adding = 1): Promise<QuotaCheck> {
+  const pages = await prisma.page.count({ where: { projectId, isDeleted: false } });
+  return checkPageTotal(projectId, pages + adding);
+}
+
+/**
+ * Cuota para que el proyecto quede con `total` páginas (restaurar una versión)
+ */
+export async function checkPageTotal(projectId: string, total: number): Promise<QuotaCheck> {
+  const found = await projectLimits(projectId);
+  const max = found?.limits.maxPagesPerProject ?? null;
+  return max !== null && total > max ? exceeded('QUOTA_PAGES_EXCEEDED', max) : OK;
+}
+
+/**
+ * Cuota para guardar `bytes` más en la biblioteca de assets del proyecto
+ */
+export async function checkStorageQuota(projectId: string, bytes: number): Promise<QuotaCheck> {
+  const found = await projectLimits(projectId);
+  const max = found?.limits.maxAssetBytes ?? null;
+  if (max === null) return OK;
+  const used = await assetBytes(subjectProjects(found!.subject));
+  return used + bytes > max ? exceeded('QUOTA_STORAGE_EXCEEDED', max) : OK;
+}
+
+// Tamaño serializado: los strings tal cual (HTML, CSS) y el resto como JSON
+export function serializedBytes(values: unknown[]): number {
+  return values.reduce<number>((total, value) => {
+    if (value === null || value === undefined) return total;
+    return total + Buffer.byteLength(typeof value === 'string' ? value : JSON.stringify(value));
+  }, 0);
+}
+
+/**
+ * Tamaño máximo de un documento del proyecto: designData, el contenido de una página (html + css + components)
+ * o el snapshot de una versión
+ */
+export async function checkDesignSize(projectId: string, values: unknown[]): Promise<QuotaCheck> {
+  const found = await projectLimits(projectId);
+  const max = found?.limits.maxDesignBytes ?? null;
+  if (max === null) return OK;
+  return serializedBytes(values) > max ? exceeded('QUOTA_DESIGN_TOO_LARGE', max) : OK;
+}
+
+/**
+ * Descarta las versiones más antiguas que superan la retención del plan. Devuelve cuántas se borraron.
+ */
+export async function pruneVersions(projectId: string): Promise<number> {
+  const found = await projectLimits(projectId);
+  const max = found?.limits.maxVersions ?? null;
+  if (max === null) return 0;
+  const stale = await prisma.projectVersion.findMany({
+    where: { projectId },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    skip: max,
+    select: { id: true },
+  });
+  if (stale.length === 0) return 0;
+  const { count } = await prisma.projectVersion.deleteMany({ where: { id: { in: stale.map(version => version.id) } } });
+  return count;
+}
@@ -0,0 +1,104 @@
+import { PrismaClient } from '@prisma/client';
+import { setTxtResolver } from '../../../utils/dns-resolver';
+import { UNVERIFIED_DOMAIN_TTL_MS, addDomain, findPublicationForHost, hostnameSchema, invalidateDomainCache, verifyDomain } from '../domain.service';
+
+// Mock de Prisma Client
+const prisma = new PrismaClient();
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient: any = {
+    domain: {
+      findFirst: jest.fn(),
+      create: jest.fn(({ data }) => Promise.resolve(data)),
+      deleteMany: jest.fn(() => Promise.resolve({ count: 0 })),
+      update: jest.fn(({ data }) => Promise.resolve(data)),
+    },
+    $transaction: jest.fn((fn: (tx: unknown) => unknown) => fn(mockPrismaClient)),
+  };
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+const records: Record<string, string[]> = {};
+setTxtResolver({ resolveTxt: async name => records[name] ?? [] });
+
+const domain = {
+  id: 'domain-id',
+  publicationId: 'pub-id',
+  hostname: 'www.example.com',
+  verificationToken: 'token123',
+  verifiedAt: null,
+  lastCheckedAt: null,
+  createdAt: new Date(),
+};
+
+afterEach(() => {
+  jest.clearAllMocks();
+  invalidateDomainCache();
+  for (const name of Object.keys(records)) delete records[name];
+});
+
+describe('hostnameSchema', () => {
+  it('normaliza y valida el hostname', () => {
+    expect(hostnameSchema.parse(' WWW.Example.com ')).toBe('www.example.com');
+    expect(hostnameSchema.safeParse('localhost').success).toBe(false);
+    expect(hostnameSchema.safeParse('example.com:8080').success).toBe(false);
+    expect(hostnameSchema.safeParse('-bad.example.com').success).toBe(false);
+  });
+});
+
+describe('addDomain', () => {
+  it('rechaza el hostname si otra publicación ya lo verificó', async () => {
+    (prisma.domain.findFirst as jest.Mock).mockResolvedValueOnce({ id: 'other-domain' });
+    await expect(addDomain('pub-id', 'www.example.com')).resolves.toBeNull();
+    expect(prisma.domain.create).not.toHaveBeenCalled();
+  });
+
+  it('permite reclamar un hostname sin verificar y borra las reclamaciones caducadas', async () => {
+    const now = new Date('2025-06-14T12:00:00Z');
+    await expect(addDomain('pub-id', 'www.example.com', now)).resolves.toMatchObject({ publicationId: 'pub-id', hostname: 'www.example.com' });
+    expect(prisma.domain.deleteMany).toHaveBeenCalledWith({
+      where: { hostname: 'www.example.com', verifiedAt: null, createdAt: { lt: new Date(now.getTime() - UNVERIFIED_DOMAIN_TTL_MS) } },
+    });
+  });
+
+  it('devuelve null si la publicación ya reclamó el hostname', async () => {
+    (prisma.domain.create as jest.Mock).mockRejectedValueOnce(Object.assign(new Error('Unique constraint'), { code: 'P2002' }));
+    await expect(addDomain('pub-id', 'www.example.com')).resolves.toBeNull();
+  });
+});
+
+describe('verifyDomain', () => {
+  it('verifica el dominio si existe el registro TXT esperado y descarta las otras reclamaciones', async () => {
+    records['_site-verification.www.example.com'] = ['otro-valor', 'site-verification=token123'];
+    const updated = await verifyDomain(domain);
+    expect(updated?.verifiedAt).toBeInstanceOf(Date);
+    expect(prisma.domain.deleteMany).toHaveBeenCalledWith({
+      where: { hostname: 'www.example.com', verifiedAt: null, id: { not: 'domain-id' } },
+    });
+  });
+
+  it('no lo verifica si otra publicación ya tiene el dominio verificado', async () => {
+    records['_site-verification.www.example.com'] = ['site-verification=token123'];
+    (prisma.domain.findFirst as jest.Mock).mockResolvedValueOnce({ id: 'other-domain' });
+    await expect(verifyDomain(domain)).resolves.toBeNull();
+    expect(prisma.domain.deleteMany).not.toHaveBeenCalled();
+    expect(prisma.domain.update).toHaveBeenCalledWith({ where: { id: 'domain-id' }, data: { lastCheckedAt: expect.any(Date) } });
+  });
+
+  it('no lo verifica sin registro y desverifica si el registro desaparece', async () => {
+    await expect(verifyDomain(domain)).resolves.toMatchObject({ verifiedAt: null });
+    await expect(verifyDomain({ ...domain, verifiedAt: new Date() })).resolves.toMatchObject({ verifiedAt: null });
+  });
+});
+
+describe('findPublicationForHost', () => {
+  it('sólo enruta dominios verificados y cachea la respuesta', async () => {
+    (prisma.domain.findFirst as jest.Mock).mockResolvedValueOnce({ publicationId: 'pub-id' });
+    await expect(findPublicationForHost('www.example.com', 0)).resolves.toBe('pub-id');
+    await expect(findPublicationForHost('www.example.com', 1000)).resolves.toBe('pub-id');
+    expect(prisma.domain.findFirst).toHaveBeenCalledTimes(1);
+    expect(prisma.domain.findFirst).toHaveBeenCalledWith(expect.objectContaining({ where: { hostname: 'www.example.com', verifiedAt: { not: null } } }));
+
+    (prisma.domain.findFirst as jest.Mock).mockResolvedValueOnce(null);
+    await expect(findPublicationForHost('pending.example.com', 0)).resolves.toBeNull();
+  });
+});
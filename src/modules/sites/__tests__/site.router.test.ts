@@ -0,0 +1,54 @@
+import request from 'supertest';
+import express from 'express';
+import { siteRouter } from '../site.router';
+import { findPublishedFile } from '../../projects/publication.service';
+
+jest.mock('../../projects/publication.service', () => ({ findPublishedFile: jest.fn() }));
+
+const app = express();
+app.use('/sites', siteRouter);
+
+const htmlFile = {
+  path: 'index.html',
+  contentType: 'text/html; charset=utf-8',
+  content: Buffer.from('<h1>Hola</h1>'),
+  etag: 'abc123',
+};
+
+afterEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('GET /sites/:slug/*', () => {
+  it('redirige el slug sin barra final', async () => {
+    const res = await request(app).get('/sites/mi-sitio');
+    expect(res.status).toBe(301);
+    expect(res.headers.location).toBe('/sites/mi-sitio/');
+  });
+
+  it('sirve el HTML del release publicado con revalidación por ETag', async () => {
+    (findPublishedFile as jest.Mock).mockResolvedValue(htmlFile);
+    const res = await request(app).get('/sites/mi-sitio/');
+    expect(res.status).toBe(200);
+    expect(res.text).toBe('<h1>Hola</h1>');
+    expect(res.headers['cache-control']).toBe('public, max-age=0, must-revalidate');
+    expect(res.headers.etag).toBe('"abc123"');
+    expect(findPublishedFile).toHaveBeenCalledWith({ slug: 'mi-sitio' }, '');
+
+    const cached = await request(app).get('/sites/mi-sitio/').set('If-None-Match', '"abc123"');
+    expect(cached.status).toBe(304);
+  });
+
+  it('cachea los assets como inmutables', async () => {
+    (findPublishedFile as jest.Mock).mockResolvedValue({ ...htmlFile, path: 'assets/f00.png', contentType: 'image/png' });
+    const res = await request(app).get('/sites/mi-sitio/assets/f00.png');
+    expect(res.headers['cache-control']).toBe('public, max-age=31536000, immutable');
+    expect(findPublishedFile).toHaveBeenCalledWith({ slug: 'mi-sitio' }, 'assets/f00.png');
+  });
+
+  it('devuelve 404 si no hay release publicado', async () => {
+    (findPublishedFile as jest.Mock).mockResolvedValue(null);
+    const res = await request(app).get('/sites/mi-sitio/contacto');
+    expect(res.status).toBe(404);
+  });
+});
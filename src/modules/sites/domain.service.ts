@@ -0,0 +1,120 @@
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import type { Domain } from '@prisma/client';
+import { z } from 'zod';
+import { getTxtResolver } from '../../utils/dns-resolver';
+
+const prisma = new PrismaClient();
+
+// Subdominio donde el cliente crea el registro TXT de verificación
+export const VERIFICATION_RECORD_PREFIX = '_site-verification';
+const VERIFICATION_VALUE_PREFIX = 'site-verification=';
+
+// Caché de host → publicación para no consultar la base de datos en cada petición (también cachea los hosts desconocidos)
+const HOST_CACHE_TTL_MS = 60_000;
+const HOST_CACHE_MAX_ENTRIES = 10_000;
+const hostCache = new Map<string, { publicationId: string | null; expiresAt: number }>();
+
+// Plazo tras el cual una reclamación sin verificar caduca y se borra cuando otra publicación agrega el mismo hostname
+export const UNVERIFIED_DOMAIN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const isUniqueViolation = (error: unknown) => (error as { code?: string })?.code === 'P2002';
+
+export const hostnameSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(/^(?=.{1,253}$)(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/, 'Invalid hostname');
+
+export function verificationRecord(domain: Pick<Domain, 'hostname' | 'verificationToken'>) {
+  return {
+    type: 'TXT',
+    name: `${VERIFICATION_RECORD_PREFIX}.${domain.hostname}`,
+    value: `${VERIFICATION_VALUE_PREFIX}${domain.verificationToken}`,
+  };
+}
+
+/**
+ * Agrega un dominio sin verificar a la publicación. Devuelve null si el hostname ya está verificado por otra
+ * publicación o si esta ya lo reclamó. Las reclamaciones sin verificar no bloquean a nadie: la primera publicación que
+ * verifique el TXT se queda con el dominio, y las que llevan más de UNVERIFIED_DOMAIN_TTL_MS sin verificar caducan.
+ */
+export async function addDomain(publicationId: string, hostname: string, now = new Date()): Promise<Domain | null> {
+  const verified = await prisma.domain.findFirst({ where: { hostname, verifiedAt: { not: null } }, select: { id: true } });
+  if (verified) return null;
+  await prisma.domain.deleteMany({
+    where: { hostname, verifiedAt: null, createdAt: { lt: new Date(now.getTime() - UNVERIFIED_DOMAIN_TTL_MS) } },
+  });
+  try {
+    return await prisma.domain.create({
+      data: { publicationId, hostname, verificationToken: crypto.randomBytes(16).toString('hex') },
+    });
+  } catch (error) {
+    if (isUniqueViolation(error)) return null;
+    throw error;
+  }
+}
+
+/**
+ * Busca el registro TXT esperado y marca el dominio como verificado si existe; al verificarse se descartan las
+ * reclamaciones sin verificar de otras publicaciones. Devuelve null si otra publicación ya tiene el dominio verificado.
+ * Un dominio ya verificado deja de enrutarse si el registro desaparece en una verificación posterior.
+ */
+export async function verifyDomain(domain: Domain): Promise<Domain | null> {
+  const expected = verificationRecord(domain);
+  const records = await getTxtResolver().resolveTxt(expected.name);
+  const verified = records.some(record => record.trim() === expected.value);
+  const now = new Date();
+  if (!verified) {
+    const updated = await prisma.domain.update({ where: { id: domain.id }, data: { lastCheckedAt: now, verifiedAt: null } });
+    invalidateDomainCache(domain.hostname);
+    return updated;
+  }
+  let updated: Domain | null;
+  try {
+    updated = await prisma.$transaction(async tx => {
+      const taken = await tx.domain.findFirst({
+        where: { hostname: domain.hostname, verifiedAt: { not: null }, id: { not: domain.id } },
+        select: { id: true },
+      });
+      if (taken) {
+        await tx.domain.update({ where: { id: domain.id }, data: { lastCheckedAt: now } });
+        return null;
+      }
+      await tx.domain.deleteMany({ where: { hostname: domain.hostname, verifiedAt: null, id: { not: domain.id } } });
+      return tx.domain.update({ where: { id: domain.id }, data: { lastCheckedAt: now, verifiedAt: domain.verifiedAt ?? now } });
+    });
+  } catch (error) {
+    // Otra publicación verificó el mismo hostname a la vez (índice único parcial sobre los verificados)
+    if (!isUniqueViolation(error)) throw error;
+    updated = null;
+  }
+  invalidateDomainCache(domain.hostname);
+  return updated;
+}
+
+export async function removeDomain(domain: Domain): Promise<void> {
+  await prisma.domain.delete({ where: { id: domain.id } });
+  invalidateDomainCache(domain.hostname);
+}
+
+export function invalidateDomainCache(hostname?: string) {
+  if (hostname) hostCache.delete(hostname);
+  else hostCache.clear();
+}
+
+/**
+ * Publicación asociada a un dominio verificado, o null si el host es desconocido o no está verificado.
+ */
+export async function findPublicationForHost(hostname: string, now = Date.now()): Promise<string | null> {
+  const cached = hostCache.get(hostname);
+  if (cached && cached.expiresAt > now) return cached.publicationId;
+  const domain = await prisma.domain.findFirst({
+    where: { hostname, verifiedAt: { not: null } },
+    select: { publicationId: true },
+  });
+  const publicationId = domain?.publicationId ?? null;
+  if (hostCache.size >= HOST_CACHE_MAX_ENTRIES) hostCache.clear();
+  hostCache.set(hostname, { publicationId, expiresAt: now + HOST_CACHE_TTL_MS });
+  return publicationId;
+}
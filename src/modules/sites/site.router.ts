@@ -0,0 +1,86 @@
+import { Router, Request, Response } from 'express';
+import { findPublishedFile } from '../projects/publication.service';
+
+// strict: '/:slug' y '/:slug/' son rutas distintas (la segunda sirve index.html)
+const router = Router({ strict: true });
+
+// Los assets tienen nombre por hash de contenido, así que pueden cachearse indefinidamente
+const IMMUTABLE_CACHE = 'public, max-age=31536000, immutable';
+// HTML, CSS y JS conservan el nombre entre releases: se revalidan siempre con el ETag
+const REVALIDATE_CACHE = 'public, max-age=0, must-revalidate';
+
+/**
+ * Responde con un archivo del release en línea de la publicación, con cabeceras de caché y ETag.
+ * Lo usan /sites/:slug/* y el enrutado por dominio propio.
+ */
+export async function sendPublishedFile(req: Request, res: Response, publication: { slug: string } | { id: string }, filePath: string) {
+  try {
+    const file = await findPublishedFile(publication, filePath);
+    if (!file) return res.status(404).type('text/plain').send('Not found');
+    res.set({
+      'Content-Type': file.contentType,
+      'Cache-Control': file.path.startsWith('assets/') ? IMMUTABLE_CACHE : REVALIDATE_CACHE,
+      ETag: `"${file.etag}"`,
+      'X-Content-Type-Options': 'nosniff',
+    });
+    // res.send responde 304 si el ETag coincide con If-None-Match
+    res.send(Buffer.from(file.content));
+  } catch (error) {
+    console.error(`[Sites] Error serving ${req.hostname}${req.originalUrl}:`, error);
+    res.status(500).type('text/plain').send('Internal server error');
+  }
+}
+
+/**
+ * @openapi
+ * /sites/{slug}:
+ *   get:
+ *     summary: Redirige a /sites/{slug}/ para que las rutas relativas del sitio resuelvan bien
+ *     tags:
+ *       - Sites
+ *     parameters:
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       301:
+ *         description: Redirección
+ */
+router.get('/:slug', (req: Request, res: Response) => {
+  res.redirect(301, `${req.baseUrl}/${encodeURIComponent(req.params.slug)}/`);
+});
+
+/**
+ * @openapi
+ * /sites/{slug}/{path}:
+ *   get:
+ *     summary: Sirve un archivo del release publicado (público, sin autenticación)
+ *     tags:
+ *       - Sites
+ *     parameters:
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Ruta del archivo; vacía = index.html, sin extensión = {path}.html
+ *     responses:
+ *       200:
+ *         description: Contenido con Cache-Control y ETag
+ *       304:
+ *         description: No modificado (If-None-Match)
+ *       404:
+ *         description: Sitio o archivo no encontrado
+ */
+router.get('/:slug/*', async (req: Request, res: Response) => {
+  await sendPublishedFile(req, res, { slug: req.params.slug }, (req.params as Record<string, string>)[0] ?? '');
+});
+
+export const siteRouter = router;
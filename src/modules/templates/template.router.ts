@@ -0,0 +1,133 @@
+/// <reference path="../../types/express/index.d.ts" />
+import { Router, Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { authMiddleware } from '../auth/auth.middleware';
+import { requireScope } from '../../middlewares/token-scope';
+import { getWorkspaceAccess } from '../../utils/permission';
+import { duplicateProject, visibleTemplatesWhere } from '../projects/duplicate.service';
+import { checkProjectQuota, projectAssetBytes, quotaError, quotaSubject } from '../quotas/quota.service';
+
+const prisma = new PrismaClient();
+const router = Router();
+
+const templateListQuerySchema = z.object({
+  q: z.string().trim().min(1).optional(),
+});
+const templateInstantiateSchema = z.object({
+  name: z.string().min(2).optional(),
+  workspaceId: z.string().optional(),
+});
+
+// Helper: assert user is present (type guard)
+function requireUser(req: Request): asserts req is Request & { user: { id: string; twoFactor?: boolean } } {
+  if (!req.user) throw new Error('User not found in request. Auth middleware missing?');
+}
+
+/**
+ * @openapi
+ * /templates:
+ *   get:
+ *     summary: Lista las plantillas visibles para el usuario (públicas, de sus workspaces y propias o compartidas)
+ *     tags:
+ *       - Templates
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *         description: Filtra por nombre
+ *     responses:
+ *       200:
+ *         description: Lista de plantillas ({ id, name, description, ownerId, workspaceId, templateVisibility, updatedAt })
+ */
+router.get('/', authMiddleware, requireScope('projects:read'), async (req: Request, res: Response) => {
+  requireUser(req);
+  const parse = templateListQuerySchema.safeParse(req.query);
+  if (!parse.success) return res.status(400).json({ error: parse.error.errors });
+  const { q } = parse.data;
+  const templates = await prisma.project.findMany({
+    where: {
+      AND: [
+        visibleTemplatesWhere(req.user.id, { twoFactor: req.user.twoFactor }),
+        ...(q ? [{ name: { contains: q, mode: 'insensitive' as const } }] : []),
+      ],
+    },
+    select: {
+      id: true,
+      name: true,
+      description: true,
+      ownerId: true,
+      workspaceId: true,
+      templateVisibility: true,
+      updatedAt: true,
+    },
+    orderBy: { updatedAt: 'desc' },
+  });
+  res.json(templates);
+});
+
+/**
+ * @openapi
+ * /templates/{id}/instantiate:
+ *   post:
+ *     summary: Crea un proyecto nuevo del usuario a partir de una plantilla visible
+ *     tags:
+ *       - Templates
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               workspaceId:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Proyecto creado
+ *       403:
+ *         description: No es miembro del workspace destino
+ *       404:
+ *         description: Plantilla no encontrada o no visible
+ *       402:
+ *         description: Se alcanzó el límite de proyectos, páginas o almacenamiento del plan (QUOTA_PROJECTS_EXCEEDED, QUOTA_PAGES_EXCEEDED, QUOTA_STORAGE_EXCEEDED)
+ */
+router.post('/:id/instantiate', authMiddleware, requireScope('projects:write'), async (req: Request, res: Response) => {
+  requireUser(req);
+  const parse = templateInstantiateSchema.safeParse(req.body ?? {});
+  if (!parse.success) return res.status(400).json({ error: parse.error.errors });
+  const { name, workspaceId } = parse.data;
+  const template = await prisma.project.findFirst({
+    where: { id: req.params.id, ...visibleTemplatesWhere(req.user.id, { twoFactor: req.user.twoFactor }) },
+    select: { id: true, name: true },
+  });
+  if (!template) return res.status(404).json({ error: 'Template not found' });
+  if (workspaceId) {
+    const workspaceAccess = await getWorkspaceAccess(req.user.id, workspaceId);
+    if (!workspaceAccess?.role) return res.status(403).json({ error: 'Not a member of this workspace' });
+  }
+  const pages = await prisma.page.count({ where: { projectId: template.id, isDeleted: false } });
+  const assetBytes = await projectAssetBytes(template.id);
+  const quota = await checkProjectQuota(quotaSubject({ ownerId: req.user.id, workspaceId: workspaceId ?? null }), { pages, assetBytes });
+  if (quota.status === 'exceeded') {
+    const { status, body } = quotaError(quota);
+    return res.status(status).json(body);
+  }
+  const project = await duplicateProject(template.id, req.user.id, { name: name ?? template.name, workspaceId });
+  if (!project) return res.status(404).json({ error: 'Template not found' });
+  res.status(201).json(project);
+});
+
+export const templateRouter = router;
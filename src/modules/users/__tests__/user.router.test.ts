@@ -0,0 +1,114 @@
+import request from 'supertest';
+import express, { Request as ExpressRequest, Response, NextFunction } from 'express';
+import bcrypt from 'bcryptjs';
+import { PrismaClient } from '@prisma/client';
+import { userRouter } from '../user.router';
+import { signEmailChangeToken } from '../account.service';
+import { setMailTransport } from '../../../utils/mailer';
+
+// Mock de Prisma Client
+const prisma = new PrismaClient();
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    user: { findUnique: jest.fn(), update: jest.fn(), delete: jest.fn() },
+    project: { findMany: jest.fn(), deleteMany: jest.fn() },
+    workspace: { findMany: jest.fn().mockResolvedValue([]) },
+    asset: { findMany: jest.fn().mockResolvedValue([]), findFirst: jest.fn() },
+    session: { findUnique: jest.fn(), updateMany: jest.fn() },
+    auditLog: { create: jest.fn() },
+    $transaction: jest.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+  };
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+// Mock del middleware de autenticación: siempre hay un usuario con sesión interactiva
+jest.mock('../../auth/auth.middleware', () => ({
+  authMiddleware: (req: ExpressRequest, res: Response, next: NextFunction) => {
+    req.user = { id: 'user-id', email: 'user@example.com', name: 'User' };
+    next();
+  },
+}));
+
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret';
+setMailTransport({ send: async () => {} });
+
+const app = express();
+app.use(express.json());
+app.use('/users', userRouter);
+
+const passwordHash = bcrypt.hashSync('secreto', 4);
+const user = { id: 'user-id', email: 'user@example.com', name: 'User', passwordHash, twoFactorEnabled: false };
+
+afterEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('DELETE /users/me', () => {
+  it('se niega mientras el usuario sea owner de proyectos', async () => {
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue(user);
+    (prisma.project.findMany as jest.Mock).mockResolvedValue([{ id: 'project-id', name: 'Sitio' }]);
+
+    const res = await request(app).delete('/users/me').send({ password: 'secreto' });
+
+    expect(res.status).toBe(409);
+    expect(res.body.code).toBe('OWNS_PROJECTS');
+    expect(res.body.projects).toEqual([{ id: 'project-id', name: 'Sitio' }]);
+    expect(prisma.user.delete).not.toHaveBeenCalled();
+  });
+
+  it('se niega mientras el usuario sea el único owner de un workspace', async () => {
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue(user);
+    (prisma.project.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.workspace.findMany as jest.Mock).mockResolvedValueOnce([{ id: 'workspace-id', name: 'Equipo' }]);
+
+    const res = await request(app).delete('/users/me').send({ password: 'secreto' });
+
+    expect(res.status).toBe(409);
+    expect(res.body.code).toBe('OWNS_WORKSPACES');
+    expect(res.body.workspaces).toEqual([{ id: 'workspace-id', name: 'Equipo' }]);
+    expect(prisma.workspace.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { members: { some: { userId: 'user-id', role: 'owner' }, none: { role: 'owner', userId: { not: 'user-id' } } } },
+    }));
+    expect(prisma.user.delete).not.toHaveBeenCalled();
+  });
+
+  it('elimina la cuenta si no es owner de ningún proyecto ni workspace', async () => {
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue(user);
+    (prisma.project.findMany as jest.Mock).mockResolvedValue([]);
+
+    const res = await request(app).delete('/users/me').send({ password: 'secreto' });
+
+    expect(res.status).toBe(204);
+    expect(prisma.user.delete).toHaveBeenCalledWith({ where: { id: 'user-id' } });
+  });
+
+  it('exige la contraseña actual', async () => {
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue(user);
+    const res = await request(app).delete('/users/me').send({ password: 'otra' });
+    expect(res.status).toBe(400);
+    expect(prisma.user.delete).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /users/email/confirm', () => {
+  it('actualiza el email con un token válido', async () => {
+    const token = signEmailChangeToken({ userId: 'user-id', currentEmail: 'user@example.com', newEmail: 'new@example.com' });
+    (prisma.user.findUnique as jest.Mock).mockResolvedValueOnce(user).mockResolvedValueOnce(null);
+    (prisma.user.update as jest.Mock).mockResolvedValue({ ...user, email: 'new@example.com' });
+
+    const res = await request(app).post('/users/email/confirm').send({ token });
+
+    expect(res.status).toBe(200);
+    expect(prisma.user.update).toHaveBeenCalledWith({ where: { id: 'user-id' }, data: { email: 'new@example.com' } });
+  });
+
+  it('rechaza el token si el email cambió después de emitirlo', async () => {
+    const token = signEmailChangeToken({ userId: 'user-id', currentEmail: 'old@example.com', newEmail: 'new@example.com' });
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue(user);
+
+    const res = await request(app).post('/users/email/confirm').send({ token });
+
+    expect(res.status).toBe(400);
+    expect(prisma.user.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,80 @@
+import jwt from 'jsonwebtoken';
+import { PrismaClient } from '@prisma/client';
+import { sendMail } from '../../utils/mailer';
+import { releaseAssetContent } from '../assets/asset.service';
+
+const prisma = new PrismaClient();
+
+const EMAIL_CHANGE_PURPOSE = 'email-change';
+const EMAIL_CHANGE_TTL = '24h';
+
+interface EmailChangePayload {
+  userId: string;
+  currentEmail: string;
+  newEmail: string;
+}
+
+/**
+ * Token del enlace de confirmación. Incluye el email actual para que un enlace antiguo
+ * deje de valer si el email cambió entretanto.
+ */
+export function signEmailChangeToken(payload: EmailChangePayload): string {
+  return jwt.sign({ ...payload, purpose: EMAIL_CHANGE_PURPOSE }, process.env.JWT_SECRET!, { expiresIn: EMAIL_CHANGE_TTL });
+}
+
+export function verifyEmailChangeToken(token: string): EmailChangePayload | null {
+  try {
+    const payload = jwt.verify(token, process.env.JWT_SECRET!) as Partial<EmailChangePayload> & { purpose?: string };
+    if (payload.purpose !== EMAIL_CHANGE_PURPOSE || !payload.userId || !payload.currentEmail || !payload.newEmail) return null;
+    return { userId: payload.userId, currentEmail: payload.currentEmail, newEmail: payload.newEmail };
+  } catch {
+    return null;
+  }
+}
+
+export async function sendEmailChangeConfirmation(user: { id: string; email: string; name: string }, newEmail: string) {
+  const token = signEmailChangeToken({ userId: user.id, currentEmail: user.email, newEmail });
+  const link = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/confirm-email?token=${token}`;
+  await sendMail({
+    to: newEmail,
+    subject: 'Confirma tu nuevo email',
+    text: `Hola ${user.name},\n\nPara usar ${newEmail} como email de tu cuenta abre este enlace (válido 24 horas):\n${link}\n\n` +
+      'Si no solicitaste el cambio, ignora este mensaje.',
+  });
+}
+
+/**
+ * Proyectos que impiden eliminar la cuenta: deben transferirse o eliminarse antes
+ */
+export async function listOwnedProjects(userId: string) {
+  return prisma.project.findMany({ where: { ownerId: userId, deletedAt: null }, select: { id: true, name: true } });
+}
+
+/**
+ * Workspaces en los que el usuario es el único owner: quedarían sin owner, así que deben eliminarse antes
+ */
+export async function listOwnedWorkspaces(userId: string) {
+  return prisma.workspace.findMany({
+    where: {
+      members: { some: { userId, role: 'owner' }, none: { role: 'owner', userId: { not: userId } } },
+    },
+    select: { id: true, name: true },
+  });
+}
+
+/**
+ * Elimina la cuenta. Sesiones, tokens, permisos e invitaciones enviadas se borran en cascada;
+ * las versiones conservan el historial sin autor y los bloqueos del usuario se liberan.
+ * Los proyectos propios que siguen en la papelera se purgan en el momento.
+ */
+export async function deleteAccount(userId: string) {
+  const assets = await prisma.asset.findMany({
+    where: { project: { ownerId: userId, deletedAt: { not: null } } },
+    select: { hash: true },
+  });
+  await prisma.$transaction([
+    prisma.project.deleteMany({ where: { ownerId: userId, deletedAt: { not: null } } }),
+    prisma.user.delete({ where: { id: userId } }),
+  ]);
+  await releaseAssetContent(assets.map(asset => asset.hash));
+}
@@ -1,10 +1,56 @@
 import { Router } from 'express';
+import { z } from 'zod';
 import { PrismaClient } from '@prisma/client';
 import { authMiddleware } from '../auth/auth.middleware';
+import bcrypt from 'bcryptjs';
+import { getSessionFamilyId, listActiveSessions, revokeOtherUserSessions, revokeUserSession } from '../auth/session.service';
+import { verifySecondFactor } from '../auth/two-factor.service';
+import {
+  TOKEN_SCOPES,
+  createPersonalAccessToken,
+  listPersonalAccessTokens,
+  revokePersonalAccessToken,
+} from '../auth/access-token.service';
+import { requireSession } from '../../middlewares/token-scope';
+import { validateBody } from '../../utils/validateBody';
+import { recordAudit } from '../../utils/audit';
+import { sendMail } from '../../utils/mailer';
+import { deleteAccount, listOwnedProjects, listOwnedWorkspaces, sendEmailChangeConfirmation, verifyEmailChangeToken } from './account.service';
+import { quotaUsage } from '../quotas/quota.service';
 
 const prisma = new PrismaClient();
 const router = Router();
 
+const updateProfileSchema = z.object({
+  name: z.string().min(2),
+});
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1),
+  newPassword: z.string().min(6),
+});
+
+const changeEmailSchema = z.object({
+  newEmail: z.string().email(),
+  password: z.string().min(1),
+});
+
+const confirmEmailSchema = z.object({
+  token: z.string().min(1),
+});
+
+const deleteAccountSchema = z.object({
+  password: z.string().min(1),
+  code: z.string().optional(),
+  recoveryCode: z.string().optional(),
+});
+
+const createTokenSchema = z.object({
+  name: z.string().min(1).max(100),
+  scopes: z.array(z.enum(TOKEN_SCOPES)).min(1),
+  expiresAt: z.coerce.date().refine(date => date > new Date(), 'expiresAt must be in the future').optional(),
+});
+
 /**
  * @openapi
  * /users/me:
@@ -26,4 +72,405 @@ router.get('/me', authMiddleware, async (req: any, res) => {
   res.json({ id: user.id, email: user.email, name: user.name, createdAt: user.createdAt });
 });
 
+/**
+ * @openapi
+ * /users/me/usage:
+ *   get:
+ *     summary: Plan, límites y consumo del usuario (proyectos personales) y de cada workspace del que es miembro
+ *     tags:
+ *       - Users
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: "{ plan, limits, usage: { projects, assetBytes }, workspaces: [{ id, name, role, plan, limits, usage }] } (null = sin límite)"
+ */
+router.get('/me/usage', authMiddleware, async (req: any, res) => {
+  const memberships = await prisma.workspaceMember.findMany({
+    where: { userId: req.user.id },
+    include: { workspace: { select: { id: true, name: true } } },
+    orderBy: { createdAt: 'asc' },
+  });
+  const personal = await quotaUsage({ type: 'user', id: req.user.id });
+  const workspaces = [];
+  for (const { workspace, role } of memberships) {
+    workspaces.push({ id: workspace.id, name: workspace.name, role, ...(await quotaUsage({ type: 'workspace', id: workspace.id })) });
+  }
+  res.json({ ...personal, workspaces });
+});
+
+/**
+ * @openapi
+ * /users/me:
+ *   patch:
+ *     summary: Actualiza el nombre del usuario autenticado
+ *     tags:
+ *       - Users
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 minLength: 2
+ *     responses:
+ *       200:
+ *         description: Perfil actualizado
+ *       400:
+ *         description: Datos inválidos
+ */
+router.patch('/me', authMiddleware, requireSession, validateBody(updateProfileSchema), async (req: any, res) => {
+  const user = await prisma.user.update({ where: { id: req.user.id }, data: { name: req.body.name } });
+  res.json({ id: user.id, email: user.email, name: user.name, createdAt: user.createdAt });
+});
+
+/**
+ * @openapi
+ * /users/me/password:
+ *   post:
+ *     summary: Cambia la contraseña (requiere la actual) y cierra las demás sesiones
+ *     tags:
+ *       - Users
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               currentPassword:
+ *                 type: string
+ *               newPassword:
+ *                 type: string
+ *                 minLength: 6
+ *     responses:
+ *       204:
+ *         description: Contraseña cambiada
+ *       400:
+ *         description: Contraseña actual incorrecta o datos inválidos
+ */
+router.post('/me/password', authMiddleware, requireSession, validateBody(changePasswordSchema), async (req: any, res) => {
+  const { currentPassword, newPassword } = req.body;
+  const user = await prisma.user.findUnique({ where: { id: req.user.id } });
+  if (!user) return res.status(404).json({ error: 'User not found' });
+  const valid = await bcrypt.compare(currentPassword, user.passwordHash);
+  if (!valid) return res.status(400).json({ error: 'Current password is incorrect' });
+  await prisma.user.update({ where: { id: user.id }, data: { passwordHash: await bcrypt.hash(newPassword, 10) } });
+  // La sesión actual sigue abierta; el resto se revoca
+  const currentFamilyId = req.user.sessionId ? await getSessionFamilyId(req.user.sessionId) : null;
+  await revokeOtherUserSessions(user.id, currentFamilyId);
+  res.status(204).send();
+});
+
+/**
+ * @openapi
+ * /users/me/email:
+ *   post:
+ *     summary: Solicita el cambio de email (se confirma con el enlace enviado al nuevo email)
+ *     tags:
+ *       - Users
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               newEmail:
+ *                 type: string
+ *                 format: email
+ *               password:
+ *                 type: string
+ *     responses:
+ *       202:
+ *         description: Enlace de confirmación enviado
+ *       400:
+ *         description: Contraseña incorrecta o datos inválidos
+ *       409:
+ *         description: Email ya en uso
+ */
+router.post('/me/email', authMiddleware, requireSession, validateBody(changeEmailSchema), async (req: any, res) => {
+  const { newEmail, password } = req.body;
+  const user = await prisma.user.findUnique({ where: { id: req.user.id } });
+  if (!user) return res.status(404).json({ error: 'User not found' });
+  const valid = await bcrypt.compare(password, user.passwordHash);
+  if (!valid) return res.status(400).json({ error: 'Current password is incorrect' });
+  const existing = await prisma.user.findUnique({ where: { email: newEmail } });
+  if (existing) return res.status(409).json({ error: 'Email already in use' });
+  await sendEmailChangeConfirmation(user, newEmail);
+  res.status(202).json({ message: 'Confirmation link sent to the new email' });
+});
+
+/**
+ * @openapi
+ * /users/email/confirm:
+ *   post:
+ *     summary: Confirma el cambio de email con el token del enlace
+ *     tags:
+ *       - Users
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Email actualizado ({ id, email, name })
+ *       400:
+ *         description: Token inválido, expirado o ya utilizado
+ *       409:
+ *         description: Email ya en uso
+ */
+router.post('/email/confirm', validateBody(confirmEmailSchema), async (req, res) => {
+  const payload = verifyEmailChangeToken(req.body.token);
+  if (!payload) return res.status(400).json({ error: 'Invalid or expired token' });
+  const user = await prisma.user.findUnique({ where: { id: payload.userId } });
+  // El enlace deja de valer si la cuenta ya no existe o su email cambió después de emitirlo
+  if (!user || user.email !== payload.currentEmail) return res.status(400).json({ error: 'Invalid or expired token' });
+  const existing = await prisma.user.findUnique({ where: { email: payload.newEmail } });
+  if (existing) return res.status(409).json({ error: 'Email already in use' });
+  const updated = await prisma.user.update({ where: { id: user.id }, data: { email: payload.newEmail } });
+  await recordAudit({ action: 'user.email_change', userId: user.id, ip: req.ip, metadata: { from: user.email, to: updated.email } });
+  // Aviso a la dirección anterior por si el cambio no fue legítimo
+  sendMail({
+    to: user.email,
+    subject: 'Tu email ha cambiado',
+    text: `Hola ${user.name},\n\nEl email de tu cuenta ahora es ${updated.email}. Si no hiciste este cambio, contacta con soporte.`,
+  }).catch(error => console.error('[Users] Error sending email change notice:', error));
+  res.json({ id: updated.id, email: updated.email, name: updated.name });
+});
+
+/**
+ * @openapi
+ * /users/me:
+ *   delete:
+ *     summary: Elimina la cuenta del usuario autenticado
+ *     description: Se rechaza mientras el usuario sea owner de algún proyecto o el único owner de algún workspace; debe transferirlos o eliminarlos antes.
+ *     tags:
+ *       - Users
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               password:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 description: Código TOTP (si la cuenta tiene 2FA)
+ *               recoveryCode:
+ *                 type: string
+ *     responses:
+ *       204:
+ *         description: Cuenta eliminada
+ *       400:
+ *         description: Contraseña o código incorrectos
+ *       409:
+ *         description: El usuario es owner de proyectos ({ error, code, projects }) o único owner de workspaces ({ error, code, workspaces })
+ */
+router.delete('/me', authMiddleware, requireSession, validateBody(deleteAccountSchema), async (req: any, res) => {
+  const { password, code, recoveryCode } = req.body;
+  const user = await prisma.user.findUnique({ where: { id: req.user.id } });
+  if (!user) return res.status(404).json({ error: 'User not found' });
+  const valid = await bcrypt.compare(password, user.passwordHash);
+  if (!valid) return res.status(400).json({ error: 'Current password is incorrect' });
+  if (user.twoFactorEnabled && !(await verifySecondFactor(user, { code, recoveryCode }))) {
+    return res.status(400).json({ error: 'Invalid two-factor code' });
+  }
+  const ownedProjects = await listOwnedProjects(user.id);
+  if (ownedProjects.length > 0) {
+    return res.status(409).json({
+      error: 'Transfer or delete your projects before deleting your account',
+      code: 'OWNS_PROJECTS',
+      projects: ownedProjects,
+    });
+  }
+  const ownedWorkspaces = await listOwnedWorkspaces(user.id);
+  if (ownedWorkspaces.length > 0) {
+    return res.status(409).json({
+      error: 'Delete your workspaces before deleting your account',
+      code: 'OWNS_WORKSPACES',
+      workspaces: ownedWorkspaces,
+    });
+  }
+  await deleteAccount(user.id);
+  await recordAudit({ action: 'user.delete', userId: user.id, ip: req.ip });
+  res.status(204).send();
+});
+
+/**
+ * @openapi
+ * /users/me/sessions:
+ *   get:
+ *     summary: Lista las sesiones activas del usuario autenticado
+ *     tags:
+ *       - Users
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Sesiones activas (current indica la sesión de este token)
+ */
+router.get('/me/sessions', authMiddleware, requireSession, async (req: any, res) => {
+  const sessions = await listActiveSessions(req.user.id);
+  const currentFamilyId = req.user.sessionId ? await getSessionFamilyId(req.user.sessionId) : null;
+  res.json(sessions.map(session => ({
+    id: session.id,
+    userAgent: session.userAgent,
+    ip: session.ip,
+    createdAt: session.createdAt,
+    lastUsedAt: session.lastUsedAt,
+    expiresAt: session.expiresAt,
+    current: session.familyId === currentFamilyId,
+  })));
+});
+
+/**
+ * @openapi
+ * /users/me/sessions/{id}:
+ *   delete:
+ *     summary: Revoca una sesión del usuario autenticado
+ *     tags:
+ *       - Users
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Sesión revocada
+ *       404:
+ *         description: Sesión no encontrada
+ */
+router.delete('/me/sessions/:id', authMiddleware, requireSession, async (req: any, res) => {
+  const revoked = await revokeUserSession(req.user.id, req.params.id);
+  if (!revoked) return res.status(404).json({ error: 'Session not found' });
+  res.status(204).send();
+});
+
+/**
+ * @openapi
+ * /users/me/tokens:
+ *   get:
+ *     summary: Lista los tokens personales activos (sin el token en claro)
+ *     tags:
+ *       - Users
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Tokens ({ id, name, prefix, scopes, expiresAt, lastUsedAt, createdAt })
+ */
+router.get('/me/tokens', authMiddleware, requireSession, async (req: any, res) => {
+  const tokens = await listPersonalAccessTokens(req.user.id);
+  res.json(tokens.map(token => ({
+    id: token.id,
+    name: token.name,
+    prefix: token.prefix,
+    scopes: token.scopes,
+    expiresAt: token.expiresAt,
+    lastUsedAt: token.lastUsedAt,
+    createdAt: token.createdAt,
+  })));
+});
+
+/**
+ * @openapi
+ * /users/me/tokens:
+ *   post:
+ *     summary: Crea un token personal para scripts/CI
+ *     description: El token en claro sólo se devuelve en esta respuesta.
+ *     tags:
+ *       - Users
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               scopes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [projects:read, projects:write, pages:read, pages:write, versions:read, versions:write, workspaces:read, workspaces:write]
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       201:
+ *         description: Token creado ({ id, name, prefix, scopes, expiresAt, token })
+ *       400:
+ *         description: Datos inválidos
+ */
+router.post('/me/tokens', authMiddleware, requireSession, validateBody(createTokenSchema), async (req: any, res) => {
+  const { name, scopes, expiresAt } = createTokenSchema.parse(req.body);
+  const { token, accessToken } = await createPersonalAccessToken(req.user.id, {
+    name,
+    scopes,
+    expiresAt,
+    twoFactor: req.user.twoFactor,
+  });
+  res.status(201).json({
+    id: accessToken.id,
+    name: accessToken.name,
+    prefix: accessToken.prefix,
+    scopes: accessToken.scopes,
+    expiresAt: accessToken.expiresAt,
+    token,
+  });
+});
+
+/**
+ * @openapi
+ * /users/me/tokens/{id}:
+ *   delete:
+ *     summary: Revoca un token personal
+ *     tags:
+ *       - Users
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Token revocado
+ *       404:
+ *         description: Token no encontrado
+ */
+router.delete('/me/tokens/:id', authMiddleware, requireSession, async (req: any, res) => {
+  const revoked = await revokePersonalAccessToken(req.user.id, req.params.id);
+  if (!revoked) return res.status(404).json({ error: 'Token not found' });
+  res.status(204).send();
+});
+
 export const userRouter = router;
@@ -0,0 +1,345 @@
+/// <reference path="../../types/express/index.d.ts" />
+import { Router, Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { authMiddleware } from '../auth/auth.middleware';
+import { workspaceAccessMiddleware } from '../../middlewares/workspace-access';
+import { requireScope } from '../../middlewares/token-scope';
+import { PROJECT_ROLES, getWorkspaceAccess, hasWorkspaceRole } from '../../utils/permission';
+
+const prisma = new PrismaClient();
+const router = Router();
+
+// Roles asignables por API; el owner sólo se asigna al crear el workspace
+const ASSIGNABLE_WORKSPACE_ROLES = ['member', 'admin'] as const;
+
+const workspaceCreateSchema = z.object({
+  name: z.string().min(2),
+  defaultProjectRole: z.enum(PROJECT_ROLES).optional(),
+});
+const workspaceUpdateSchema = z.object({
+  name: z.string().min(2).optional(),
+  defaultProjectRole: z.enum(PROJECT_ROLES).optional(),
+});
+const memberAddSchema = z.object({
+  email: z.string().email(),
+  role: z.enum(ASSIGNABLE_WORKSPACE_ROLES).default('member'),
+});
+const memberUpdateSchema = z.object({
+  role: z.enum(ASSIGNABLE_WORKSPACE_ROLES),
+});
+
+// Helper: assert user is present (type guard)
+function requireUser(req: Request): asserts req is Request & { user: { id: string } } {
+  if (!req.user) throw new Error('User not found in request. Auth middleware missing?');
+}
+
+/**
+ * @openapi
+ * /workspaces:
+ *   post:
+ *     summary: Crea un workspace (el creador queda como owner)
+ *     tags:
+ *       - Workspaces
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 minLength: 2
+ *               defaultProjectRole:
+ *                 type: string
+ *                 enum: [viewer, commenter, editor, admin]
+ *     responses:
+ *       201:
+ *         description: Workspace creado
+ *       400:
+ *         description: Error de validación
+ */
+router.post('/', authMiddleware, requireScope('workspaces:write'), async (req: Request, res: Response) => {
+  requireUser(req);
+  const parse = workspaceCreateSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.errors });
+  const workspace = await prisma.workspace.create({
+    data: { ...parse.data, members: { create: [{ userId: req.user.id, role: 'owner' }] } },
+    include: { members: true },
+  });
+  res.status(201).json(workspace);
+});
+
+/**
+ * @openapi
+ * /workspaces:
+ *   get:
+ *     summary: Lista los workspaces del usuario con su rol en cada uno
+ *     tags:
+ *       - Workspaces
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Lista de workspaces ({ id, name, defaultProjectRole, role })
+ */
+router.get('/', authMiddleware, requireScope('workspaces:read'), async (req: Request, res: Response) => {
+  requireUser(req);
+  const memberships = await prisma.workspaceMember.findMany({
+    where: { userId: req.user.id },
+    include: { workspace: true },
+    orderBy: { createdAt: 'asc' },
+  });
+  res.json(memberships.map(({ workspace, role }) => ({ ...workspace, role })));
+});
+
+/**
+ * @openapi
+ * /workspaces/{id}:
+ *   get:
+ *     summary: Obtiene un workspace con sus miembros y proyectos (miembros)
+ *     tags:
+ *       - Workspaces
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Workspace
+ *       403:
+ *         description: Prohibido
+ *       404:
+ *         description: No encontrado
+ */
+router.get('/:id', authMiddleware, requireScope('workspaces:read'), workspaceAccessMiddleware('member'), async (req: Request, res: Response) => {
+  const workspace = await prisma.workspace.findUnique({
+    where: { id: req.params.id },
+    include: {
+      members: { include: { user: { select: { id: true, name: true, email: true } } } },
+      projects: { where: { deletedAt: null }, select: { id: true, name: true, ownerId: true } },
+    },
+  });
+  if (!workspace) return res.status(404).json({ error: 'Not found' });
+  res.json(workspace);
+});
+
+/**
+ * @openapi
+ * /workspaces/{id}:
+ *   patch:
+ *     summary: Actualiza nombre o rol por defecto en los proyectos (admin u owner)
+ *     tags:
+ *       - Workspaces
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               defaultProjectRole:
+ *                 type: string
+ *                 enum: [viewer, commenter, editor, admin]
+ *     responses:
+ *       200:
+ *         description: Workspace actualizado
+ *       403:
+ *         description: Prohibido
+ */
+router.patch('/:id', authMiddleware, requireScope('workspaces:write'), workspaceAccessMiddleware('admin'), async (req: Request, res: Response) => {
+  const parse = workspaceUpdateSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.errors });
+  const workspace = await prisma.workspace.update({ where: { id: req.params.id }, data: parse.data });
+  res.json(workspace);
+});
+
+/**
+ * @openapi
+ * /workspaces/{id}:
+ *   delete:
+ *     summary: Elimina el workspace (sólo owner; no debe tener proyectos)
+ *     tags:
+ *       - Workspaces
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Workspace eliminado
+ *       409:
+ *         description: El workspace aún tiene proyectos
+ */
+router.delete('/:id', authMiddleware, requireScope('workspaces:write'), workspaceAccessMiddleware('owner'), async (req: Request, res: Response) => {
+  const projects = await prisma.project.count({ where: { workspaceId: req.params.id, deletedAt: null } });
+  if (projects > 0) return res.status(409).json({ error: 'Move or delete the workspace projects first' });
+  await prisma.workspace.delete({ where: { id: req.params.id } });
+  res.status(204).send();
+});
+
+/**
+ * @openapi
+ * /workspaces/{id}/members:
+ *   post:
+ *     summary: Agrega un usuario registrado al workspace (admin u owner)
+ *     tags:
+ *       - Workspaces
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               role:
+ *                 type: string
+ *                 enum: [member, admin]
+ *     responses:
+ *       201:
+ *         description: Miembro agregado ({ userId, role })
+ *       404:
+ *         description: Usuario no encontrado
+ *       409:
+ *         description: Ya es miembro
+ */
+router.post('/:id/members', authMiddleware, requireScope('workspaces:write'), workspaceAccessMiddleware('admin'), async (req: Request, res: Response) => {
+  const { id: workspaceId } = req.params;
+  const parse = memberAddSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.errors });
+  const user = await prisma.user.findFirst({ where: { email: { equals: parse.data.email, mode: 'insensitive' } } });
+  if (!user) return res.status(404).json({ error: 'User not found' });
+  const existing = await prisma.workspaceMember.findUnique({ where: { workspaceId_userId: { workspaceId, userId: user.id } } });
+  if (existing) return res.status(409).json({ error: 'User is already a member of this workspace' });
+  const member = await prisma.workspaceMember.create({ data: { workspaceId, userId: user.id, role: parse.data.role } });
+  res.status(201).json({ userId: member.userId, role: member.role });
+});
+
+/**
+ * @openapi
+ * /workspaces/{id}/members/{userId}:
+ *   patch:
+ *     summary: Cambia el rol de un miembro (admin u owner; el owner no se modifica)
+ *     tags:
+ *       - Workspaces
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [member, admin]
+ *     responses:
+ *       200:
+ *         description: Rol actualizado ({ userId, role })
+ *       400:
+ *         description: No se puede cambiar el rol del owner
+ *       404:
+ *         description: Miembro no encontrado
+ */
+router.patch('/:id/members/:userId', authMiddleware, requireScope('workspaces:write'), workspaceAccessMiddleware('admin'), async (req: Request, res: Response) => {
+  const { id: workspaceId, userId } = req.params;
+  const parse = memberUpdateSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.errors });
+  const member = await prisma.workspaceMember.findUnique({ where: { workspaceId_userId: { workspaceId, userId } } });
+  if (!member) return res.status(404).json({ error: 'Member not found' });
+  if (member.role === 'owner') return res.status(400).json({ error: 'Cannot change the workspace owner role' });
+  const updated = await prisma.workspaceMember.update({ where: { id: member.id }, data: { role: parse.data.role } });
+  res.json({ userId: updated.userId, role: updated.role });
+});
+
+/**
+ * @openapi
+ * /workspaces/{id}/members/{userId}:
+ *   delete:
+ *     summary: Quita un miembro (admin u owner) o abandona el workspace (el propio usuario)
+ *     description: El miembro pierde de inmediato el acceso heredado a todos los proyectos del workspace.
+ *     tags:
+ *       - Workspaces
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Miembro eliminado
+ *       400:
+ *         description: No se puede quitar al owner
+ *       403:
+ *         description: Prohibido
+ *       404:
+ *         description: Miembro no encontrado
+ */
+router.delete('/:id/members/:userId', authMiddleware, requireScope('workspaces:write'), async (req: Request, res: Response) => {
+  requireUser(req);
+  const { id: workspaceId, userId } = req.params;
+  const access = await getWorkspaceAccess(req.user.id, workspaceId);
+  if (!access) return res.status(404).json({ error: 'Not found' });
+  const isSelf = req.user.id === userId;
+  if (!hasWorkspaceRole(access.role, isSelf ? 'member' : 'admin')) return res.status(403).json({ error: 'Forbidden' });
+  const member = await prisma.workspaceMember.findUnique({ where: { workspaceId_userId: { workspaceId, userId } } });
+  if (!member) return res.status(404).json({ error: 'Member not found' });
+  if (member.role === 'owner') return res.status(400).json({ error: 'Cannot remove the workspace owner' });
+  // El acceso heredado se calcula a partir de la membresía, así que borrarla lo revoca en todos los proyectos
+  await prisma.workspaceMember.delete({ where: { id: member.id } });
+  res.status(204).send();
+});
+
+export const workspaceRouter = router;
@@ -0,0 +1,80 @@
+/**
+ * Migración: extrae a la biblioteca de assets los data URIs en base64 que ya están guardados en los proyectos
+ * (designData, html, css, components, assets) y sus páginas (html, css, components), y reescribe las referencias.
+ * También firma las URLs de la biblioteca guardadas sin firma.
+ *
+ * Uso (tras `npm run build`): npm run assets:extract-inline [-- <projectId> ...]
+ * Sin IDs recorre todos los proyectos, incluidos los de la papelera. Es idempotente: se puede repetir sin efectos.
+ */
+import dotenv from 'dotenv';
+import { PrismaClient } from '@prisma/client';
+import { extractInlineAssets } from '../modules/assets/inline-assets';
+
+dotenv.config();
+
+const prisma = new PrismaClient();
+const BATCH_SIZE = 50;
+
+// Sólo se procesan (y reescriben) los campos con contenido: un Json null no se puede volver a escribir tal cual
+function presentFields<T extends Record<string, unknown>>(record: T, keys: (keyof T)[]): Record<string, unknown> {
+  return Object.fromEntries(keys.filter(key => record[key] !== null && record[key] !== undefined).map(key => [key, record[key]]));
+}
+
+async function migrateProject(project: { id: string }): Promise<number> {
+  let total = 0;
+  const record = await prisma.project.findUniqueOrThrow({
+    where: { id: project.id },
+    select: { designData: true, html: true, css: true, components: true, assets: true },
+  });
+  const inline = await extractInlineAssets(project.id, null, presentFields(record, ['designData', 'html', 'css', 'components', 'assets']));
+  if (inline.extracted > 0 || inline.signed > 0) {
+    await prisma.project.update({ where: { id: project.id }, data: inline.fields });
+    total += inline.extracted;
+  }
+
+  const pages = await prisma.page.findMany({
+    where: { projectId: project.id },
+    select: { id: true, html: true, css: true, components: true },
+  });
+  for (const page of pages) {
+    const result = await extractInlineAssets(project.id, null, presentFields(page, ['html', 'css', 'components']));
+    if (result.extracted === 0 && result.signed === 0) continue;
+    await prisma.page.update({ where: { id: page.id }, data: result.fields });
+    total += result.extracted;
+  }
+  return total;
+}
+
+async function main() {
+  const only = process.argv.slice(2);
+  let cursor: string | undefined;
+  let projects = 0;
+  let extracted = 0;
+
+  for (;;) {
+    const batch = await prisma.project.findMany({
+      where: only.length > 0 ? { id: { in: only } } : undefined,
+      select: { id: true },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+    });
+    if (batch.length === 0) break;
+    for (const project of batch) {
+      const count = await migrateProject(project);
+      projects += 1;
+      extracted += count;
+      if (count > 0) console.log(`[Assets] Project ${project.id}: ${count} inline asset(s) extracted`);
+    }
+    cursor = batch[batch.length - 1].id;
+  }
+
+  console.log(`[Assets] Done: ${projects} project(s) scanned, ${extracted} inline asset(s) extracted`);
+}
+
+main()
+  .catch(error => {
+    console.error('[Assets] Inline asset extraction failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -8,12 +8,9 @@
 
 import { Server as HttpServer } from 'http';
 import { Server, Socket } from 'socket.io';
-import jwt from 'jsonwebtoken';
-import { PrismaClient } from '@prisma/client';
 import { registerPageSocketHandlers } from '../modules/pages';
-
-// Cliente de Prisma para acceder a la base de datos
-const prisma = new PrismaClient();
+import { getProjectAccess, hasCapability, ProjectRoleName } from '../utils/permission';
+import { verifyAccessToken } from '../modules/auth/session.service';
 
 // Función simple de logging
 const log = {
@@ -28,16 +25,96 @@ interface UserPayload {
   id: string;
   email: string;
   name: string;
+  mfa?: boolean;
 }
 
 interface SocketWithUser extends Socket {
   user?: UserPayload;
   projectId?: string;
+  linkToken?: string;
+  role?: ProjectRoleName;
 }
 
 // Mapa para rastrear usuarios activos por proyecto
 const activeUsers = new Map<string, Map<string, { id: string; name: string }>>();
 
+/**
+ * Middleware de autenticación del handshake: access token de una sesión vigente y acceso al proyecto
+ */
+export async function authenticateCollabSocket(socket: SocketWithUser, next: (err?: Error) => void) {
+  try {
+    log.info('Nueva conexión de socket entrante');
+    
+    // Obtener token de autenticación
+    const token = socket.handshake.auth?.token || socket.handshake.query?.token;
+    log.debug('Token recibido:', { token: token ? 'presente' : 'ausente' });
+    
+    // Obtener ID del proyecto
+    const projectId = socket.handshake.query?.projectId as string;
+    log.debug('ID de proyecto recibido:', { projectId });
+
+    // Token de acceso por enlace (opcional)
+    const linkToken = (socket.handshake.auth?.linkToken || socket.handshake.query?.linkToken) as string | undefined;
+    
+    // Validar token y projectId
+    if (!token) {
+      log.warn('Conexión rechazada: Token no proporcionado');
+      return next(new Error('No se proporcionó token de autenticación'));
+    }
+    
+    if (!projectId) {
+      log.warn('Conexión rechazada: ID de proyecto no proporcionado');
+      return next(new Error('No se proporcionó ID de proyecto'));
+    }
+    
+    // Verificar token JWT y que su sesión no esté revocada
+    const user: UserPayload | null = await verifyAccessToken(token as string);
+    if (!user) {
+      log.warn('Conexión rechazada: Token inválido o sesión revocada');
+      return next(new Error('Token inválido o sesión revocada'));
+    }
+    log.info('Usuario autenticado:', { userId: user.id, name: user.name });
+    
+    // Verificar acceso al proyecto (owner, colaborador o enlace con token válido)
+    const access = await getProjectAccess(user.id, projectId, { linkToken, twoFactor: user.mfa });
+    
+    if (!access) {
+      log.warn('Conexión rechazada: Proyecto no encontrado', { projectId });
+      return next(new Error('Proyecto no encontrado'));
+    }
+    
+    if (access.twoFactorRequired) {
+      log.warn('Conexión rechazada: El proyecto exige 2FA', { userId: user.id, projectId });
+      return next(new Error('El proyecto exige autenticación en dos pasos'));
+    }
+    
+    if (!access.role) {
+      log.warn('Conexión rechazada: Sin permisos para el proyecto', { 
+        userId: user.id, 
+        projectId,
+        hasLinkToken: !!linkToken
+      });
+      return next(new Error('Sin permisos para acceder a este proyecto'));
+    }
+    
+    // Adjuntar datos de usuario y proyecto al socket
+    socket.user = user;
+    socket.projectId = projectId;
+    socket.linkToken = linkToken;
+    socket.role = access.role;
+    
+    log.info('Autenticación de socket exitosa', { 
+      userId: user.id, 
+      projectId, 
+      role: access.role 
+    });
+    next();
+  } catch (error) {
+    log.error('Error en autenticación de socket:', error);
+    next(new Error('Error de autenticación'));
+  }
+}
+
 /**
  * Inicializa el servidor de Socket.IO para colaboración
  * @param httpServer - Servidor HTTP para adjuntar Socket.IO
@@ -60,83 +137,7 @@ export function setupCollabSocket(httpServer: HttpServer, app?: any): Server {
   registerPageSocketHandlers(io);
   
   // Middleware de autenticación
-  io.use(async (socket: SocketWithUser, next) => {
-    try {
-      log.info('Nueva conexión de socket entrante');
-      
-      // Obtener token de autenticación
-      const token = socket.handshake.auth?.token || socket.handshake.query?.token;
-      log.debug('Token recibido:', { token: token ? 'presente' : 'ausente' });
-      
-      // Obtener ID del proyecto
-      const projectId = socket.handshake.query?.projectId as string;
-      log.debug('ID de proyecto recibido:', { projectId });
-      
-      // Validar token y projectId
-      if (!token) {
-        log.warn('Conexión rechazada: Token no proporcionado');
-        return next(new Error('No se proporcionó token de autenticación'));
-      }
-      
-      if (!projectId) {
-        log.warn('Conexión rechazada: ID de proyecto no proporcionado');
-        return next(new Error('No se proporcionó ID de proyecto'));
-      }
-      
-      // Verificar token JWT
-      const secret = process.env.JWT_SECRET!;
-      const user = jwt.verify(token as string, secret) as UserPayload;
-      log.info('Usuario autenticado:', { userId: user.id, name: user.name });
-      
-      // Verificar acceso al proyecto
-      const project = await prisma.project.findUnique({
-        where: { id: projectId }
-      });
-      
-      if (!project) {
-        log.warn('Conexión rechazada: Proyecto no encontrado', { projectId });
-        return next(new Error('Proyecto no encontrado'));
-      }
-      
-      // Buscar permisos del usuario para este proyecto
-      const projectPermission = await prisma.projectPermission.findFirst({
-        where: {
-          projectId,
-          userId: user.id
-        }
-      });
-      
-      // Verificar permisos (propietario o colaborador)
-      const isOwner = project.ownerId === user.id;
-      const isCollaborator = !!projectPermission;
-      const hasLinkAccess = project.linkAccess !== 'none';
-      
-      if (!isOwner && !isCollaborator && !hasLinkAccess) {
-        log.warn('Conexión rechazada: Sin permisos para el proyecto', { 
-          userId: user.id, 
-          projectId,
-          isOwner,
-          isCollaborator,
-          linkAccess: project.linkAccess
-        });
-        return next(new Error('Sin permisos para acceder a este proyecto'));
-      }
-      
-      // Adjuntar datos de usuario y proyecto al socket
-      socket.user = user;
-      socket.projectId = projectId;
-      
-      log.info('Autenticación de socket exitosa', { 
-        userId: user.id, 
-        projectId, 
-        isOwner 
-      });
-      next();
-    } catch (error) {
-      log.error('Error en autenticación de socket:', error);
-      next(new Error('Error de autenticación'));
-    }
-  });
+  io.use(authenticateCollabSocket);
   
   // Manejo de conexiones
   io.on('connection', (socket: SocketWithUser) => {
@@ -180,6 +181,9 @@ export function setupCollabSocket(httpServer: HttpServer, app?: any): Server {
     // Evento: Actualización completa del editor
     socket.on('editor:full-update', (fullUpdateData) => { 
       // fullUpdateData debería ser { components: GrapesJSComponent[], styles: string }
+      if (!hasCapability(socket.role, 'write')) {
+        return socket.emit('error', { message: 'No tienes permisos de edición en este proyecto' });
+      }
       log.debug('Evento editor:full-update RECIBIDO', { 
         userId: user.id, 
         projectId,
@@ -198,6 +202,9 @@ export function setupCollabSocket(httpServer: HttpServer, app?: any): Server {
     
     // Manejar evento de cambio
     socket.on('editor:change', (changeData) => {
+      if (!hasCapability(socket.role, 'write')) {
+        return socket.emit('error', { message: 'No tienes permisos de edición en este proyecto' });
+      }
       log.debug('Evento editor:change recibido', { 
         userId: user.id, 
         projectId, 
@@ -213,6 +220,20 @@ export function setupCollabSocket(httpServer: HttpServer, app?: any): Server {
       });
     });
     
+    // Manejar anotaciones/comentarios (requiere rol commenter o superior)
+    socket.on('annotation:change', (annotation) => {
+      if (!hasCapability(socket.role, 'comment')) {
+        return socket.emit('error', { message: 'No tienes permisos para comentar en este proyecto' });
+      }
+      
+      socket.to(projectId).emit('annotation:change', {
+        userId: user.id,
+        userName: user.name,
+        annotation,
+        timestamp: Date.now()
+      });
+    });
+    
     // Manejar movimiento de cursor
     socket.on('cursor:move', (position) => {
       socket.to(projectId).emit('cursor:move', {
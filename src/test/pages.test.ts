@@ -1,7 +1,7 @@
 import request from 'supertest';
 import { app } from '../app';
 import { PrismaClient } from '@prisma/client';
-import jwt from 'jsonwebtoken';
+import { createSession } from '../modules/auth/session.service';
 
 const prisma = new PrismaClient();
 
@@ -25,11 +25,8 @@ beforeAll(async () => {
   
   testUserId = testUser.id;
   
-  // Crear token JWT
-  testToken = jwt.sign(
-    { id: testUser.id, email: testUser.email, name: testUser.name },
-    process.env.JWT_SECRET || 'test-secret'
-  );
+  // Crear sesión y access token
+  ({ token: testToken } = await createSession(testUser));
   
   // Crear proyecto de prueba
   const testProject = await prisma.project.create({
@@ -189,10 +186,7 @@ describe('API de Páginas', () => {
       }
     });
     
-    const otherToken = jwt.sign(
-      { id: otherUser.id, email: otherUser.email, name: otherUser.name },
-      process.env.JWT_SECRET || 'test-secret'
-    );
+    const { token: otherToken } = await createSession(otherUser);
     
     const response = await request(app)
       .get(`/api/pages?projectId=${testProjectId}`)
@@ -6,6 +6,10 @@ declare module 'express-serve-static-core' {
       id: string;
       email: string;
       name: string;
+      sessionId?: string;
+      twoFactor?: boolean;
+      scopes?: string[];
+      accessTokenId?: string;
     };
   }
 }
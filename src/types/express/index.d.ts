@@ -6,6 +6,10 @@ declare module 'express-serve-static-core' {
       id: string;
       email: string;
       name: string;
+      sessionId?: string; // Sesión que emitió el access token (ver session.service)
+      twoFactor?: boolean; // La sesión verificó el segundo factor (TOTP)
+      scopes?: string[]; // Scopes del token personal; undefined en sesiones interactivas
+      accessTokenId?: string; // Token personal usado en la petición
       // Agrega aquí otros campos de usuario si los necesitas
     };
   }
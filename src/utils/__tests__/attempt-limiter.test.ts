@@ -0,0 +1,64 @@
+import { PrismaClient } from '@prisma/client';
+import {
+  AttemptPolicy,
+  MemoryAttemptStore,
+  getRetryAfter,
+  registerFailure,
+  resetAttempts,
+  setAttemptStore,
+} from '../attempt-limiter';
+
+// Mock de Prisma Client (sólo se usa para la auditoría de bloqueos)
+const prisma = new PrismaClient();
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    auditLog: { create: jest.fn() },
+  };
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+const policy: AttemptPolicy = {
+  freeAttempts: 2, maxAttempts: 5, baseDelayMs: 1000, maxDelayMs: 60_000, lockoutMs: 15 * 60_000, windowMs: 15 * 60_000,
+};
+const now = new Date('2025-05-19T10:00:00Z');
+
+beforeEach(() => {
+  setAttemptStore(new MemoryAttemptStore());
+});
+
+afterEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('attempt-limiter', () => {
+  it('permite los intentos gratuitos y después aplica backoff exponencial', async () => {
+    await registerFailure('login:account:a', policy, {}, now);
+    await registerFailure('login:account:a', policy, {}, now);
+    expect(await getRetryAfter('login:account:a', now)).toBe(0);
+
+    await registerFailure('login:account:a', policy, {}, now);
+    expect(await getRetryAfter('login:account:a', now)).toBe(1);
+    await registerFailure('login:account:a', policy, {}, now);
+    expect(await getRetryAfter('login:account:a', now)).toBe(2);
+  });
+
+  it('bloquea la clave al llegar a maxAttempts y audita el bloqueo', async () => {
+    for (let i = 0; i < policy.maxAttempts; i++) {
+      await registerFailure('login:account:a', policy, { ip: '10.0.0.1', userId: 'user-id' }, now);
+    }
+    expect(await getRetryAfter('login:account:a', now)).toBe(15 * 60);
+    expect(prisma.auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ action: 'auth.lockout', userId: 'user-id', ip: '10.0.0.1' }),
+    });
+  });
+
+  it('reinicia el contador pasada la ventana o tras resetAttempts', async () => {
+    for (let i = 0; i < 4; i++) await registerFailure('login:account:a', policy, {}, now);
+    const later = new Date(now.getTime() + policy.windowMs + 1);
+    const record = await registerFailure('login:account:a', policy, {}, later);
+    expect(record.failures).toBe(1);
+
+    await resetAttempts('login:account:a');
+    expect(await getRetryAfter('login:account:a', later)).toBe(0);
+  });
+});
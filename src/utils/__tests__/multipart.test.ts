@@ -0,0 +1,35 @@
+import { multipartBoundary, parseMultipart } from '../multipart';
+
+const boundary = '----form123';
+const body = Buffer.concat([
+  Buffer.from(`--${boundary}\r\nContent-Disposition: form-data; name="folder"\r\n\r\nlogos\r\n`),
+  Buffer.from(`--${boundary}\r\nContent-Disposition: form-data; name="files"; filename="logo.png"\r\nContent-Type: image/PNG\r\n\r\n`),
+  Buffer.from([0x89, 0x50, 0x0d, 0x0a, 0x2d, 0x2d]),
+  Buffer.from(`\r\n--${boundary}\r\nContent-Disposition: form-data; name="files"; filename*=UTF-8''ma%C3%B1ana.pdf\r\n\r\n%PDF\r\n`),
+  Buffer.from(`--${boundary}--\r\n`),
+]);
+
+describe('multipartBoundary', () => {
+  it('lee el boundary con o sin comillas y rechaza otros tipos', () => {
+    expect(multipartBoundary(`multipart/form-data; boundary=${boundary}`)).toBe(boundary);
+    expect(multipartBoundary('multipart/form-data; charset=utf-8; boundary="a b"')).toBe('a b');
+    expect(multipartBoundary('application/json')).toBeNull();
+  });
+});
+
+describe('parseMultipart', () => {
+  it('separa campos y archivos conservando los bytes binarios', () => {
+    const parsed = parseMultipart(body, boundary);
+
+    expect(parsed?.fields).toEqual({ folder: 'logos' });
+    expect(parsed?.files).toEqual([
+      { fieldName: 'files', filename: 'logo.png', contentType: 'image/png', data: Buffer.from([0x89, 0x50, 0x0d, 0x0a, 0x2d, 0x2d]) },
+      { fieldName: 'files', filename: 'mañana.pdf', contentType: 'application/octet-stream', data: Buffer.from('%PDF') },
+    ]);
+  });
+
+  it('devuelve null si el cuerpo está truncado', () => {
+    expect(parseMultipart(body.subarray(0, 120), boundary)).toBeNull();
+    expect(parseMultipart(Buffer.from('sin boundary'), boundary)).toBeNull();
+  });
+});
@@ -0,0 +1,135 @@
+import { PrismaClient } from '@prisma/client';
+import { resolveProjectRole, hasCapability, hasWorkspaceRole, checkProjectPermission } from '../permission';
+
+// Mock de Prisma Client
+const prisma = new PrismaClient();
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    project: {
+      findUnique: jest.fn(),
+    },
+  };
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+const baseProject = {
+  ownerId: 'owner-id',
+  linkAccess: 'none',
+  linkToken: null as string | null,
+  permissions: [
+    { userId: 'viewer-id', role: 'viewer' as const },
+    { userId: 'commenter-id', role: 'commenter' as const },
+    { userId: 'editor-id', role: 'editor' as const },
+    { userId: 'admin-id', role: 'admin' as const },
+  ],
+};
+
+describe('resolveProjectRole', () => {
+  it('devuelve owner para el propietario', () => {
+    expect(resolveProjectRole(baseProject, 'owner-id')).toBe('owner');
+  });
+
+  it('devuelve el rol del ProjectPermission para miembros', () => {
+    expect(resolveProjectRole(baseProject, 'viewer-id')).toBe('viewer');
+    expect(resolveProjectRole(baseProject, 'editor-id')).toBe('editor');
+    expect(resolveProjectRole(baseProject, 'admin-id')).toBe('admin');
+  });
+
+  it('devuelve null para usuarios sin permisos', () => {
+    expect(resolveProjectRole(baseProject, 'stranger-id')).toBeNull();
+  });
+
+  it('concede el rol del enlace sólo con el token correcto', () => {
+    const project = { ...baseProject, linkAccess: 'write', linkToken: 'link-token' };
+    expect(resolveProjectRole(project, 'stranger-id', { linkToken: 'link-token' })).toBe('editor');
+    expect(resolveProjectRole(project, 'stranger-id', { linkToken: 'otro' })).toBeNull();
+    expect(resolveProjectRole(project, 'stranger-id')).toBeNull();
+    // El enlace nunca reduce el rol de un miembro
+    const readLink = { ...project, linkAccess: 'read' };
+    expect(resolveProjectRole(readLink, 'editor-id', { linkToken: 'link-token' })).toBe('editor');
+  });
+
+  it('ignora el token si el acceso por enlace está deshabilitado', () => {
+    const project = { ...baseProject, linkAccess: 'none', linkToken: 'link-token' };
+    expect(resolveProjectRole(project, 'stranger-id', { linkToken: 'link-token' })).toBeNull();
+  });
+
+  it('aplica el rol heredado del workspace', () => {
+    const project = {
+      ...baseProject,
+      workspace: {
+        defaultProjectRole: 'commenter' as const,
+        members: [
+          { userId: 'member-id', role: 'member' as const },
+          { userId: 'ws-admin-id', role: 'admin' as const },
+          { userId: 'viewer-id', role: 'member' as const },
+        ],
+      },
+    };
+    expect(resolveProjectRole(project, 'member-id')).toBe('commenter');
+    expect(resolveProjectRole(project, 'ws-admin-id')).toBe('admin');
+    // Se queda con el mayor entre el permiso directo y el heredado
+    expect(resolveProjectRole(project, 'viewer-id')).toBe('commenter');
+    expect(resolveProjectRole(project, 'editor-id')).toBe('editor');
+    // Sin membresía no hay acceso heredado
+    expect(resolveProjectRole({ ...project, workspace: { ...project.workspace, members: [] } }, 'member-id')).toBeNull();
+  });
+
+  it('niega el acceso a sesiones sin 2FA si el proyecto lo exige', () => {
+    const project = { ...baseProject, requireTwoFactor: true };
+    expect(resolveProjectRole(project, 'owner-id')).toBeNull();
+    expect(resolveProjectRole(project, 'editor-id', { twoFactor: false })).toBeNull();
+    expect(resolveProjectRole(project, 'editor-id', { twoFactor: true })).toBe('editor');
+  });
+});
+
+describe('hasCapability', () => {
+  it('aplica la matriz de capacidades por rol', () => {
+    expect(hasCapability('viewer', 'read')).toBe(true);
+    expect(hasCapability('viewer', 'comment')).toBe(false);
+    expect(hasCapability('commenter', 'comment')).toBe(true);
+    expect(hasCapability('commenter', 'write')).toBe(false);
+    expect(hasCapability('editor', 'write')).toBe(true);
+    expect(hasCapability('editor', 'manageMembers')).toBe(false);
+    expect(hasCapability('admin', 'manageMembers')).toBe(true);
+    expect(hasCapability('admin', 'manageLink')).toBe(true);
+    expect(hasCapability('admin', 'delete')).toBe(false);
+    expect(hasCapability('owner', 'delete')).toBe(true);
+    expect(hasCapability(null, 'read')).toBe(false);
+  });
+});
+
+describe('hasWorkspaceRole', () => {
+  it('ordena los roles de workspace', () => {
+    expect(hasWorkspaceRole('member', 'member')).toBe(true);
+    expect(hasWorkspaceRole('member', 'admin')).toBe(false);
+    expect(hasWorkspaceRole('owner', 'admin')).toBe(true);
+    expect(hasWorkspaceRole(null, 'member')).toBe(false);
+  });
+});
+
+describe('checkProjectPermission', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('devuelve false si el proyecto no existe', async () => {
+    (prisma.project.findUnique as jest.Mock).mockResolvedValue(null);
+    await expect(checkProjectPermission('owner-id', 'missing', 'read')).resolves.toBe(false);
+  });
+
+  it('niega el acceso a proyectos en la papelera, también al owner', async () => {
+    (prisma.project.findUnique as jest.Mock).mockResolvedValue({ ...baseProject, deletedAt: new Date() });
+    await expect(checkProjectPermission('owner-id', 'project-id', 'read')).resolves.toBe(false);
+  });
+
+  it('consulta el proyecto con sus permisos y evalúa el nivel requerido', async () => {
+    (prisma.project.findUnique as jest.Mock).mockResolvedValue(baseProject);
+    await expect(checkProjectPermission('viewer-id', 'project-id', 'read')).resolves.toBe(true);
+    await expect(checkProjectPermission('viewer-id', 'project-id', 'write')).resolves.toBe(false);
+    expect(prisma.project.findUnique).toHaveBeenCalledWith({
+      where: { id: 'project-id' },
+      include: { permissions: true },
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import { diffHunks, diffLines } from '../text-diff';
+
+describe('diffLines', () => {
+  it('encuentra la edición mínima entre dos secuencias', () => {
+    const ops = diffLines(['a', 'b', 'c', 'a', 'b', 'b', 'a'], ['c', 'b', 'a', 'b', 'a', 'c']);
+
+    expect(ops.filter(op => op.type !== 'equal')).toHaveLength(5);
+    expect(ops.filter(op => op.type !== 'insert').map(op => op.line)).toEqual(['a', 'b', 'c', 'a', 'b', 'b', 'a']);
+    expect(ops.filter(op => op.type !== 'delete').map(op => op.line)).toEqual(['c', 'b', 'a', 'b', 'a', 'c']);
+  });
+
+  it('maneja secuencias vacías e idénticas', () => {
+    expect(diffLines([], ['x'])).toEqual([{ type: 'insert', line: 'x' }]);
+    expect(diffLines(['x'], [])).toEqual([{ type: 'delete', line: 'x' }]);
+    expect(diffLines(['x', 'y'], ['x', 'y']).every(op => op.type === 'equal')).toBe(true);
+  });
+});
+
+describe('diffHunks', () => {
+  it('agrupa los cambios con contexto y numeración de diff -u', () => {
+    const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const after = [...before];
+    after[1] = 'changed 2';
+    after.splice(17, 1);
+
+    const hunks = diffHunks(diffLines(before, after), 2);
+
+    expect(hunks).toHaveLength(2);
+    expect(hunks[0]).toMatchObject({ oldStart: 1, oldLines: 4, newStart: 1, newLines: 4 });
+    expect(hunks[0].lines).toEqual([
+      { type: 'context', text: 'line 1' },
+      { type: 'removed', text: 'line 2' },
+      { type: 'added', text: 'changed 2' },
+      { type: 'context', text: 'line 3' },
+      { type: 'context', text: 'line 4' },
+    ]);
+    expect(hunks[1]).toMatchObject({ oldStart: 16, oldLines: 5, newStart: 16, newLines: 4 });
+  });
+});
@@ -0,0 +1,31 @@
+import { base32Decode, base32Encode, buildOtpauthUri, generateTotpCode, verifyTotpCode } from '../totp';
+
+// Secreto de los vectores de prueba del RFC 6238 ("12345678901234567890")
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('totp', () => {
+  it('codifica y decodifica base32 sin pérdidas', () => {
+    const buffer = Buffer.from('hola mundo');
+    expect(base32Decode(base32Encode(buffer))).toEqual(buffer);
+  });
+
+  it('genera los códigos de los vectores del RFC 6238', () => {
+    expect(generateTotpCode(RFC_SECRET, Math.floor(59 / 30))).toBe('287082');
+    expect(generateTotpCode(RFC_SECRET, Math.floor(1111111109 / 30))).toBe('081804');
+  });
+
+  it('acepta el desfase de un paso y devuelve el paso que coincidió', () => {
+    const now = 1111111109 * 1000;
+    const step = Math.floor(1111111109 / 30);
+    expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step), 1, now)).toBe(step);
+    expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step - 1), 1, now)).toBe(step - 1);
+    expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step - 3), 1, now)).toBeNull();
+    expect(verifyTotpCode(RFC_SECRET, 'abcdef', 1, now)).toBeNull();
+  });
+
+  it('construye la URI otpauth:// para las apps autenticadoras', () => {
+    const uri = buildOtpauthUri('SECRET', 'user@example.com', 'Backend EXA');
+    expect(uri.startsWith('otpauth://totp/Backend%20EXA%3Auser%40example.com?')).toBe(true);
+    expect(uri).toContain('secret=SECRET');
+  });
+});
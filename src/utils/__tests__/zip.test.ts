@@ -0,0 +1,37 @@
+import zlib from 'zlib';
+import { crc32, createZip } from '../zip';
+
+// Lee las entradas de un ZIP recorriendo las cabeceras locales (suficiente para los ZIP que genera createZip)
+function readZip(zip: Buffer): Record<string, string> {
+  const files: Record<string, string> = {};
+  let offset = 0;
+  while (zip.readUInt32LE(offset) === 0x04034b50) {
+    const method = zip.readUInt16LE(offset + 8);
+    const compressedSize = zip.readUInt32LE(offset + 18);
+    const nameLength = zip.readUInt16LE(offset + 26);
+    const name = zip.subarray(offset + 30, offset + 30 + nameLength).toString('utf8');
+    const body = zip.subarray(offset + 30 + nameLength, offset + 30 + nameLength + compressedSize);
+    files[name] = (method === 8 ? zlib.inflateRawSync(body) : body).toString('utf8');
+    offset += 30 + nameLength + compressedSize;
+  }
+  return files;
+}
+
+describe('crc32', () => {
+  it('calcula el CRC-32 estándar', () => {
+    expect(crc32(Buffer.from('hello'))).toBe(0x3610a686);
+  });
+});
+
+describe('createZip', () => {
+  it('genera entradas legibles y el directorio central', () => {
+    const zip = createZip([
+      { name: 'index.html', data: '<p>hola</p>'.repeat(50) },
+      { name: 'assets/a.txt', data: 'x' },
+    ]);
+    expect(readZip(zip)).toEqual({ 'index.html': '<p>hola</p>'.repeat(50), 'assets/a.txt': 'x' });
+    const end = zip.subarray(zip.length - 22);
+    expect(end.readUInt32LE(0)).toBe(0x06054b50);
+    expect(end.readUInt16LE(10)).toBe(2);
+  });
+});
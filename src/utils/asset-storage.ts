@@ -0,0 +1,59 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+// Almacenamiento binario de assets: cualquier backend (S3, GCS, etc.) puede enchufarse con setAssetStorage
+export interface AssetStorage {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  // Contenido del objeto o null si no existe
+  get(key: string): Promise<Buffer | null>;
+  // Borra el objeto; no falla si ya no existe
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Backend por defecto: un archivo por objeto dentro de un directorio local (ASSET_STORAGE_DIR, por defecto `uploads/`)
+ */
+export class LocalAssetStorage implements AssetStorage {
+  constructor(private readonly dir = process.env.ASSET_STORAGE_DIR || path.join(process.cwd(), 'uploads')) {}
+
+  // Las claves las genera la API, pero se valida igualmente que no salgan del directorio
+  private resolve(key: string): string {
+    const file = path.resolve(this.dir, key);
+    if (!file.startsWith(path.resolve(this.dir) + path.sep)) throw new Error(`Invalid storage key: ${key}`);
+    return file;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.resolve(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    // Escritura atómica: un lector nunca ve un archivo a medias
+    const temp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(temp, data);
+    await fs.rename(temp, file);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+// Se crea al primer uso para respetar las variables cargadas por dotenv
+let storage: AssetStorage | null = null;
+
+export function setAssetStorage(next: AssetStorage) {
+  storage = next;
+}
+
+export function getAssetStorage(): AssetStorage {
+  if (!storage) storage = new LocalAssetStorage();
+  return storage;
+}
@@ -0,0 +1,150 @@
+import type { Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { recordAudit } from './audit';
+
+const prisma = new PrismaClient();
+
+export interface AttemptRecord {
+  failures: number;
+  windowStartedAt: Date;
+  blockedUntil: Date | null;
+  lockedUntil: Date | null;
+}
+
+// Almacén de intentos: en memoria (una instancia) o Postgres (varias instancias); se enchufa con setAttemptStore
+export interface AttemptStore {
+  get(key: string): Promise<AttemptRecord | null>;
+  save(key: string, record: AttemptRecord): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export class MemoryAttemptStore implements AttemptStore {
+  private readonly records = new Map<string, AttemptRecord>();
+
+  constructor(private readonly maxEntries = 10_000) {}
+
+  async get(key: string): Promise<AttemptRecord | null> {
+    return this.records.get(key) ?? null;
+  }
+
+  async save(key: string, record: AttemptRecord): Promise<void> {
+    if (this.records.size >= this.maxEntries) this.prune();
+    this.records.set(key, record);
+  }
+
+  // Descarta claves sin bloqueo vigente para que el mapa no crezca sin límite
+  private prune() {
+    const now = Date.now();
+    for (const [key, record] of this.records) {
+      const until = Math.max(record.blockedUntil?.getTime() ?? 0, record.lockedUntil?.getTime() ?? 0);
+      if (until <= now) this.records.delete(key);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+}
+
+export class PrismaAttemptStore implements AttemptStore {
+  async get(key: string): Promise<AttemptRecord | null> {
+    return prisma.authAttempt.findUnique({
+      where: { key },
+      select: { failures: true, windowStartedAt: true, blockedUntil: true, lockedUntil: true },
+    });
+  }
+
+  async save(key: string, record: AttemptRecord): Promise<void> {
+    await prisma.authAttempt.upsert({ where: { key }, create: { key, ...record }, update: record });
+  }
+
+  async delete(key: string): Promise<void> {
+    await prisma.authAttempt.deleteMany({ where: { key } });
+  }
+}
+
+export interface AttemptPolicy {
+  freeAttempts: number; // fallos permitidos antes de aplicar backoff
+  maxAttempts: number;  // fallos que provocan el bloqueo temporal
+  baseDelayMs: number;  // primer backoff; se duplica con cada fallo adicional
+  maxDelayMs: number;
+  lockoutMs: number;
+  windowMs: number;     // pasado este tiempo sin bloqueo, el contador vuelve a cero
+}
+
+// AUTH_ATTEMPT_STORE=memory (por defecto) | postgres
+function createDefaultStore(): AttemptStore {
+  return process.env.AUTH_ATTEMPT_STORE === 'postgres' ? new PrismaAttemptStore() : new MemoryAttemptStore();
+}
+
+// Se crea al primer uso para respetar las variables cargadas por dotenv
+let store: AttemptStore | null = null;
+
+export function setAttemptStore(next: AttemptStore) {
+  store = next;
+}
+
+export function getAttemptStore(): AttemptStore {
+  if (!store) store = createDefaultStore();
+  return store;
+}
+
+/**
+ * Segundos que faltan para poder intentarlo de nuevo con esta clave (0 si está permitido)
+ */
+export async function getRetryAfter(key: string, now = new Date()): Promise<number> {
+  const record = await getAttemptStore().get(key);
+  if (!record) return 0;
+  const until = Math.max(record.blockedUntil?.getTime() ?? 0, record.lockedUntil?.getTime() ?? 0);
+  return until > now.getTime() ? Math.ceil((until - now.getTime()) / 1000) : 0;
+}
+
+/**
+ * Registra un fallo y aplica backoff exponencial; al alcanzar maxAttempts bloquea la clave y lo audita.
+ */
+export async function registerFailure(
+  key: string,
+  policy: AttemptPolicy,
+  context: { ip?: string; userId?: string } = {},
+  now = new Date()
+): Promise<AttemptRecord> {
+  const attempts = getAttemptStore();
+  const previous = await attempts.get(key);
+  const expired = !previous
+    || (now.getTime() - previous.windowStartedAt.getTime() > policy.windowMs
+      && (!previous.lockedUntil || previous.lockedUntil <= now));
+  const record: AttemptRecord = expired
+    ? { failures: 0, windowStartedAt: now, blockedUntil: null, lockedUntil: null }
+    : { ...previous! };
+
+  record.failures += 1;
+  if (record.failures >= policy.maxAttempts) {
+    record.lockedUntil = new Date(now.getTime() + policy.lockoutMs);
+    record.blockedUntil = null;
+    record.failures = 0;
+    record.windowStartedAt = now;
+    await recordAudit({
+      action: 'auth.lockout',
+      userId: context.userId,
+      ip: context.ip,
+      metadata: { key, lockedUntil: record.lockedUntil.toISOString() },
+    });
+  } else if (record.failures > policy.freeAttempts) {
+    const delay = Math.min(policy.baseDelayMs * 2 ** (record.failures - policy.freeAttempts - 1), policy.maxDelayMs);
+    record.blockedUntil = new Date(now.getTime() + delay);
+  }
+  await attempts.save(key, record);
+  return record;
+}
+
+export async function resetAttempts(key: string): Promise<void> {
+  await getAttemptStore().delete(key);
+}
+
+/**
+ * Responde 429 con Retry-After (segundos)
+ */
+export function sendTooManyAttempts(res: Response, retryAfter: number) {
+  res.set('Retry-After', String(retryAfter));
+  return res.status(429).json({ error: 'Too many attempts, try again later', retryAfter });
+}
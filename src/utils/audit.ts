@@ -0,0 +1,23 @@
+import { PrismaClient } from '@prisma/client';
+import type { Prisma } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export interface AuditEntry {
+  action: string; // p. ej. 'auth.lockout', 'project.transfer'
+  userId?: string | null;
+  projectId?: string | null;
+  ip?: string | null;
+  metadata?: Prisma.InputJsonValue;
+}
+
+/**
+ * Guarda una entrada de auditoría. Un fallo al auditar se registra en el log pero nunca interrumpe la operación.
+ */
+export async function recordAudit(entry: AuditEntry): Promise<void> {
+  try {
+    await prisma.auditLog.create({ data: entry });
+  } catch (error) {
+    console.error(`[Audit] Error recording ${entry.action}:`, error);
+  }
+}
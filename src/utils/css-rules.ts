@@ -0,0 +1,120 @@
+// Lectura de CSS a nivel de regla, suficiente para comparar hojas de estilo (no valida la sintaxis)
+
+export interface CssRule {
+  context: string | null; // at-rules que la contienen, p. ej. '@media (max-width: 768px)'
+  selector: string; // selector normalizado, el preludio de la at-rule (@font-face) o la sentencia (@import ...)
+  declarations: Record<string, string>;
+}
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Recorre el texto (ya sin comentarios) fuera de strings y paréntesis: url(data:...;base64,...) contiene ';'
+function scan(text: string, visit: (char: string, index: number) => void): void {
+  let quote: string | null = null;
+  let parens = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+      continue;
+    }
+    if (char === '"' || char === "'") quote = char;
+    else if (char === '(') parens++;
+    else if (char === ')') parens = Math.max(0, parens - 1);
+    else if (parens === 0) visit(char, i);
+  }
+}
+
+// Quita los comentarios respetando los strings
+const stripComments = (text: string) => {
+  let result = '';
+  let last = 0;
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") quote = char;
+    else if (char === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      result += text.slice(last, i);
+      i = end === -1 ? text.length : end + 1;
+      last = i + 1;
+    }
+  }
+  return result + text.slice(last);
+};
+
+function parseDeclarations(body: string): Record<string, string> {
+  const declarations: Record<string, string> = {};
+  const parts: string[] = [];
+  let start = 0;
+  scan(body, (char, index) => {
+    if (char !== ';') return;
+    parts.push(body.slice(start, index));
+    start = index + 1;
+  });
+  parts.push(body.slice(start));
+  for (const part of parts) {
+    const colon = part.indexOf(':');
+    if (colon === -1) continue;
+    const property = part.slice(0, colon).trim().toLowerCase();
+    const value = collapse(part.slice(colon + 1));
+    if (property && value) declarations[property] = value;
+  }
+  return declarations;
+}
+
+const normalizeSelector = (selector: string) =>
+  selector.startsWith('@') ? collapse(selector) : selector.split(',').map(collapse).filter(Boolean).join(', ');
+
+function parseBlock(text: string, context: string | null, rules: CssRule[]): void {
+  let start = 0;
+  let depth = 0;
+  let open = -1;
+  scan(text, (char, index) => {
+    if (char === '{') {
+      if (depth === 0) open = index;
+      depth++;
+    } else if (char === '}' && depth > 0) {
+      depth--;
+      if (depth > 0) return;
+      const prelude = collapse(text.slice(start, open));
+      const body = text.slice(open + 1, index);
+      start = index + 1;
+      if (!prelude) return;
+      // Bloques con reglas dentro (@media, @supports, @keyframes, ...) se recorren con su preludio como contexto
+      if (prelude.startsWith('@') && body.includes('{')) {
+        parseBlock(body, context ? `${context} ${prelude}` : prelude, rules);
+      } else {
+        rules.push({ context, selector: normalizeSelector(prelude), declarations: parseDeclarations(body) });
+      }
+    } else if (char === ';' && depth === 0) {
+      // Sentencias sin bloque: @import, @charset, @layer a, b;
+      const statement = collapse(text.slice(start, index));
+      start = index + 1;
+      if (statement) rules.push({ context, selector: statement, declarations: {} });
+    }
+  });
+}
+
+/**
+ * Reglas de una hoja de estilo en orden de aparición. Una misma regla (contexto + selector) repetida se fusiona:
+ * cada propiedad conserva el último valor, como al aplicarse en el navegador.
+ */
+export function parseCssRules(css: string): CssRule[] {
+  const rules: CssRule[] = [];
+  parseBlock(stripComments(css), null, rules);
+  const merged = new Map<string, CssRule>();
+  for (const rule of rules) {
+    const key = cssRuleKey(rule);
+    const existing = merged.get(key);
+    if (existing) Object.assign(existing.declarations, rule.declarations);
+    else merged.set(key, { ...rule, declarations: { ...rule.declarations } });
+  }
+  return [...merged.values()];
+}
+
+export const cssRuleKey = (rule: Pick<CssRule, 'context' | 'selector'>) => `${rule.context ?? ''}\u0000${rule.selector}`;
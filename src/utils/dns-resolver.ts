@@ -0,0 +1,32 @@
+import { promises as dns } from 'dns';
+
+// Resolución de registros TXT; se enchufa con setTxtResolver (p. ej. un stub en tests)
+export interface TxtResolver {
+  // Devuelve los registros TXT del nombre (los fragmentos de cada registro ya concatenados); [] si no hay
+  resolveTxt(hostname: string): Promise<string[]>;
+}
+
+const MISSING_RECORD_CODES = new Set(['ENOTFOUND', 'ENODATA', 'ESERVFAIL', 'NXDOMAIN']);
+
+export class SystemTxtResolver implements TxtResolver {
+  async resolveTxt(hostname: string): Promise<string[]> {
+    try {
+      const records = await dns.resolveTxt(hostname);
+      return records.map(chunks => chunks.join(''));
+    } catch (error) {
+      if (MISSING_RECORD_CODES.has((error as NodeJS.ErrnoException).code ?? '')) return [];
+      throw error;
+    }
+  }
+}
+
+let resolver: TxtResolver | null = null;
+
+export function setTxtResolver(next: TxtResolver) {
+  resolver = next;
+}
+
+export function getTxtResolver(): TxtResolver {
+  if (!resolver) resolver = new SystemTxtResolver();
+  return resolver;
+}
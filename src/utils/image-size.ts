@@ -0,0 +1,76 @@
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+function pngSize(data: Buffer): ImageSize | null {
+  if (data.length < 24 || data.readUInt32BE(0) !== 0x89504e47 || data.toString('ascii', 12, 16) !== 'IHDR') return null;
+  return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+}
+
+function gifSize(data: Buffer): ImageSize | null {
+  if (data.length < 10 || !/^GIF8[79]a$/.test(data.toString('ascii', 0, 6))) return null;
+  return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+}
+
+// JPEG: se recorren los segmentos hasta el primer SOF (Start Of Frame)
+function jpegSize(data: Buffer): ImageSize | null {
+  if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) return null;
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) return null;
+    const marker = data[offset + 1];
+    if (marker === 0xff) {
+      offset += 1;
+      continue;
+    }
+    const length = data.readUInt16BE(offset + 2);
+    const isFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isFrame) return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+    offset += 2 + length;
+  }
+  return null;
+}
+
+// WebP: variantes con pérdida (VP8), sin pérdida (VP8L) y extendida (VP8X)
+function webpSize(data: Buffer): ImageSize | null {
+  if (data.length < 30 || data.toString('ascii', 0, 4) !== 'RIFF' || data.toString('ascii', 8, 12) !== 'WEBP') return null;
+  const chunk = data.toString('ascii', 12, 16);
+  if (chunk === 'VP8 ') return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+  if (chunk === 'VP8L') {
+    const bits = data.readUInt32LE(21);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  if (chunk === 'VP8X') return { width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+  return null;
+}
+
+// SVG: atributos width/height en píxeles o, si faltan, el viewBox
+function svgSize(data: Buffer): ImageSize | null {
+  const root = /<svg\b[^>]*>/i.exec(data.toString('utf8', 0, Math.min(data.length, 4096)));
+  if (!root) return null;
+  const attribute = (name: string) => new RegExp(`\\s${name}\\s*=\\s*["']([^"']+)["']`, 'i').exec(root[0])?.[1];
+  const pixels = (value?: string) => (value && /^\d+(\.\d+)?(px)?$/.test(value.trim()) ? Math.round(parseFloat(value)) : null);
+  const width = pixels(attribute('width'));
+  const height = pixels(attribute('height'));
+  if (width && height) return { width, height };
+  const viewBox = attribute('viewBox')?.trim().split(/[\s,]+/).map(Number);
+  if (viewBox?.length === 4 && viewBox.every(Number.isFinite)) return { width: Math.round(viewBox[2]), height: Math.round(viewBox[3]) };
+  return null;
+}
+
+const READERS: Record<string, (data: Buffer) => ImageSize | null> = {
+  'image/png': pngSize,
+  'image/gif': gifSize,
+  'image/jpeg': jpegSize,
+  'image/webp': webpSize,
+  'image/svg+xml': svgSize,
+};
+
+/**
+ * Dimensiones de una imagen leyendo sólo su cabecera. null si el formato no está soportado o los datos no corresponden al tipo.
+ */
+export function imageSize(data: Buffer, mimeType: string): ImageSize | null {
+  const reader = READERS[mimeType];
+  return reader ? reader(data) : null;
+}
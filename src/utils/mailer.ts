@@ -0,0 +1,60 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Transporte de correo: cualquier implementación (SMTP, API externa, etc.) puede enchufarse con setMailTransport
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Transporte por defecto: escribe cada mensaje como JSON en un directorio local (outbox).
+ * Permite desarrollar y testear sin servidor de correo.
+ */
+export class OutboxTransport implements MailTransport {
+  constructor(private readonly dir = process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), 'outbox')) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const file = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.json`;
+    const payload = { ...message, from: process.env.MAIL_FROM || 'no-reply@localhost', sentAt: new Date().toISOString() };
+    await fs.writeFile(path.join(this.dir, file), JSON.stringify(payload, null, 2));
+  }
+}
+
+/**
+ * Transporte de consola: imprime el mensaje en el log (útil en desarrollo local)
+ */
+export class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[Mailer] To: ${message.to}\n[Mailer] Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+// MAIL_TRANSPORT=console | outbox (por defecto)
+function createDefaultTransport(): MailTransport {
+  return process.env.MAIL_TRANSPORT === 'console' ? new ConsoleTransport() : new OutboxTransport();
+}
+
+// Se crea al primer uso para respetar las variables cargadas por dotenv
+let transport: MailTransport | null = null;
+
+export function setMailTransport(next: MailTransport) {
+  transport = next;
+}
+
+export function getMailTransport(): MailTransport {
+  if (!transport) transport = createDefaultTransport();
+  return transport;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send(message);
+}
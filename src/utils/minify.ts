@@ -0,0 +1,46 @@
+// Minificación conservadora para la exportación estática: sólo elimina comentarios y espacios sobrantes
+
+/**
+ * Quita comentarios y espacios innecesarios del CSS. Los strings entre comillas se respetan.
+ */
+export function minifyCss(css: string): string {
+  return css
+    .split(/("(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*')/)
+    .map((chunk, index) => {
+      if (index % 2 === 1) return chunk; // string literal
+      return chunk
+        .replace(/\/\*[\s\S]*?\*\//g, '')
+        .replace(/\s+/g, ' ')
+        .replace(/\s*([{}:;,>])\s*/g, '$1')
+        .replace(/;}/g, '}');
+    })
+    .join('')
+    .trim();
+}
+
+// Bloques cuyo contenido no se toca (los espacios son significativos o no es HTML)
+const PRESERVED_BLOCK = /(<(pre|textarea|script|style)\b[\s\S]*?<\/\2>)/gi;
+
+/**
+ * Quita comentarios HTML (excepto los condicionales) y reduce cada secuencia de espacios a uno solo,
+ * para no alterar el espaciado entre elementos inline.
+ * El contenido de <pre>, <textarea>, <script> y <style> se deja intacto.
+ */
+export function minifyHtml(html: string): string {
+  const parts = html.split(PRESERVED_BLOCK);
+  const result: string[] = [];
+  for (let i = 0; i < parts.length; i++) {
+    // split con dos grupos de captura: [texto, bloque, nombre de etiqueta, texto, ...]
+    if (i % 3 === 1) {
+      result.push(parts[i]);
+      continue;
+    }
+    if (i % 3 === 2) continue;
+    result.push(
+      parts[i]
+        .replace(/<!--(?!\[if)[\s\S]*?-->/g, '')
+        .replace(/\s+/g, ' ')
+    );
+  }
+  return result.join('').trim();
+}
@@ -0,0 +1,80 @@
+export interface MultipartFile {
+  fieldName: string;
+  filename: string;
+  contentType: string;
+  data: Buffer;
+}
+
+export interface MultipartBody {
+  fields: Record<string, string>;
+  files: MultipartFile[];
+}
+
+const CRLF = Buffer.from('\r\n');
+const HEADER_END = Buffer.from('\r\n\r\n');
+
+// Boundary del header Content-Type de un multipart/form-data; null si no es multipart
+export function multipartBoundary(contentType: string | undefined): string | null {
+  const match = /^multipart\/form-data\s*;(?:.*;)?\s*boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType ?? '');
+  return match ? match[1] ?? match[2] : null;
+}
+
+// Parámetro de Content-Disposition (name, filename); filename* (RFC 5987) tiene prioridad sobre filename
+function dispositionParam(disposition: string, param: string): string | undefined {
+  const extended = new RegExp(`;\\s*${param}\\*=(?:UTF-8|utf-8)''([^;]+)`).exec(disposition);
+  if (extended) {
+    try {
+      return decodeURIComponent(extended[1].trim());
+    } catch {
+      // se usa el parámetro simple
+    }
+  }
+  const simple = new RegExp(`;\\s*${param}="((?:[^"\\\\]|\\\\.)*)"`).exec(disposition) ?? new RegExp(`;\\s*${param}=([^;]+)`).exec(disposition);
+  return simple ? simple[1].replace(/\\(.)/g, '$1').trim() : undefined;
+}
+
+/**
+ * Parsea un cuerpo multipart/form-data ya cargado en memoria (el tamaño lo limita quien lee el cuerpo).
+ * Devuelve null si el cuerpo está mal formado.
+ */
+export function parseMultipart(body: Buffer, boundary: string): MultipartBody | null {
+  const delimiter = Buffer.from(`--${boundary}`);
+  const partDelimiter = Buffer.concat([CRLF, delimiter]);
+  const result: MultipartBody = { fields: {}, files: [] };
+
+  let position = body.indexOf(delimiter);
+  if (position < 0) return null;
+  position += delimiter.length;
+  for (;;) {
+    // '--' tras el delimitador marca el final del cuerpo
+    if (body[position] === 0x2d && body[position + 1] === 0x2d) return result;
+    if (!body.subarray(position, position + 2).equals(CRLF)) return null;
+    const headerEnd = body.indexOf(HEADER_END, position);
+    if (headerEnd < 0) return null;
+    const end = body.indexOf(partDelimiter, headerEnd + HEADER_END.length);
+    if (end < 0) return null;
+
+    const headers = new Map<string, string>();
+    for (const line of body.subarray(position + CRLF.length, headerEnd).toString('utf8').split('\r\n')) {
+      const colon = line.indexOf(':');
+      if (colon > 0) headers.set(line.slice(0, colon).trim().toLowerCase(), line.slice(colon + 1).trim());
+    }
+    const disposition = headers.get('content-disposition') ?? '';
+    const fieldName = dispositionParam(disposition, 'name');
+    if (!/^form-data\b/i.test(disposition) || fieldName === undefined) return null;
+
+    const data = body.subarray(headerEnd + HEADER_END.length, end);
+    const filename = dispositionParam(disposition, 'filename');
+    if (filename !== undefined) {
+      result.files.push({
+        fieldName,
+        filename,
+        contentType: (headers.get('content-type') ?? 'application/octet-stream').split(';')[0].trim().toLowerCase(),
+        data: Buffer.from(data),
+      });
+    } else {
+      result.fields[fieldName] = data.toString('utf8');
+    }
+    position = end + partDelimiter.length;
+  }
+}
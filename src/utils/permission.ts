@@ -0,0 +1,186 @@
+import { PrismaClient } from '@prisma/client';
+import type { ProjectRole, WorkspaceRole } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Roles asignables a miembros (ProjectPermission.role), de menor a mayor
+export const PROJECT_ROLES = ['viewer', 'commenter', 'editor', 'admin'] as const satisfies readonly ProjectRole[];
+
+// Roles dentro de un workspace, de menor a mayor
+export const WORKSPACE_ROLES = ['member', 'admin', 'owner'] as const satisfies readonly WorkspaceRole[];
+
+// El owner es implícito (Project.ownerId) y no se guarda como ProjectPermission
+export type ProjectRoleName = ProjectRole | 'owner';
+
+// Acciones que se pueden realizar sobre un proyecto
+export type ProjectCapability =
+  | 'read'          // ver proyecto, páginas y versiones
+  | 'comment'       // anotar/comentar sin editar
+  | 'write'         // editar diseño, páginas, versiones y bloqueo
+  | 'manageMembers' // invitar, cambiar rol y quitar miembros
+  | 'manageLink'    // cambiar el acceso por enlace
+  | 'publish'       // publicar el sitio, cambiar su slug y hacer rollback
+  | 'archive'       // archivar/desarchivar
+  | 'manageSecurity' // exigir 2FA a los miembros
+  | 'transfer'      // transferir la propiedad o moverlo de workspace
+  | 'delete';       // eliminar el proyecto
+
+// Matriz de capacidades por rol
+const ROLE_CAPABILITIES: Record<ProjectRoleName, readonly ProjectCapability[]> = {
+  viewer: ['read'],
+  commenter: ['read', 'comment'],
+  editor: ['read', 'comment', 'write'],
+  admin: ['read', 'comment', 'write', 'manageMembers', 'manageLink', 'publish'],
+  owner: ['read', 'comment', 'write', 'manageMembers', 'manageLink', 'publish', 'archive', 'manageSecurity', 'transfer', 'delete'],
+};
+
+const ROLE_RANK: Record<ProjectRoleName, number> = { viewer: 1, commenter: 2, editor: 3, admin: 4, owner: 5 };
+
+// Rol concedido por Project.linkAccess
+const LINK_ACCESS_ROLES: Record<string, ProjectRole | undefined> = { read: 'viewer', write: 'editor' };
+
+export interface ProjectAccessOptions {
+  linkToken?: string | null;
+  twoFactor?: boolean; // la sesión del usuario verificó el segundo factor
+}
+
+// Datos mínimos del proyecto necesarios para resolver el acceso
+export interface ProjectAccessSubject {
+  ownerId: string;
+  linkAccess: string;
+  linkToken: string | null;
+  requireTwoFactor?: boolean;
+  permissions: { userId: string; role: ProjectRole }[];
+  workspace?: WorkspaceAccessSubject | null;
+}
+
+// Workspace del proyecto con (al menos) la membresía del usuario que accede
+export interface WorkspaceAccessSubject {
+  defaultProjectRole: ProjectRole;
+  members: { userId: string; role: WorkspaceRole }[];
+}
+
+/**
+ * Devuelve el mayor de dos roles (null se considera sin acceso)
+ */
+export function maxRole<T extends ProjectRoleName>(a: T | null, b: T | null): T | null {
+  if (!a) return b;
+  if (!b) return a;
+  return ROLE_RANK[a] >= ROLE_RANK[b] ? a : b;
+}
+
+/**
+ * Indica si un rol de workspace alcanza el mínimo requerido
+ */
+export function hasWorkspaceRole(role: WorkspaceRole | null | undefined, minRole: WorkspaceRole): boolean {
+  return !!role && WORKSPACE_ROLES.indexOf(role) >= WORKSPACE_ROLES.indexOf(minRole);
+}
+
+/**
+ * Rol que un miembro del workspace hereda en sus proyectos: admin/owner del workspace son admin del proyecto,
+ * el resto recibe el rol por defecto del workspace
+ */
+export function inheritedProjectRole(workspaceRole: WorkspaceRole, defaultProjectRole: ProjectRole): ProjectRole {
+  return workspaceRole === 'member' ? defaultProjectRole : 'admin';
+}
+
+/**
+ * Indica si un rol incluye la capacidad indicada
+ */
+export function hasCapability(role: ProjectRoleName | null | undefined, capability: ProjectCapability): boolean {
+  return !!role && ROLE_CAPABILITIES[role].includes(capability);
+}
+
+/**
+ * Indica si el proyecto exige 2FA y la sesión actual no lo verificó
+ */
+export function isTwoFactorMissing(project: Pick<ProjectAccessSubject, 'requireTwoFactor'>, options: ProjectAccessOptions = {}): boolean {
+  return !!project.requireTwoFactor && !options.twoFactor;
+}
+
+/**
+ * Calcula el rol efectivo de un usuario sobre un proyecto ya cargado.
+ * Combina propietario, ProjectPermission.role, el rol heredado del workspace y acceso por enlace (linkAccess + linkToken).
+ * Si el proyecto exige 2FA y la sesión no lo verificó, nadie tiene acceso (tampoco el owner).
+ */
+export function resolveProjectRole(
+  project: ProjectAccessSubject,
+  userId: string | undefined,
+  options: ProjectAccessOptions = {}
+): ProjectRoleName | null {
+  if (isTwoFactorMissing(project, options)) return null;
+  if (userId && project.ownerId === userId) return 'owner';
+
+  let role: ProjectRoleName | null = null;
+  const permission = userId ? project.permissions.find(p => p.userId === userId) : undefined;
+  if (permission) role = permission.role;
+
+  const membership = userId ? project.workspace?.members.find(m => m.userId === userId) : undefined;
+  if (membership) role = maxRole(role, inheritedProjectRole(membership.role, project.workspace!.defaultProjectRole));
+
+  const { linkToken } = options;
+  if (linkToken && project.linkToken && linkToken === project.linkToken) {
+    role = maxRole(role, LINK_ACCESS_ROLES[project.linkAccess] ?? null);
+  }
+  return role;
+}
+
+/**
+ * Carga la membresía del usuario en el workspace de un proyecto (null si el proyecto no tiene workspace)
+ */
+export async function loadWorkspaceAccess(
+  workspaceId: string | null | undefined,
+  userId: string | undefined
+): Promise<WorkspaceAccessSubject | null> {
+  if (!workspaceId || !userId) return null;
+  return prisma.workspace.findUnique({
+    where: { id: workspaceId },
+    select: { defaultProjectRole: true, members: { where: { userId }, select: { userId: true, role: true } } },
+  });
+}
+
+/**
+ * Rol del usuario en un workspace. Devuelve null si el workspace no existe.
+ */
+export async function getWorkspaceAccess(userId: string, workspaceId: string): Promise<{ role: WorkspaceRole | null } | null> {
+  const workspace = await prisma.workspace.findUnique({
+    where: { id: workspaceId },
+    select: { members: { where: { userId }, select: { role: true } } },
+  });
+  if (!workspace) return null;
+  return { role: workspace.members[0]?.role ?? null };
+}
+
+/**
+ * Carga el proyecto y devuelve el rol del usuario.
+ * Devuelve null si el proyecto no existe o está en la papelera.
+ */
+export async function getProjectAccess(
+  userId: string | undefined,
+  projectId: string,
+  options: ProjectAccessOptions = {}
+): Promise<{ role: ProjectRoleName | null; twoFactorRequired: boolean } | null> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    include: { permissions: true },
+  });
+  if (!project || project.deletedAt) return null;
+  const workspace = await loadWorkspaceAccess(project.workspaceId, userId);
+  return {
+    role: resolveProjectRole({ ...project, workspace }, userId, options),
+    twoFactorRequired: isTwoFactorMissing(project, options),
+  };
+}
+
+/**
+ * Verifica si el usuario tiene la capacidad indicada en el proyecto
+ */
+export async function checkProjectPermission(
+  userId: string | undefined,
+  projectId: string,
+  capability: ProjectCapability,
+  options: ProjectAccessOptions = {}
+): Promise<boolean> {
+  const access = await getProjectAccess(userId, projectId, options);
+  return !!access && hasCapability(access.role, capability);
+}
@@ -0,0 +1,12 @@
+/**
+ * Convierte un texto en un slug apto para URLs y nombres de archivo: minúsculas, sin acentos y con guiones.
+ * Devuelve '' si no queda ningún carácter válido.
+ */
+export function slugify(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
@@ -0,0 +1,131 @@
+// Diff de secuencias de líneas (algoritmo de Myers) y agrupación en hunks al estilo de `diff -u`
+
+export type DiffOp = { type: 'equal' | 'insert' | 'delete'; line: string };
+
+export interface DiffHunk {
+  oldStart: number; // 1-based, como en diff -u
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: { type: 'context' | 'added' | 'removed'; text: string }[];
+}
+
+// Por encima de esta distancia de edición se da el bloque por reemplazado entero (la traza crece con D²)
+const MAX_EDIT_DISTANCE = 2000;
+
+const equal = (line: string): DiffOp => ({ type: 'equal', line });
+const insert = (line: string): DiffOp => ({ type: 'insert', line });
+const remove = (line: string): DiffOp => ({ type: 'delete', line });
+
+function myers(a: string[], b: string[]): DiffOp[] {
+  const n = a.length;
+  const m = b.length;
+  if (n === 0) return b.map(insert);
+  if (m === 0) return a.map(remove);
+
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] guarda v[-d-1..d+1] al empezar el paso d, lo necesario para reconstruir el camino
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(a, b, trace);
+    }
+  }
+  return [...a.map(remove), ...b.map(insert)];
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[]): DiffOp[] {
+  const ops: DiffOp[] = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const at = (k: number) => trace[d][k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      ops.push(equal(a[--x]));
+      y--;
+    }
+    if (d > 0) ops.push(x === prevX ? insert(b[--y]) : remove(a[--x]));
+  }
+  return ops.reverse();
+}
+
+/**
+ * Operaciones mínimas para pasar de `a` a `b`. El prefijo y el sufijo comunes se recortan antes de aplicar Myers.
+ */
+export function diffLines(a: string[], b: string[]): DiffOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+  return [...a.slice(0, start).map(equal), ...myers(a.slice(start, endA), b.slice(start, endB)), ...a.slice(endA).map(equal)];
+}
+
+/**
+ * Agrupa las operaciones en hunks con `context` líneas sin cambios alrededor de cada cambio
+ */
+export function diffHunks(ops: DiffOp[], context = 3): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  // Posición (en líneas antiguas y nuevas) antes de cada operación
+  const positions = ops.map(op => {
+    const position = { oldLine, newLine };
+    if (op.type !== 'insert') oldLine++;
+    if (op.type !== 'delete') newLine++;
+    return position;
+  });
+
+  let i = 0;
+  while (i < ops.length) {
+    if (ops[i].type === 'equal') {
+      i++;
+      continue;
+    }
+    const start = Math.max(0, i - context);
+    // Se extiende mientras el siguiente cambio esté a menos de 2 * context líneas iguales
+    let end = i;
+    let equalRun = 0;
+    for (let j = i; j < ops.length; j++) {
+      if (ops[j].type === 'equal') {
+        equalRun++;
+        if (equalRun > 2 * context) break;
+      } else {
+        equalRun = 0;
+        end = j;
+      }
+    }
+    const stop = Math.min(ops.length, end + context + 1);
+    const lines = ops.slice(start, stop).map(op => ({
+      type: op.type === 'equal' ? ('context' as const) : op.type === 'insert' ? ('added' as const) : ('removed' as const),
+      text: op.line,
+    }));
+    hunks.push({
+      oldStart: positions[start].oldLine,
+      oldLines: lines.filter(line => line.type !== 'added').length,
+      newStart: positions[start].newLine,
+      newLines: lines.filter(line => line.type !== 'removed').length,
+      lines,
+    });
+    i = stop;
+  }
+  return hunks;
+}